@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -13,8 +13,60 @@ import {
   PermissionsAndroid,
   Platform,
   Vibration,
+  AppState,
 } from 'react-native';
 import notifee, { AndroidImportance, AndroidStyle } from '@notifee/react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { User, UserInput } from './src/types';
+import { generateUniqueId } from './src/utils';
+import {
+  UserRepository,
+  FirestoreUserRepository,
+  LocalUserRepository,
+  EmailInUseError,
+  UserQuery,
+  DEFAULT_USER_QUERY,
+  hasFilters,
+} from './src/repositories';
+import { syncPendingChanges } from './src/sync/syncPendingChanges';
+import SignInScreen from './src/components/SignInScreen';
+import NotificationSettings from './src/components/NotificationSettings';
+import AuditHistory from './src/components/AuditHistory';
+import TrashView from './src/components/TrashView';
+import ImportView from './src/components/ImportView';
+import BulkActionBar from './src/components/BulkActionBar';
+import CustomFieldInputs from './src/components/CustomFieldInputs';
+import UserListControls from './src/components/UserListControls';
+import { AuditLogReader } from './src/audit/AuditLogReader';
+import { UserImporter } from './src/import/UserImporter';
+import RNFS from 'react-native-fs';
+import RNShare from 'react-native-share';
+import { ExportFileSystem, UserExporter } from './src/export/UserExporter';
+import { ExportFormat, exportFileName } from './functions/src/shared/userExport';
+import { NotificationPreferencesStore } from './src/preferences/NotificationPreferencesStore';
+import { UserProfileSchemaStore } from './src/schema/UserProfileSchemaStore';
+import { DeviceRegistry } from './src/devices/DeviceRegistry';
+import { USE_FIREBASE_EMULATORS, EMULATOR_HOST, EMULATOR_PORTS, APP_VERSION, functionUrl } from './src/config';
+import { Permission, Role, getRole, hasPermission as roleHasPermission } from './functions/src/shared/roles';
+import { NotificationTopic, PushTarget } from './functions/src/shared/targeting';
+import { changesForUpdate, diffUser, summarizeChanges } from './functions/src/shared/userDiff';
+import { MAX_BULK_USERS, bulkChange, describeBulkChange } from './functions/src/shared/bulk';
+import {
+  CustomFieldDefinition,
+  EMAIL_IN_USE_MESSAGE,
+  UserValidationErrors,
+  customFieldValues,
+  formatCustomFieldValue,
+  parseAge,
+  validateUser,
+} from './functions/src/shared/userSchema';
+import { describeDevice } from './functions/src/shared/audit';
+import {
+  DEFAULT_PREFERENCES,
+  NotificationPreferences,
+  PreferenceChannel,
+  shouldNotify,
+} from './functions/src/shared/preferences';
 
 // Suppress Firebase deprecation warnings in development
 if (__DEV__) {
@@ -31,6 +83,7 @@ if (__DEV__) {
 let firestore: any = null;
 let messaging: any = null;
 let functions: any = null;
+let auth: any = null;
 let getApp: any = null;
 
 try {
@@ -61,19 +114,30 @@ try {
   console.log('Firebase Functions not available:', error);
 }
 
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  age: string;
-  createdAt?: any;
-  fcmToken?: string;
+try {
+  const firebaseAuth = require('@react-native-firebase/auth');
+  auth = firebaseAuth.default;
+} catch (error) {
+  console.log('Firebase Auth not available:', error);
+}
+
+// Use the local emulators (auth, firestore, functions) in development
+if (__DEV__ && USE_FIREBASE_EMULATORS) {
+  try {
+    auth?.().useEmulator(`http://${EMULATOR_HOST}:${EMULATOR_PORTS.auth}`);
+    firestore?.().useEmulator(EMULATOR_HOST, EMULATOR_PORTS.firestore);
+    functions?.().useEmulator(EMULATOR_HOST, EMULATOR_PORTS.functions);
+    console.log('Using Firebase emulators on', EMULATOR_HOST);
+  } catch (error) {
+    console.log('Firebase emulators not available:', (error as Error).message);
+  }
 }
 
-interface ValidationErrors {
-  name?: string;
-  email?: string;
-  age?: string;
+interface PushOptions {
+  // Token of this device, so it is not notified of its own change
+  senderToken?: string;
+  // Every registered device when omitted
+  target?: PushTarget;
 }
 
 interface InAppNotification {
@@ -81,13 +145,38 @@ interface InAppNotification {
   message: string;
   type: 'success' | 'info' | 'warning';
   timestamp: number;
+  // Button next to the message, e.g. Undo
+  action?: InAppNotificationAction;
+}
+
+interface InAppNotificationAction {
+  label: string;
+  onPress: () => void;
 }
 
+// The part of the users list loaded so far; the live listener covers
+// exactly this window
+interface UsersWindow {
+  query: UserQuery;
+  // Cursor of the last page loaded
+  cursor: any;
+  hasMore: boolean;
+}
+
+// Banners disappear after this long; ones with an action (Undo) stay longer
+const BANNER_TIMEOUT_MS = 5000;
+const UNDO_WINDOW_MS = 10000;
+
 // Enhanced Notification Service with Notifee
 class NotificationService {
   private messagingAvailable = false;
   private permissionsGranted = false;
   private notificationChannelCreated = false;
+  private preferences: NotificationPreferences = DEFAULT_PREFERENCES;
+  // Topics this device is subscribed to, and its registry entry once the
+  // user is signed in and the FCM token is known
+  private topics = new Set<NotificationTopic>();
+  private device: { token: string; uid: string } | null = null;
 
   async initialize() {
     await this.createNotificationChannels();
@@ -287,8 +376,78 @@ class NotificationService {
     }
   }
 
-  // Cross-device push notification
-  async sendPushNotification(action: string, userData: any, senderToken?: string) {
+  // The signed-in user's notification preferences, honored on this device
+  setPreferences(preferences: NotificationPreferences) {
+    this.preferences = preferences;
+  }
+
+  allows(channel: PreferenceChannel, action: string) {
+    return shouldNotify(this.preferences, channel, action);
+  }
+
+  getTopics(): NotificationTopic[] {
+    return [...this.topics];
+  }
+
+  // The signed-in user's registry entry for this device, or null once they
+  // sign out. The topics subscribed to so far are recorded on it.
+  async setDevice(device: { token: string; uid: string } | null) {
+    this.device = device;
+    await this.recordTopics();
+  }
+
+  // Topic pushes from Cloud Functions go to the devices whose registry entry
+  // lists the topic, so the recipients' preferences can be applied
+  private async recordTopics() {
+    if (!deviceRegistry || !this.device) return;
+    try {
+      await deviceRegistry.setTopics(this.device.token, this.device.uid, [...this.topics]);
+    } catch (error) {
+      console.log('Error recording topic subscriptions:', (error as Error).message);
+    }
+  }
+
+  // Receive pushes sent to a topic on this device. The FCM subscription is
+  // kept as well, for messages sent to the topic from the Firebase console.
+  async subscribeToTopic(topic: NotificationTopic) {
+    if (!messaging) {
+      console.log('Firebase Messaging not available - skipping topic subscription');
+      return false;
+    }
+
+    try {
+      const messagingInstance = getApp ? messaging(getApp()) : messaging();
+      await messagingInstance.subscribeToTopic(topic);
+      console.log(`Subscribed to topic ${topic}`);
+      this.topics.add(topic);
+      await this.recordTopics();
+      return true;
+    } catch (error) {
+      console.log(`Error subscribing to topic ${topic}:`, (error as Error).message);
+      return false;
+    }
+  }
+
+  async unsubscribeFromTopic(topic: NotificationTopic) {
+    if (!messaging) {
+      return false;
+    }
+
+    try {
+      const messagingInstance = getApp ? messaging(getApp()) : messaging();
+      await messagingInstance.unsubscribeFromTopic(topic);
+      console.log(`Unsubscribed from topic ${topic}`);
+      this.topics.delete(topic);
+      await this.recordTopics();
+      return true;
+    } catch (error) {
+      console.log(`Error unsubscribing from topic ${topic}:`, (error as Error).message);
+      return false;
+    }
+  }
+
+  // Cross-device push notification, to every device, a topic or a segment of users
+  async sendPushNotification(action: string, userData: any, { senderToken, target }: PushOptions = {}) {
     if (!functions || !this.messagingAvailable) {
       console.log('Push notifications not available - skipping');
       return;
@@ -298,14 +457,18 @@ class NotificationService {
       const functionsInstance = getApp ? functions(getApp()) : functions();
       const sendNotification = functionsInstance.httpsCallable('sendNotificationToAllUsers');
       
-      await sendNotification({
+      const result = await sendNotification({
         action,
         userData,
         senderToken,
+        changeId: userData?.changeId,
+        deleteStage: userData?.deleteStage,
+        target,
         timestamp: new Date().toISOString(),
       });
       
-      console.log('Push notification sent successfully');
+      const { successCount = 0, failureCount = 0, prunedTokenCount = 0 } = result.data ?? {};
+      console.log(`Push notification sent: ${successCount} delivered, ${failureCount} failed, ${prunedTokenCount} stale tokens removed`);
     } catch (error) {
       console.log('Error sending push notification - continuing with local notifications:', (error as Error).message);
     }
@@ -322,13 +485,17 @@ class NotificationService {
       const functionsInstance = getApp ? functions(getApp()) : functions();
       const sendEmail = functionsInstance.httpsCallable('sendEmailNotification');
       
-      await sendEmail({
+      const result = await sendEmail({
         action,
         userData,
+        changeId: userData?.changeId,
+        deleteStage: userData?.deleteStage,
         timestamp: new Date().toISOString(),
       });
-      
-      console.log('Email notification sent successfully');
+
+      // Emails are delivered (and retried) by the server's outbox worker
+      const { queuedCount = 0 } = result.data ?? {};
+      console.log(`Email notification queued for ${queuedCount} recipients`);
     } catch (error) {
       console.log('Error sending email notification - continuing with local notifications:', (error as Error).message);
     }
@@ -336,6 +503,9 @@ class NotificationService {
 
   // Comprehensive notification for CRUD operations
   async notifyCRUDOperation(operation: 'CREATE' | 'UPDATE' | 'DELETE', userData: any, isLocalAction: boolean = false) {
+    // "Age: 30 → 31" for updates that carry the previous version
+    const changeSummary = summarizeChanges(changesForUpdate(operation, userData) ?? []);
+
     const operationMessages = {
       CREATE: {
         local: `✅ ${userData.name} has been added successfully!`,
@@ -347,7 +517,9 @@ class NotificationService {
         local: `✅ ${userData.name} has been updated successfully!`,
         push: `📱 User "${userData.name}" information has been updated`,
         email: `User information updated: ${userData.name}`,
-        system: `User "${userData.name}" information has been updated`,
+        system: changeSummary
+          ? `User "${userData.name}" updated: ${changeSummary}`
+          : `User "${userData.name}" information has been updated`,
       },
       DELETE: {
         local: `🗑️ ${userData.name} has been deleted successfully!`,
@@ -359,20 +531,40 @@ class NotificationService {
 
     const messages = operationMessages[operation];
 
-    // Show system notification
-    await this.showSystemNotification(
-      operation === 'CREATE' ? 'User Added' : operation === 'UPDATE' ? 'User Updated' : 'User Deleted',
-      messages.system,
-      'success'
-    );
+    // Show system notification unless this user turned them off
+    if (this.allows('system', operation)) {
+      await this.showSystemNotification(
+        operation === 'CREATE' ? 'User Added' : operation === 'UPDATE' ? 'User Updated' : 'User Deleted',
+        messages.system,
+        'success'
+      );
+    }
 
-    // Send cross-device notifications (only if not local action and messaging is available)
+    // Send cross-device notifications; recipients' own preferences are
+    // applied by the fan-out in Cloud Functions (only if not local action and messaging is available)
     if (!isLocalAction && this.messagingAvailable) {
       await this.sendPushNotification(operation, userData);
       await this.sendEmailNotification(operation, userData);
     }
   }
 
+  // One notification for a bulk action instead of one per user. `changeId`
+  // is the bulk change's id, which the server's own announcement also uses.
+  async notifyBulkOperation(operation: 'UPDATE' | 'DELETE', names: string[], changeId: string, isLocalAction: boolean = false) {
+    const change = bulkChange(names);
+    const { title, body } = describeBulkChange(operation, change);
+
+    if (this.allows('system', operation)) {
+      await this.showSystemNotification(title, body, 'success');
+    }
+
+    if (!isLocalAction && this.messagingAvailable) {
+      const userData = { ...change, changeId, ...(operation === 'DELETE' ? { deleteStage: 'trash' } : {}) };
+      await this.sendPushNotification(operation, userData);
+      await this.sendEmailNotification(operation, userData);
+    }
+  }
+
   // Test system notification function
   async testSystemNotification() {
     console.log('Testing system notification...');
@@ -395,48 +587,243 @@ class NotificationService {
 
 const notificationService = new NotificationService();
 
-// Utility function to generate unique IDs
-const generateUniqueId = (): string => {
-  return `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+// Users persisted on the device; the offline backend and Firestore cache
+const defaultLocalUserRepository = new LocalUserRepository(AsyncStorage);
+
+// Use Firestore when it is available, otherwise work offline on the device.
+// Picked once per launch: local mode lasts until the app is restarted.
+const createDefaultUserRepository = (localRepository: LocalUserRepository): UserRepository => {
+  if (firestore) {
+    try {
+      const firestoreInstance = getApp ? firestore(getApp()) : firestore();
+      console.log('Firebase Firestore initialized successfully');
+      return new FirestoreUserRepository(firestoreInstance, {
+        serverTimestamp: () => firestore.FieldValue.serverTimestamp(),
+        currentUid: () => auth?.().currentUser?.uid,
+        currentDevice: () => describeDevice(Platform.OS, APP_VERSION),
+      });
+    } catch (error) {
+      console.error('Error initializing Firestore:', error);
+    }
+  }
+  return localRepository;
+};
+
+// Push tokens of signed-in devices; only available with Firestore
+const createDeviceRegistry = (): DeviceRegistry | null => {
+  if (!firestore) return null;
+  try {
+    const firestoreInstance = getApp ? firestore(getApp()) : firestore();
+    return new DeviceRegistry(firestoreInstance, {
+      serverTimestamp: () => firestore.FieldValue.serverTimestamp(),
+    });
+  } catch (error) {
+    console.log('Device registry not available:', (error as Error).message);
+    return null;
+  }
+};
+
+const deviceRegistry = createDeviceRegistry();
+
+// Preferences are saved to Firestore when available and always cached locally
+const createPreferencesStore = (): NotificationPreferencesStore => {
+  if (firestore) {
+    try {
+      const firestoreInstance = getApp ? firestore(getApp()) : firestore();
+      return new NotificationPreferencesStore(AsyncStorage, firestoreInstance, {
+        serverTimestamp: () => firestore.FieldValue.serverTimestamp(),
+      });
+    } catch (error) {
+      console.log('Notification preferences will only be stored on this device:', (error as Error).message);
+    }
+  }
+  return new NotificationPreferencesStore(AsyncStorage);
+};
+
+const preferencesStore = createPreferencesStore();
+
+// Custom user fields from Firestore, or the copy cached on the device
+const createUserProfileSchemaStore = (): UserProfileSchemaStore => {
+  if (firestore) {
+    try {
+      const firestoreInstance = getApp ? firestore(getApp()) : firestore();
+      return new UserProfileSchemaStore(AsyncStorage, firestoreInstance);
+    } catch (error) {
+      console.log('Custom user fields will only be read from this device:', (error as Error).message);
+    }
+  }
+  return new UserProfileSchemaStore(AsyncStorage);
+};
+
+const userProfileSchemaStore = createUserProfileSchemaStore();
+
+// Audit history of user changes; only available with Firestore
+const createAuditLogReader = (): AuditLogReader | null => {
+  if (!firestore) return null;
+  try {
+    const firestoreInstance = getApp ? firestore(getApp()) : firestore();
+    return new AuditLogReader(firestoreInstance);
+  } catch (error) {
+    console.log('Audit history not available:', (error as Error).message);
+    return null;
+  }
+};
+
+const auditLogReader = createAuditLogReader();
+
+// Bulk import runs in Cloud Functions; only available with them
+const createUserImporter = (): UserImporter | null => {
+  if (!functions) return null;
+  try {
+    const functionsInstance = getApp ? functions(getApp()) : functions();
+    return new UserImporter(functionsInstance);
+  } catch (error) {
+    console.log('User import not available:', (error as Error).message);
+    return null;
+  }
+};
+
+const userImporter = createUserImporter();
+
+// Exports are downloaded from an HTTPS function with the signed-in user's ID token
+const createUserExporter = (): UserExporter | null => {
+  if (!auth || !getApp) return null;
+  try {
+    const projectId = getApp().options.projectId;
+    return new UserExporter(functionUrl(projectId, 'exportUsers'), () => auth().currentUser?.getIdToken());
+  } catch (error) {
+    console.log('User export not available:', (error as Error).message);
+    return null;
+  }
+};
+
+const userExporter = createUserExporter();
+
+// Exports are written to the app's cache directory
+const exportFileSystem: ExportFileSystem = {
+  cacheDirectory: RNFS.CachesDirectoryPath,
+  exists: RNFS.exists,
+  mkdir: RNFS.mkdir,
+  unlink: RNFS.unlink,
+  readFile: (path) => RNFS.readFile(path, 'utf8'),
+  downloadFile: (options) => RNFS.downloadFile(options).promise,
 };
 
-function App() {
+interface AppProps {
+  userRepository?: UserRepository;
+  localUserRepository?: LocalUserRepository;
+}
+
+function App({ userRepository, localUserRepository = defaultLocalUserRepository }: AppProps = {}) {
   const [users, setUsers] = useState<User[]>([]);
+  // Search, filters and sort order of the users list
+  const [query, setQuery] = useState<UserQuery>(DEFAULT_USER_QUERY);
+  const [usersWindow, setUsersWindow] = useState<UsersWindow | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Users matching the query, loaded or not
+  const [totalCount, setTotalCount] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
   const [age, setAge] = useState('');
+  // Custom field values as typed, by field key
+  const [customValues, setCustomValues] = useState<{ [key: string]: string }>({});
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
   const [editingUser, setEditingUser] = useState<User | null>(null);
-  const [errors, setErrors] = useState<ValidationErrors>({});
+  const [errors, setErrors] = useState<UserValidationErrors>({});
   const [inAppNotifications, setInAppNotifications] = useState<InAppNotification[]>([]);
   const [fcmToken, setFcmToken] = useState<string>('');
   const [notificationStatus, setNotificationStatus] = useState<any>(null);
-  const [db, setDb] = useState<any>(null);
+  const [authAvailable, setAuthAvailable] = useState(!!auth);
+  const [authUser, setAuthUser] = useState<any>(null);
+  const [authInitializing, setAuthInitializing] = useState(!!auth);
+  const [role, setRole] = useState<Role | null>(null);
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_PREFERENCES);
+  const [showSettings, setShowSettings] = useState(false);
+  const [historyUser, setHistoryUser] = useState<User | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  // Users picked for a bulk action (long-press a user to start)
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkSaving, setBulkSaving] = useState(false);
+  const [repository] = useState<UserRepository>(
+    () => userRepository ?? createDefaultUserRepository(localUserRepository)
+  );
 
-  // Initialize Firebase with modern API
+  // Without Firebase Auth (local mode) the app is usable signed out
+  const signedIn = !authAvailable || !!authUser;
+
+  // Signed-out local mode has full control of the data on this device
+  const can = (permission: Permission) =>
+    !authAvailable || (role !== null && roleHasPermission(role, permission));
+
+  // Editors may only change users they own; admins may change anyone
+  const canEditUser = (user: User) =>
+    can('users:update') && (!authUser || role === 'admin' || user.ownerUid === authUser.uid);
+
+  // Track the signed-in Firebase Auth user
   useEffect(() => {
-    if (firestore && getApp) {
-      try {
-        const app = getApp();
-        const firestoreInstance = firestore(app);
-        setDb(firestoreInstance);
-        console.log('Firebase Firestore initialized successfully with modern API');
-      } catch (error) {
-        console.error('Error initializing Firestore:', error);
-      }
-    } else if (firestore) {
-      // Fallback to legacy API if modern not available
-      try {
-        const firestoreInstance = firestore();
-        setDb(firestoreInstance);
-        console.log('Firebase Firestore initialized successfully with legacy API');
-      } catch (error) {
-        console.error('Error initializing Firestore:', error);
-      }
+    if (!auth) return;
+
+    try {
+      const unsubscribe = auth().onAuthStateChanged(async (user: any) => {
+        let userRole: Role | null = null;
+        if (user) {
+          try {
+            // The role lives in the `role` custom claim of the ID token
+            const tokenResult = await user.getIdTokenResult();
+            userRole = getRole(tokenResult.claims);
+          } catch (error) {
+            console.log('Could not read role claim - defaulting to viewer:', (error as Error).message);
+            userRole = getRole(null);
+          }
+        }
+        setRole(userRole);
+        setAuthUser(user);
+        setAuthInitializing(false);
+      });
+
+      return unsubscribe;
+    } catch (error) {
+      console.log('Firebase Auth setup failed - continuing without sign-in:', (error as Error).message);
+      setAuthAvailable(false);
+      setAuthInitializing(false);
     }
   }, []);
 
+  const signIn = async (userEmail: string, password: string) => {
+    await auth().signInWithEmailAndPassword(userEmail, password);
+    addInAppNotification(`👋 Signed in as ${userEmail}`, 'success');
+  };
+
+  const createAccount = async (userEmail: string, password: string) => {
+    await auth().createUserWithEmailAndPassword(userEmail, password);
+    addInAppNotification(`👋 Account created for ${userEmail}`, 'success');
+  };
+
+  const signOut = async () => {
+    try {
+      // Unregister while still signed in; the rules only let owners remove
+      // devices. Topics are no longer recorded once the device is forgotten.
+      await notificationService.setDevice(null);
+      if (fcmToken && deviceRegistry) {
+        await deviceRegistry.unregister(fcmToken).catch((error) => {
+          console.log('Error unregistering device:', (error as Error).message);
+        });
+      }
+      await notificationService.unsubscribeFromTopic('user-changes');
+      await notificationService.unsubscribeFromTopic('admin-alerts');
+      await auth().signOut();
+      setUsers([]);
+      setLoading(true);
+    } catch (error) {
+      console.error('Error signing out:', error);
+      addInAppNotification('❌ Failed to sign out. Please try again.', 'warning');
+    }
+  };
+
   // Initialize notification service
   useEffect(() => {
     const initializeNotifications = async () => {
@@ -474,21 +861,59 @@ function App() {
     }
   };
 
+  // Download the users the list shows (all pages) to a file and hand it to
+  // the share sheet, where it can be saved or sent
+  const shareExport = async (format: ExportFormat) => {
+    if (!userExporter) return;
+    setExporting(true);
+    try {
+      const path = await userExporter.exportToFile(format, query, exportFileSystem);
+      await RNShare.open({
+        url: `file://${path}`,
+        type: format === 'csv' ? 'text/csv' : 'application/json',
+        filename: exportFileName(format),
+        failOnCancel: false,
+      });
+    } catch (error) {
+      console.log('Error exporting users:', (error as Error).message);
+      addInAppNotification('❌ Failed to export users. Please try again.', 'warning');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const confirmExport = () => {
+    Alert.alert(
+      'Export Users',
+      hasFilters(query) ? 'Export the users matching the search and filters as:' : 'Export all users as:',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'CSV', onPress: () => shareExport('csv') },
+        { text: 'JSON', onPress: () => shareExport('json') },
+      ]
+    );
+  };
+
   // Add in-app notification
-  const addInAppNotification = (message: string, type: 'success' | 'info' | 'warning' = 'info') => {
+  const addInAppNotification = (
+    message: string,
+    type: 'success' | 'info' | 'warning' = 'info',
+    action?: InAppNotificationAction
+  ) => {
     const notification: InAppNotification = {
       id: generateUniqueId(),
       message,
       type,
       timestamp: Date.now(),
+      action,
     };
     
     setInAppNotifications(prev => [notification, ...prev.slice(0, 4)]);
     
-    // Auto-remove after 5 seconds
+    // Auto-remove, later when there is an action to take
     setTimeout(() => {
       setInAppNotifications(prev => prev.filter(n => n.id !== notification.id));
-    }, 5000);
+    }, action ? UNDO_WINDOW_MS : BANNER_TIMEOUT_MS);
   };
 
   // Remove in-app notification
@@ -496,47 +921,15 @@ function App() {
     setInAppNotifications(prev => prev.filter(n => n.id !== id));
   };
 
-  // Validation functions
-  const validateName = (name: string): string | undefined => {
-    if (!name.trim()) return 'Name is required';
-    if (name.trim().length < 2) return 'Name must be at least 2 characters';
-    if (name.trim().length > 50) return 'Name must be less than 50 characters';
-    if (!/^[a-zA-Z\s]+$/.test(name.trim())) return 'Name can only contain letters and spaces';
-    return undefined;
-  };
-
-  const validateEmail = (email: string): string | undefined => {
-    if (!email.trim()) return 'Email is required';
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email.trim())) return 'Please enter a valid email address';
-    return undefined;
-  };
-
-  const validateAge = (age: string): string | undefined => {
-    if (!age.trim()) return 'Age is required';
-    const ageNum = parseInt(age.trim());
-    if (isNaN(ageNum)) return 'Age must be a number';
-    if (ageNum < 1 || ageNum > 120) return 'Age must be between 1 and 120';
-    return undefined;
-  };
-
-  // Validate all fields
+  // Validate all fields against the schema shared with Cloud Functions
   const validateForm = (): boolean => {
-    const nameError = validateName(name);
-    const emailError = validateEmail(email);
-    const ageError = validateAge(age);
-
-    const newErrors: ValidationErrors = {};
-    if (nameError) newErrors.name = nameError;
-    if (emailError) newErrors.email = emailError;
-    if (ageError) newErrors.age = ageError;
-
+    const newErrors = validateUser({ name, email, age, customFields: customValues }, customFields);
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
   // Clear errors when user starts typing
-  const clearError = (field: keyof ValidationErrors) => {
+  const clearError = (field: string) => {
     if (errors[field]) {
       setErrors(prev => ({ ...prev, [field]: undefined }));
     }
@@ -552,48 +945,37 @@ function App() {
 
     setSubmitting(true);
     try {
+      const changeId = generateUniqueId();
       const userData = {
         name: name.trim(),
         email: email.trim(),
-        age: age.trim(),
-        fcmToken: fcmToken,
-        createdAt: db ? firestore.FieldValue.serverTimestamp() : new Date(),
+        age: parseAge(age)!,
+        customFields: customFieldValues(customFields, customValues),
+        lastChangeId: changeId,
       };
 
-      let newUser: User;
+      const newUser = await repository.create(userData);
 
-      if (db) {
-        // Use Firebase
-        const docRef = await db.collection('users').add(userData);
-        newUser = {
-          id: docRef.id,
-          ...userData,
-        };
+      // Cross-device notifications only when the change is shared
+      await notificationService.notifyCRUDOperation('CREATE', { ...newUser, changeId }, !repository.isRemote);
 
-        // Send cross-device notifications
-        await notificationService.notifyCRUDOperation('CREATE', { ...userData, id: docRef.id });
-      } else {
-        // Use local state
-        newUser = {
-          id: generateUniqueId(),
-          ...userData,
-        };
-
-        // Local notification only
-        await notificationService.notifyCRUDOperation('CREATE', newUser, true);
-      }
-
-      setUsers(prev => [newUser, ...prev]);
       setName('');
       setEmail('');
       setAge('');
+      setCustomValues({});
       setErrors({});
       
-      // Add notification for other users
-      if (users.length > 0) {
-        addInAppNotification(`📢 Notification: New user "${userData.name}" added to the system`, 'info');
-      }
+      // Undoing removes the user, which needs the delete permission
+      addInAppNotification(
+        `✅ User "${userData.name}" added to the system`,
+        'success',
+        can('users:delete') ? { label: 'Undo', onPress: () => undoCreate(newUser, changeId) } : undefined
+      );
     } catch (error) {
+      if (error instanceof EmailInUseError) {
+        setErrors(prev => ({ ...prev, email: EMAIL_IN_USE_MESSAGE }));
+        return;
+      }
       console.error('Error adding user:', error);
       notificationService.showFallbackNotification('Error', 'Failed to add user. Please try again.');
       addInAppNotification('❌ Failed to add user. Please try again.', 'warning');
@@ -602,24 +984,13 @@ function App() {
     }
   };
 
-  // READ - Fetch all users
+  // READ - Fetch the first page of users; the real-time listener keeps the
+  // loaded pages current
   const fetchUsers = async () => {
     try {
-      if (db) {
-        // Use Firebase
-        const snapshot = await db.collection('users').orderBy('createdAt', 'desc').get();
-        const userList: User[] = [];
-        snapshot.forEach((doc: any) => {
-          userList.push({
-            id: doc.id,
-            ...doc.data(),
-          } as User);
-        });
-        setUsers(userList);
-      } else {
-        // Use local state (already loaded)
-        setUsers([]);
-      }
+      const page = await repository.page({ query });
+      setUsers(page.users);
+      setUsersWindow({ query, cursor: page.cursor, hasMore: page.hasMore });
     } catch (error) {
       console.error('Error fetching users:', error);
       notificationService.showFallbackNotification('Error', 'Failed to fetch users');
@@ -629,6 +1000,23 @@ function App() {
     }
   };
 
+  // READ - Load the next page when the list is scrolled to its end
+  const loadMoreUsers = async () => {
+    if (!usersWindow?.hasMore || loadingMore) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await repository.page({ query: usersWindow.query, after: usersWindow.cursor });
+      setUsers(prev => [...prev, ...page.users]);
+      setUsersWindow({ ...usersWindow, cursor: page.cursor, hasMore: page.hasMore });
+    } catch (error) {
+      console.error('Error loading more users:', error);
+      addInAppNotification('❌ Failed to load more users', 'warning');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   // UPDATE - Update user
   const updateUser = async () => {
     if (!editingUser) return;
@@ -639,42 +1027,62 @@ function App() {
       return;
     }
 
+    const formData = {
+      name: name.trim(),
+      email: email.trim(),
+      age: parseAge(age)!,
+      customFields: customFieldValues(customFields, customValues, editingUser.customFields),
+    };
+
+    // Nothing to save or notify about
+    const changes = diffUser(
+      { name: editingUser.name, email: editingUser.email, age: editingUser.age, customFields: editingUser.customFields },
+      formData,
+      customFields
+    );
+    if (changes.length === 0) {
+      setEditingUser(null);
+      setName('');
+      setEmail('');
+      setAge('');
+      setCustomValues({});
+      setErrors({});
+      addInAppNotification('ℹ️ No changes to save', 'info');
+      return;
+    }
+
     setSubmitting(true);
     try {
-      const updatedData = {
-        name: name.trim(),
-        email: email.trim(),
-        age: age.trim(),
-        fcmToken: fcmToken,
-      };
+      const changeId = generateUniqueId();
+      const updatedData = { ...formData, lastChangeId: changeId };
 
-      if (db) {
-        // Use Firebase
-        await db.collection('users').doc(editingUser.id).update(updatedData);
-        
-        // Send cross-device notifications
-        await notificationService.notifyCRUDOperation('UPDATE', { ...updatedData, id: editingUser.id, oldData: editingUser });
-      } else {
-        // Use local state
-        setUsers(prev => prev.map(user => 
-          user.id === editingUser.id ? { ...user, ...updatedData } : user
-        ));
+      await repository.update(editingUser.id, updatedData);
 
-        // Local notification only
-        await notificationService.notifyCRUDOperation('UPDATE', { ...updatedData, id: editingUser.id }, true);
-      }
+      // Cross-device notifications only when the change is shared
+      await notificationService.notifyCRUDOperation(
+        'UPDATE',
+        { ...updatedData, id: editingUser.id, oldData: editingUser, changeId },
+        !repository.isRemote
+      );
 
       setEditingUser(null);
       setName('');
       setEmail('');
       setAge('');
+      setCustomValues({});
       setErrors({});
       
-      // Add notification for other users
-      if (users.length > 1) {
-        addInAppNotification(`📢 Notification: User "${updatedData.name}" information has been updated`, 'info');
-      }
+      const previousUser = editingUser;
+      addInAppNotification(
+        `✅ User "${updatedData.name}" updated: ${summarizeChanges(changes)}`,
+        'success',
+        { label: 'Undo', onPress: () => undoUpdate(previousUser, formData) }
+      );
     } catch (error) {
+      if (error instanceof EmailInUseError) {
+        setErrors(prev => ({ ...prev, email: EMAIL_IN_USE_MESSAGE }));
+        return;
+      }
       console.error('Error updating user:', error);
       notificationService.showFallbackNotification('Error', 'Failed to update user. Please try again.');
       addInAppNotification('❌ Failed to update user. Please try again.', 'warning');
@@ -683,11 +1091,11 @@ function App() {
     }
   };
 
-  // DELETE - Delete user
+  // DELETE - Move user to the trash
   const deleteUser = async (userId: string) => {
     Alert.alert(
       'Confirm Delete',
-      'Are you sure you want to delete this user?',
+      'Are you sure you want to delete this user? They will be moved to the trash.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -696,28 +1104,31 @@ function App() {
           onPress: async () => {
             try {
               const userToDelete = users.find(user => user.id === userId);
-
-              if (db) {
-                // Use Firebase
-                await db.collection('users').doc(userId).delete();
-                
-                // Send cross-device notifications
-                if (userToDelete) {
-                  await notificationService.notifyCRUDOperation('DELETE', { id: userId, deletedUser: userToDelete });
-                }
-              } else {
-                // Use local state
-                setUsers(prev => prev.filter(user => user.id !== userId));
-
-                // Local notification only
-                if (userToDelete) {
-                  await notificationService.notifyCRUDOperation('DELETE', { id: userId, deletedUser: userToDelete }, true);
-                }
+              const changeId = generateUniqueId();
+
+              await repository.delete(userId, changeId);
+
+              // Cross-device notifications only when the change is shared
+              if (userToDelete) {
+                await notificationService.notifyCRUDOperation(
+                  'DELETE',
+                  {
+                    id: userId,
+                    deletedUser: userToDelete,
+                    // Matches the id onUserChange derives for the same delete
+                    changeId: `${userId}_DELETE_${changeId}`,
+                    deleteStage: 'trash',
+                  },
+                  !repository.isRemote
+                );
               }
               
-              // Add notification for other users
-              if (users.length > 1) {
-                addInAppNotification(`📢 Notification: User "${userToDelete?.name || 'User'}" has been removed from the system`, 'info');
+              if (userToDelete) {
+                addInAppNotification(
+                  `🗑️ User "${userToDelete.name}" has been moved to the trash`,
+                  'success',
+                  { label: 'Undo', onPress: () => restoreUser(userToDelete) }
+                );
               }
             } catch (error) {
               console.error('Error deleting user:', error);
@@ -730,12 +1141,175 @@ function App() {
     );
   };
 
+  // Bring a user back from the trash, with its original id and createdAt.
+  // Announced as the user being added again, but only where the move to the
+  // trash was announced (see notifications.delete_on in functions/README.md)
+  const restoreUser = async (user: User) => {
+    try {
+      await repository.restore(user.id);
+
+      await notificationService.notifyCRUDOperation(
+        'CREATE',
+        { ...user, changeId: generateUniqueId(), deleteStage: 'trash' },
+        !repository.isRemote
+      );
+
+      addInAppNotification(`♻️ User "${user.name}" has been restored`, 'success');
+    } catch (error) {
+      console.error('Error restoring user:', error);
+      addInAppNotification('❌ Failed to restore user. Please try again.', 'warning');
+    }
+  };
+
+  // Permanently delete a user from the trash
+  const purgeUser = async (user: User) => {
+    try {
+      await repository.purge(user.id);
+
+      // Same event as the move to the trash; the server announces only one
+      await notificationService.notifyCRUDOperation(
+        'DELETE',
+        {
+          id: user.id,
+          deletedUser: user,
+          changeId: `${user.id}_DELETE_${user.lastChangeId || ''}`,
+          deleteStage: 'purge',
+        },
+        !repository.isRemote
+      );
+
+      addInAppNotification(`🗑️ User "${user.name}" has been permanently deleted`, 'info');
+    } catch (error) {
+      console.error('Error purging user:', error);
+      addInAppNotification('❌ Failed to delete user. Please try again.', 'warning');
+    }
+  };
+
+  // Undo a create. The user is removed for good rather than trashed; the
+  // delete is announced as a follow-up to the create
+  const undoCreate = async (user: User, changeId: string) => {
+    try {
+      await repository.purge(user.id);
+
+      await notificationService.notifyCRUDOperation(
+        'DELETE',
+        { id: user.id, deletedUser: user, changeId: `${user.id}_DELETE_${changeId}` },
+        !repository.isRemote
+      );
+
+      addInAppNotification(`↩️ Adding "${user.name}" has been undone`, 'info');
+    } catch (error) {
+      console.error('Error undoing create:', error);
+      addInAppNotification('❌ Failed to undo. Please try again.', 'warning');
+    }
+  };
+
+  // Undo an edit by writing the previous fields back as a new change
+  const undoUpdate = async (previousUser: User, updatedFields: UserInput) => {
+    try {
+      const changeId = generateUniqueId();
+      const restoredData = {
+        name: previousUser.name,
+        email: previousUser.email,
+        age: previousUser.age,
+        customFields: previousUser.customFields ?? {},
+        lastChangeId: changeId,
+      };
+
+      await repository.update(previousUser.id, restoredData);
+
+      await notificationService.notifyCRUDOperation(
+        'UPDATE',
+        { ...restoredData, id: previousUser.id, oldData: { ...previousUser, ...updatedFields }, changeId },
+        !repository.isRemote
+      );
+
+      addInAppNotification(`↩️ Changes to "${previousUser.name}" have been undone`, 'info');
+    } catch (error) {
+      console.error('Error undoing update:', error);
+      addInAppNotification('❌ Failed to undo. Please try again.', 'warning');
+    }
+  };
+
+  // Selected users still in the list
+  const selectedUsers = users.filter(user => selectedIds.includes(user.id));
+
+  // firestore.rules reject a bulk batch as a whole, so only users the caller
+  // may change can be selected. Moving users to the trash is for admins.
+  const canTrashUsers = can('users:delete') && (!authUser || role === 'admin');
+  const canSelectUser = (user: User) => canEditUser(user) || canTrashUsers;
+
+  const toggleSelected = (user: User) => {
+    if (!canSelectUser(user)) return;
+    if (selectedIds.includes(user.id)) {
+      setSelectedIds(selectedIds.filter(id => id !== user.id));
+    } else if (selectedIds.length >= MAX_BULK_USERS) {
+      addInAppNotification(`⚠️ Select at most ${MAX_BULK_USERS} users at a time`, 'warning');
+    } else {
+      setSelectedIds([...selectedIds, user.id]);
+    }
+  };
+
+  // Bulk UPDATE - one batch and one notification for every selected user
+  const setAgeOfSelected = async (newAge: number) => {
+    const targets = selectedUsers;
+    setBulkSaving(true);
+    try {
+      const bulkId = generateUniqueId();
+      await repository.updateMany(targets, { age: newAge }, bulkId);
+      await notificationService.notifyBulkOperation('UPDATE', targets.map(user => user.name), bulkId, !repository.isRemote);
+
+      setSelectedIds([]);
+      addInAppNotification(`✅ Age set to ${newAge} for ${targets.length} ${targets.length === 1 ? 'user' : 'users'}`, 'success');
+    } catch (error) {
+      console.error('Error updating users:', error);
+      addInAppNotification('❌ Failed to update the selected users. Nothing was changed.', 'warning');
+    } finally {
+      setBulkSaving(false);
+    }
+  };
+
+  // Bulk DELETE - move every selected user to the trash at once
+  const deleteSelected = () => {
+    const targets = selectedUsers;
+    Alert.alert(
+      'Confirm Delete',
+      `Delete ${targets.length} ${targets.length === 1 ? 'user' : 'users'}? They will be moved to the trash.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setBulkSaving(true);
+            try {
+              const bulkId = generateUniqueId();
+              await repository.deleteMany(targets, bulkId);
+              await notificationService.notifyBulkOperation('DELETE', targets.map(user => user.name), bulkId, !repository.isRemote);
+
+              setSelectedIds([]);
+              addInAppNotification(`🗑️ ${targets.length} ${targets.length === 1 ? 'user has' : 'users have'} been moved to the trash`, 'success');
+            } catch (error) {
+              console.error('Error deleting users:', error);
+              addInAppNotification('❌ Failed to delete the selected users. Nothing was changed.', 'warning');
+            } finally {
+              setBulkSaving(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   // Start editing user
   const startEditing = (user: User) => {
     setEditingUser(user);
     setName(user.name);
     setEmail(user.email);
-    setAge(user.age);
+    setAge(String(user.age));
+    setCustomValues(Object.fromEntries(
+      customFields.map(field => [field.key, formatCustomFieldValue(field, user.customFields?.[field.key])])
+    ));
     setErrors({});
     addInAppNotification(`✏️ Editing user: ${user.name}`, 'info');
   };
@@ -746,19 +1320,103 @@ function App() {
     setName('');
     setEmail('');
     setAge('');
+    setCustomValues({});
     setErrors({});
     addInAppNotification('❌ Edit cancelled', 'info');
   };
 
   // Initialize app
   useEffect(() => {
-    const initializeApp = async () => {
-      await getFCMToken();
-      await fetchUsers();
+    if (!signedIn) return;
+
+    // A new query starts again from its first page, with nothing selected
+    setUsersWindow(null);
+    setSelectedIds([]);
+    fetchUsers();
+  }, [repository, signedIn, query]);
+
+  // Register this device's push token for the signed-in user and keep the
+  // registry current when FCM rotates the token
+  useEffect(() => {
+    if (!messaging || !deviceRegistry || !authUser) return;
+
+    const deviceInfo = { platform: Platform.OS, appVersion: APP_VERSION };
+    let currentToken: string | undefined;
+
+    const registerDevice = async () => {
+      const token = await getFCMToken();
+      if (!token) return;
+      currentToken = token;
+      try {
+        await deviceRegistry.register(token, authUser.uid, deviceInfo, notificationService.getTopics());
+        console.log('Device registered for push notifications');
+      } catch (error) {
+        console.log('Error registering device:', (error as Error).message);
+      }
     };
 
-    initializeApp();
-  }, [db]);
+    registerDevice();
+
+    try {
+      const messagingInstance = getApp ? messaging(getApp()) : messaging();
+      const unsubscribe = messagingInstance.onTokenRefresh(async (newToken: string) => {
+        const oldToken = currentToken;
+        currentToken = newToken;
+        setFcmToken(newToken);
+        try {
+          await deviceRegistry.refresh(oldToken, newToken, authUser.uid, deviceInfo, notificationService.getTopics());
+          console.log('FCM token refreshed');
+        } catch (error) {
+          console.log('Error updating refreshed FCM token:', (error as Error).message);
+        }
+      });
+
+      return unsubscribe;
+    } catch (error) {
+      console.log('FCM token refresh handler not available:', (error as Error).message);
+    }
+  }, [authUser]);
+
+  // Load the signed-in user's notification preferences
+  useEffect(() => {
+    if (!signedIn) return;
+
+    preferencesStore.load(authUser?.uid).then((loaded) => {
+      setPreferences(loaded);
+      notificationService.setPreferences(loaded);
+    });
+  }, [signedIn, authUser]);
+
+  // Custom user fields, loaded again whenever someone signs in
+  useEffect(() => {
+    if (!signedIn) return;
+
+    userProfileSchemaStore.load().then(setCustomFields);
+  }, [signedIn, authUser]);
+
+  const savePreferences = async (updated: NotificationPreferences) => {
+    await preferencesStore.save(updated, authUser?.uid);
+    setPreferences(updated);
+    notificationService.setPreferences(updated);
+    addInAppNotification('⚙️ Notification settings saved', 'success');
+  };
+
+  // Record topic subscriptions on this device's registry entry
+  useEffect(() => {
+    notificationService.setDevice(authUser && fcmToken ? { token: fcmToken, uid: authUser.uid } : null);
+  }, [authUser, fcmToken]);
+
+  // Topic subscriptions follow the signed-in user's role
+  useEffect(() => {
+    if (!authUser || !role) return;
+
+    notificationService.subscribeToTopic('user-changes');
+    if (role === 'admin') {
+      notificationService.subscribeToTopic('admin-alerts');
+    } else {
+      notificationService.unsubscribeFromTopic('admin-alerts');
+    }
+  }, [authUser, role]);
 
   // Handle foreground messages
   useEffect(() => {
@@ -771,6 +1429,10 @@ function App() {
       const messagingInstance = getApp ? messaging(getApp()) : messaging();
       const unsubscribe = messagingInstance.onMessage(async (remoteMessage: any) => {
         console.log('Received foreground message:', remoteMessage);
+        if (!notificationService.allows('push', remoteMessage.data?.action ?? '')) {
+          console.log('Foreground message muted by notification settings');
+          return;
+        }
         notificationService.showSystemNotification(
           remoteMessage.notification?.title || 'New notification',
           remoteMessage.notification?.body || 'You have a new notification'
@@ -801,57 +1463,141 @@ function App() {
     }
   }, []);
 
-  // Listen for real-time updates (Firebase only)
+  // Listen for real-time updates to the loaded pages
   useEffect(() => {
-    if (!db) return;
+    if (!signedIn || !usersWindow) return;
+    const { query: windowQuery, cursor, hasMore } = usersWindow;
+    // Once the last page is loaded the window is open-ended, so users added
+    // at the end of the list show up too
+    const endAt = hasMore ? cursor : undefined;
 
     try {
-      const unsubscribe = db.collection('users')
-        .orderBy('createdAt', 'desc')
-        .onSnapshot((snapshot: any) => {
-          const userList: User[] = [];
-          snapshot.forEach((doc: any) => {
-            userList.push({
-              id: doc.id,
-              ...doc.data(),
-            } as User);
-          });
-          setUsers(userList);
-          setLoading(false);
-        }, (error: any) => {
-          console.error('Error listening to users:', error);
-          setLoading(false);
+      const unsubscribe = repository.subscribe((userList) => {
+        setUsers(userList);
+        setLoading(false);
+
+        repository.count(windowQuery).then(setTotalCount).catch((error) => {
+          console.log('Error counting users:', (error as Error).message);
         });
 
+        // Keep the on-device copy current for the next offline session; a
+        // filtered list is only part of it, and so are the first pages
+        if (repository.isRemote && !hasFilters(windowQuery)) {
+          const cached = hasMore ? localUserRepository.mergeAll(userList) : localUserRepository.replaceAll(userList);
+          cached.catch((error) => {
+            console.log('Error caching users locally:', (error as Error).message);
+          });
+        }
+      }, (error) => {
+        console.error('Error listening to users:', error);
+        setLoading(false);
+      }, windowQuery, endAt);
+
       return () => unsubscribe();
     } catch (error) {
       console.error('Error setting up real-time listener:', error);
       setLoading(false);
     }
-  }, [db]);
+  }, [repository, localUserRepository, signedIn, usersWindow]);
+
+  // Replay changes made in local mode once Firestore is available and a
+  // user is signed in: on start-up, after every sign-in and whenever the app
+  // returns to the foreground. The repository is picked at start-up, so a
+  // switch from local mode to Firestore is picked up on the next launch.
+  // One sync runs at a time, also across sign-ins, so no change is replayed
+  // twice.
+  const syncingRef = useRef(false);
+  useEffect(() => {
+    if (!repository.isRemote || !signedIn) return;
 
+    const syncOfflineChanges = async () => {
+      if (syncingRef.current) return;
+      syncingRef.current = true;
+      try {
+        const result = await syncPendingChanges(localUserRepository, repository);
+
+        if (result.applied.length > 0) {
+          addInAppNotification(`🔄 Synced ${result.applied.length} offline change(s)`, 'success');
+        }
+        result.conflicts.forEach(conflict => {
+          const { change } = conflict;
+          const userName = 'base' in change ? change.base.name : change.type === 'CREATE' ? change.data.name : 'User';
+          const reasons = {
+            deleted: 'was deleted on another device',
+            modified: 'was changed on another device',
+            'email-in-use': 'has an email another user took in the meantime',
+            rejected: 'was refused by the server (not allowed or invalid)',
+          };
+          addInAppNotification(`⚠️ "${userName}" ${reasons[conflict.reason]} - your offline change was discarded`, 'warning');
+        });
+      } catch (error) {
+        console.error('Error syncing offline changes:', error);
+      } finally {
+        syncingRef.current = false;
+      }
+    };
+
+    syncOfflineChanges();
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        syncOfflineChanges();
+      }
+    });
+
+    return () => subscription.remove();
+  }, [repository, localUserRepository, signedIn]);
+
+  // While users are selected a tap adds or removes a user and the per-user
+  // buttons are hidden
   const renderUser = ({ item }: { item: User }) => (
-    <View style={styles.userCard}>
+    <TouchableOpacity
+      style={[styles.userCard, selectedIds.includes(item.id) && styles.selectedUserCard]}
+      activeOpacity={canSelectUser(item) ? 0.7 : 1}
+      disabled={!canSelectUser(item)}
+      onLongPress={() => toggleSelected(item)}
+      onPress={() => selectedIds.length > 0 && toggleSelected(item)}
+    >
       <View style={styles.userInfo}>
-        <Text style={styles.userName}>{item.name}</Text>
+        <Text style={styles.userName}>{selectedIds.includes(item.id) ? '☑️ ' : ''}{item.name}</Text>
         <Text style={styles.userEmail}>{item.email}</Text>
         <Text style={styles.userAge}>Age: {item.age}</Text>
+        {customFields
+          .filter(field => formatCustomFieldValue(field, item.customFields?.[field.key]) !== '')
+          .map(field => (
+            <Text key={field.key} style={styles.userAge}>
+              {field.label}: {formatCustomFieldValue(field, item.customFields?.[field.key])}
+            </Text>
+          ))}
       </View>
-      <View style={styles.userActions}>
-        <TouchableOpacity
-          style={[styles.button, styles.editButton]}
-          onPress={() => startEditing(item)}
-        >
-          <Text style={styles.buttonText}>Edit</Text>
-        </TouchableOpacity>
-        <TouchableOpacity
-          style={[styles.button, styles.deleteButton]}
-          onPress={() => deleteUser(item.id)}
-        >
-          <Text style={styles.buttonText}>Delete</Text>
-        </TouchableOpacity>
-      </View>
-    </View>
+      {selectedIds.length === 0 && (
+        <View style={styles.userActions}>
+          {canEditUser(item) && (
+            <TouchableOpacity
+              style={[styles.button, styles.editButton]}
+              onPress={() => startEditing(item)}
+            >
+              <Text style={styles.buttonText}>Edit</Text>
+            </TouchableOpacity>
+          )}
+          {can('users:delete') && (
+            <TouchableOpacity
+              style={[styles.button, styles.deleteButton]}
+              onPress={() => deleteUser(item.id)}
+            >
+              <Text style={styles.buttonText}>Delete</Text>
+            </TouchableOpacity>
+          )}
+          {auditLogReader && repository.isRemote && (
+            <TouchableOpacity
+              style={[styles.button, styles.historyButton]}
+              onPress={() => setHistoryUser(item)}
+            >
+              <Text style={styles.buttonText}>History</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </TouchableOpacity>
   );
 
   const renderNotification = ({ item }: { item: InAppNotification }) => (
@@ -865,6 +1611,17 @@ function App() {
       onPress={() => removeInAppNotification(item.id)}
     >
       <Text style={styles.notificationText}>{item.message}</Text>
+      {item.action && (
+        <TouchableOpacity
+          style={styles.notificationAction}
+          onPress={() => {
+            removeInAppNotification(item.id);
+            item.action?.onPress();
+          }}
+        >
+          <Text style={styles.notificationActionText}>{item.action.label}</Text>
+        </TouchableOpacity>
+      )}
       <TouchableOpacity
         style={styles.notificationClose}
         onPress={() => removeInAppNotification(item.id)}
@@ -874,6 +1631,59 @@ function App() {
     </TouchableOpacity>
   );
 
+  // Waiting for Firebase Auth to restore the session
+  if (authInitializing) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>Checking sign-in...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!signedIn) {
+    return <SignInScreen onSignIn={signIn} onCreateAccount={createAccount} />;
+  }
+
+  if (showSettings) {
+    return (
+      <NotificationSettings
+        preferences={preferences}
+        onSave={savePreferences}
+        onClose={() => setShowSettings(false)}
+      />
+    );
+  }
+
+  if (showTrash) {
+    return (
+      <TrashView
+        repository={repository}
+        onRestore={restoreUser}
+        onPurge={purgeUser}
+        onClose={() => setShowTrash(false)}
+      />
+    );
+  }
+
+  if (showImport && userImporter) {
+    return <ImportView importer={userImporter} onClose={() => setShowImport(false)} />;
+  }
+
+  if (historyUser && auditLogReader) {
+    return (
+      <AuditHistory
+        user={historyUser}
+        reader={auditLogReader}
+        currentUid={authUser?.uid}
+        customFields={customFields}
+        onClose={() => setHistoryUser(null)}
+      />
+    );
+  }
+
   // Loading state
   if (loading) {
     return (
@@ -886,6 +1696,11 @@ function App() {
     );
   }
 
+  // "25 of 1204" while only some pages are loaded
+  const listCount = totalCount !== null && totalCount > users.length
+    ? `${users.length} of ${totalCount}`
+    : `${users.length}`;
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
@@ -900,16 +1715,57 @@ function App() {
           }
         </Text>
         <Text style={styles.infoText}>
-          {db ? 'Real-time updates across all devices' : 'Local storage with enhanced notifications'}
+          {repository.isRemote ? 'Real-time updates across all devices' : 'Offline mode - changes are saved on this device and synced the next time the app starts online'}
         </Text>
-        
-        {/* Test Notification Button */}
+        {authUser && (
+          <View style={styles.accountRow}>
+            <Text style={styles.accountText}>👤 {authUser.email} ({role})</Text>
+            <TouchableOpacity style={styles.signOutButton} onPress={signOut}>
+              <Text style={styles.signOutButtonText}>Sign Out</Text>
+            </TouchableOpacity>
+          </View>
+        )}
         <TouchableOpacity
-          style={styles.testButton}
-          onPress={() => notificationService.testSystemNotification()}
+          style={[styles.signOutButton, styles.settingsButton]}
+          onPress={() => setShowSettings(true)}
         >
-          <Text style={styles.testButtonText}>🔔 Test Notifications</Text>
+          <Text style={styles.signOutButtonText}>⚙️ Notification Settings</Text>
         </TouchableOpacity>
+        {can('users:delete') && (
+          <TouchableOpacity
+            style={[styles.signOutButton, styles.settingsButton]}
+            onPress={() => setShowTrash(true)}
+          >
+            <Text style={styles.signOutButtonText}>🗑️ Trash</Text>
+          </TouchableOpacity>
+        )}
+        {can('users:create') && userImporter && repository.isRemote && (
+          <TouchableOpacity
+            style={[styles.signOutButton, styles.settingsButton]}
+            onPress={() => setShowImport(true)}
+          >
+            <Text style={styles.signOutButtonText}>📥 Import Users</Text>
+          </TouchableOpacity>
+        )}
+        {authUser && userExporter && repository.isRemote && (
+          <TouchableOpacity
+            style={[styles.signOutButton, styles.settingsButton, exporting && styles.disabledButton]}
+            onPress={confirmExport}
+            disabled={exporting}
+          >
+            <Text style={styles.signOutButtonText}>{exporting ? '⏳ Exporting...' : '📤 Export'}</Text>
+          </TouchableOpacity>
+        )}
+        
+        {/* Test Notification Button */}
+        {can('notifications:broadcast') && (
+          <TouchableOpacity
+            style={styles.testButton}
+            onPress={() => notificationService.testSystemNotification()}
+          >
+            <Text style={styles.testButtonText}>🔔 Test Notifications</Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       {/* In-App Notifications */}
@@ -925,105 +1781,145 @@ function App() {
         </View>
       )}
 
-      <View style={styles.form}>
-        <Text style={styles.formTitle}>
-          {editingUser ? 'Edit User' : 'Add New User'}
-        </Text>
-        
-        <View style={styles.inputContainer}>
-          <TextInput
-            style={[styles.input, errors.name && styles.inputError]}
-            placeholder="Enter user name"
-            placeholderTextColor="#999"
-            value={name}
-            onChangeText={(text) => {
-              setName(text);
-              clearError('name');
-            }}
-          />
-          {errors.name && <Text style={styles.errorText}>{errors.name}</Text>}
-        </View>
-        
-        <View style={styles.inputContainer}>
-          <TextInput
-            style={[styles.input, errors.email && styles.inputError]}
-            placeholder="Enter email address"
-            placeholderTextColor="#999"
-            value={email}
-            onChangeText={(text) => {
-              setEmail(text);
-              clearError('email');
-            }}
-            keyboardType="email-address"
-            autoCapitalize="none"
-          />
-          {errors.email && <Text style={styles.errorText}>{errors.email}</Text>}
-        </View>
-        
-        <View style={styles.inputContainer}>
-          <TextInput
-            style={[styles.input, errors.age && styles.inputError]}
-            placeholder="Enter age"
-            placeholderTextColor="#999"
-            value={age}
-            onChangeText={(text) => {
-              setAge(text);
-              clearError('age');
+      {editingUser || can('users:create') ? (
+        <View style={styles.form}>
+          <Text style={styles.formTitle}>
+            {editingUser ? 'Edit User' : 'Add New User'}
+          </Text>
+          
+          <View style={styles.inputContainer}>
+            <TextInput
+              style={[styles.input, errors.name && styles.inputError]}
+              placeholder="Enter user name"
+              placeholderTextColor="#999"
+              value={name}
+              onChangeText={(text) => {
+                setName(text);
+                clearError('name');
+              }}
+            />
+            {errors.name && <Text style={styles.errorText}>{errors.name}</Text>}
+          </View>
+          
+          <View style={styles.inputContainer}>
+            <TextInput
+              style={[styles.input, errors.email && styles.inputError]}
+              placeholder="Enter email address"
+              placeholderTextColor="#999"
+              value={email}
+              onChangeText={(text) => {
+                setEmail(text);
+                clearError('email');
+              }}
+              keyboardType="email-address"
+              autoCapitalize="none"
+            />
+            {errors.email && <Text style={styles.errorText}>{errors.email}</Text>}
+          </View>
+          
+          <View style={styles.inputContainer}>
+            <TextInput
+              style={[styles.input, errors.age && styles.inputError]}
+              placeholder="Enter age"
+              placeholderTextColor="#999"
+              value={age}
+              onChangeText={(text) => {
+                setAge(text);
+                clearError('age');
+              }}
+              keyboardType="numeric"
+            />
+            {errors.age && <Text style={styles.errorText}>{errors.age}</Text>}
+          </View>
+
+          <CustomFieldInputs
+            fields={customFields}
+            values={customValues}
+            errors={errors}
+            onChange={(key, text) => {
+              setCustomValues(prev => ({ ...prev, [key]: text }));
+              clearError(key);
             }}
-            keyboardType="numeric"
           />
-          {errors.age && <Text style={styles.errorText}>{errors.age}</Text>}
-        </View>
 
-        <View style={styles.formButtons}>
-          {editingUser ? (
-            <>
+          <View style={styles.formButtons}>
+            {editingUser ? (
+              <>
+                <TouchableOpacity
+                  style={[styles.button, styles.updateButton, submitting && styles.disabledButton]}
+                  onPress={updateUser}
+                  disabled={submitting}
+                >
+                  {submitting ? (
+                    <ActivityIndicator size="small" color="white" />
+                  ) : (
+                    <Text style={styles.buttonText}>Update User</Text>
+                  )}
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, styles.cancelButton]}
+                  onPress={cancelEditing}
+                  disabled={submitting}
+                >
+                  <Text style={styles.buttonText}>Cancel</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
               <TouchableOpacity
-                style={[styles.button, styles.updateButton, submitting && styles.disabledButton]}
-                onPress={updateUser}
+                style={[styles.button, styles.addButton, submitting && styles.disabledButton]}
+                onPress={addUser}
                 disabled={submitting}
               >
                 {submitting ? (
                   <ActivityIndicator size="small" color="white" />
                 ) : (
-                  <Text style={styles.buttonText}>Update User</Text>
+                  <Text style={styles.buttonText}>Add User</Text>
                 )}
               </TouchableOpacity>
-              <TouchableOpacity
-                style={[styles.button, styles.cancelButton]}
-                onPress={cancelEditing}
-                disabled={submitting}
-              >
-                <Text style={styles.buttonText}>Cancel</Text>
-              </TouchableOpacity>
-            </>
-          ) : (
-            <TouchableOpacity
-              style={[styles.button, styles.addButton, submitting && styles.disabledButton]}
-              onPress={addUser}
-              disabled={submitting}
-            >
-              {submitting ? (
-                <ActivityIndicator size="small" color="white" />
-              ) : (
-                <Text style={styles.buttonText}>Add User</Text>
-              )}
-            </TouchableOpacity>
-          )}
+            )}
+          </View>
         </View>
-      </View>
+      ) : (
+        <View style={styles.viewOnlyBanner}>
+          <Text style={styles.viewOnlyText}>👀 View-only access - ask an admin for editor rights</Text>
+        </View>
+      )}
 
       <View style={styles.listContainer}>
-        <Text style={styles.listTitle}>Users ({users.length})</Text>
+        <Text style={styles.listTitle}>
+          {hasFilters(query) ? 'Matching users' : 'Users'} ({listCount})
+        </Text>
+        <UserListControls query={query} onChange={setQuery} />
+        {selectedUsers.length > 0 && (
+          <BulkActionBar
+            count={selectedUsers.length}
+            canUpdate={selectedUsers.every(canEditUser)}
+            canDelete={canTrashUsers}
+            busy={bulkSaving}
+            onSetAge={setAgeOfSelected}
+            onDelete={deleteSelected}
+            onCancel={() => setSelectedIds([])}
+          />
+        )}
         <FlatList
           data={users}
+          extraData={[selectedIds, customFields]}
           renderItem={renderUser}
           keyExtractor={(item) => item.id}
           showsVerticalScrollIndicator={false}
+          onEndReached={loadMoreUsers}
+          onEndReachedThreshold={0.5}
+          initialNumToRender={10}
+          windowSize={11}
+          ListFooterComponent={
+            loadingMore ? <ActivityIndicator size="small" color="#007AFF" style={styles.listFooter} /> : null
+          }
           ListEmptyComponent={
             <View style={styles.emptyContainer}>
               <Text style={styles.emptyText}>No users found</Text>
-              <Text style={styles.emptySubtext}>Add a user to get started!</Text>
+              <Text style={styles.emptySubtext}>
+                {hasFilters(query) ? 'Try another search or clear the filters' : 'Add a user to get started!'}
+              </Text>
             </View>
           }
         />
@@ -1066,6 +1962,32 @@ const styles = StyleSheet.create({
     opacity: 0.7,
     textAlign: 'center',
   },
+  accountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  accountText: {
+    fontSize: 12,
+    color: 'white',
+    opacity: 0.9,
+    marginRight: 10,
+  },
+  signOutButton: {
+    borderWidth: 1,
+    borderColor: 'white',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+  },
+  signOutButtonText: {
+    fontSize: 12,
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  settingsButton: {
+    marginTop: 8,
+  },
   notificationsContainer: {
     maxHeight: 200,
     paddingHorizontal: 15,
@@ -1104,6 +2026,18 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#333',
   },
+  notificationAction: {
+    marginLeft: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 6,
+    backgroundColor: '#007AFF',
+  },
+  notificationActionText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 13,
+  },
   notificationClose: {
     marginLeft: 10,
     width: 20,
@@ -1187,11 +2121,26 @@ const styles = StyleSheet.create({
   deleteButton: {
     backgroundColor: '#dc3545',
   },
+  historyButton: {
+    backgroundColor: '#6f42c1',
+    marginLeft: 5,
+  },
   buttonText: {
     color: 'white',
     fontWeight: 'bold',
     fontSize: 14,
   },
+  viewOnlyBanner: {
+    backgroundColor: '#e9ecef',
+    margin: 15,
+    padding: 15,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  viewOnlyText: {
+    fontSize: 14,
+    color: '#666',
+  },
   listContainer: {
     flex: 1,
     margin: 15,
@@ -1213,6 +2162,10 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.1,
     shadowRadius: 4,
   },
+  selectedUserCard: {
+    borderWidth: 2,
+    borderColor: '#007AFF',
+  },
   userInfo: {
     marginBottom: 10,
   },
@@ -1245,6 +2198,9 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#666',
   },
+  listFooter: {
+    marginVertical: 15,
+  },
   emptyContainer: {
     alignItems: 'center',
     padding: 40,
@@ -0,0 +1,172 @@
+/**
+ * @format
+ */
+
+import { DEFAULT_USER_QUERY, EmailInUseError, InMemoryUserRepository } from '../src/repositories';
+
+const alice = { name: 'Alice', email: 'alice@example.com', age: 30 };
+const bob = { name: 'Bob', email: 'bob@example.com', age: 41 };
+
+test('create, update and delete users', async () => {
+  const repository = new InMemoryUserRepository();
+
+  const created = await repository.create(alice);
+  expect(created.id).toBeTruthy();
+  expect(await repository.get(created.id)).toMatchObject(alice);
+
+  await repository.update(created.id, { age: 31 });
+  expect((await repository.get(created.id))?.age).toBe(31);
+
+  await repository.delete(created.id);
+  expect(await repository.get(created.id)).toMatchObject({ deletedAt: expect.any(Date) });
+  expect(await repository.list()).toEqual([]);
+});
+
+test('deleted users wait in the trash until restored or purged', async () => {
+  const repository = new InMemoryUserRepository();
+  const first = await repository.create(alice);
+  const second = await repository.create(bob);
+  await repository.delete(first.id);
+  await repository.delete(second.id);
+
+  expect((await repository.listTrash()).map(user => user.name)).toEqual(['Bob', 'Alice']);
+
+  await repository.restore(first.id);
+  expect((await repository.list()).map(user => user.name)).toEqual(['Alice']);
+
+  await repository.purge(second.id);
+  expect(await repository.get(second.id)).toBeNull();
+  expect(await repository.listTrash()).toEqual([]);
+});
+
+test('lists newest users first', async () => {
+  const repository = new InMemoryUserRepository();
+  await repository.create(alice);
+  await repository.create(bob);
+
+  const names = (await repository.list()).map(user => user.name);
+  expect(names).toEqual(['Bob', 'Alice']);
+});
+
+test('rejects updates to unknown users', async () => {
+  const repository = new InMemoryUserRepository();
+  await expect(repository.update('missing', { age: 1 })).rejects.toThrow();
+});
+
+test('searches, filters and sorts the list', async () => {
+  const repository = new InMemoryUserRepository([
+    { id: 'a', ...alice, name: 'Alice Smith', createdAt: new Date('2026-01-10') },
+    { id: 'b', ...bob, createdAt: new Date('2026-02-10') },
+    { id: 'c', name: 'Carol', email: 'smith.carol@example.com', age: 25, createdAt: new Date('2026-03-10') },
+  ]);
+  const names = async (query: Partial<typeof DEFAULT_USER_QUERY>) =>
+    (await repository.list({ ...DEFAULT_USER_QUERY, ...query })).map(user => user.name);
+
+  expect(await names({ search: 'SMI' })).toEqual(['Carol', 'Alice Smith']);
+  expect(await names({ search: 'bob@' })).toEqual(['Bob']);
+  expect(await names({ minAge: 26, maxAge: 41 })).toEqual(['Bob', 'Alice Smith']);
+  expect(await names({ createdFrom: new Date('2026-02-01'), createdTo: new Date('2026-02-28') })).toEqual(['Bob']);
+  expect(await names({ sortBy: 'age', direction: 'asc' })).toEqual(['Carol', 'Alice Smith', 'Bob']);
+  expect(await names({ sortBy: 'name', direction: 'desc' })).toEqual(['Carol', 'Bob', 'Alice Smith']);
+});
+
+test('subscribers receive the list for their own query', async () => {
+  const repository = new InMemoryUserRepository();
+  const matching: string[][] = [];
+  repository.subscribe(
+    users => matching.push(users.map(user => user.name)),
+    undefined,
+    { ...DEFAULT_USER_QUERY, search: 'al' },
+  );
+
+  await repository.create(alice);
+  await repository.create(bob);
+
+  expect(matching).toEqual([[], ['Alice'], ['Alice']]);
+});
+
+test('pages through the list with cursors and counts every match', async () => {
+  const repository = new InMemoryUserRepository(['Ann', 'Ben', 'Cat', 'Dan', 'Eve'].map((name, i) => ({
+    id: name, name, email: `${name}@example.com`, age: 20 + i, createdAt: new Date(2026, 0, i + 1),
+  })));
+  const query = { ...DEFAULT_USER_QUERY, sortBy: 'name' as const, direction: 'asc' as const };
+
+  const first = await repository.page({ query, pageSize: 2 });
+  const second = await repository.page({ query, pageSize: 2, after: first.cursor });
+  const last = await repository.page({ query, pageSize: 2, after: second.cursor });
+
+  expect([first, second, last].map(page => page.users.map(user => user.name))).toEqual([
+    ['Ann', 'Ben'], ['Cat', 'Dan'], ['Eve'],
+  ]);
+  expect([first.hasMore, second.hasMore, last.hasMore]).toEqual([true, true, false]);
+  expect(await repository.count(query)).toBe(5);
+  expect(await repository.count({ ...query, minAge: 23 })).toBe(2);
+
+  // A cursor still works after its user is gone
+  await repository.delete('Ben');
+  expect((await repository.page({ query, pageSize: 2, after: first.cursor })).users.map(user => user.name))
+    .toEqual(['Cat', 'Dan']);
+});
+
+test('subscribers to a window only hear about the users in it', async () => {
+  const repository = new InMemoryUserRepository();
+  await repository.create({ ...alice, name: 'Carol', email: 'carol@example.com' });
+  await repository.create(alice);
+  const query = { ...DEFAULT_USER_QUERY, sortBy: 'name' as const, direction: 'asc' as const };
+  const { cursor } = await repository.page({ query, pageSize: 1 });
+  const windows: string[][] = [];
+
+  repository.subscribe(users => windows.push(users.map(user => user.name)), undefined, query, cursor);
+  await repository.create(bob);
+
+  expect(windows).toEqual([['Alice'], ['Alice']]);
+});
+
+test('an email belongs to one user until it is purged', async () => {
+  const repository = new InMemoryUserRepository();
+  const first = await repository.create(alice);
+  const second = await repository.create(bob);
+
+  await expect(repository.create({ ...bob, email: ' Alice@Example.com ' })).rejects.toBeInstanceOf(EmailInUseError);
+  await expect(repository.update(second.id, { email: alice.email })).rejects.toBeInstanceOf(EmailInUseError);
+  await repository.update(first.id, { email: alice.email });
+
+  await repository.delete(first.id);
+  await expect(repository.create({ ...bob, email: alice.email })).rejects.toBeInstanceOf(EmailInUseError);
+  await repository.purge(first.id);
+  await expect(repository.create({ ...bob, email: alice.email })).resolves.toMatchObject({ email: alice.email });
+});
+
+test('subscribers receive the current list and every change', async () => {
+  const repository = new InMemoryUserRepository();
+  const listener = jest.fn();
+
+  const unsubscribe = repository.subscribe(listener);
+  expect(listener).toHaveBeenLastCalledWith([]);
+
+  const created = await repository.create(alice);
+  expect(listener).toHaveBeenLastCalledWith([created]);
+
+  unsubscribe();
+  await repository.delete(created.id);
+  expect(listener).toHaveBeenCalledTimes(2);
+});
+
+test('bulk actions change every user or none', async () => {
+  const repository = new InMemoryUserRepository();
+  const first = await repository.create(alice);
+  const second = await repository.create(bob);
+
+  await repository.updateMany([first, second], { age: 50 }, 'b1');
+  expect((await repository.list()).map(user => [user.age, user.lastChangeId])).toEqual([
+    [50, `b1_${second.id}`],
+    [50, `b1_${first.id}`],
+  ]);
+
+  await expect(repository.deleteMany([first, { ...second, id: 'missing' }], 'b2')).rejects.toThrow('missing');
+  expect(await repository.count()).toBe(2);
+
+  await repository.deleteMany([first, second], 'b3');
+  expect(await repository.count()).toBe(0);
+  expect(await repository.listTrash()).toHaveLength(2);
+});
@@ -0,0 +1,44 @@
+/**
+ * @format
+ */
+
+import { withDefaults } from '../functions/src/shared/preferences';
+import { NotificationPreferencesStore } from '../src/preferences/NotificationPreferencesStore';
+import { KeyValueStorage } from '../src/storage/KeyValueStorage';
+
+const createStorage = (): KeyValueStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: async key => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async key => {
+      items.delete(key);
+    },
+  };
+};
+
+// Firestore that cannot be reached, so loads fall back to the cache
+const offlineFirestore = {
+  collection: () => ({
+    doc: () => ({
+      get: async () => {
+        throw new Error('unavailable');
+      },
+      set: async () => undefined,
+    }),
+  }),
+};
+
+test('the offline copy of the preferences is kept per user', async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  const store = new NotificationPreferencesStore(createStorage(), offlineFirestore);
+  const muted = withDefaults({ channels: { push: false, email: false, system: false } });
+
+  await store.save(muted, 'alice-uid');
+
+  expect(await store.load('alice-uid')).toEqual(muted);
+  expect(await store.load('bob-uid')).toEqual(withDefaults(undefined));
+  expect(await store.load()).toEqual(withDefaults(undefined));
+});
@@ -0,0 +1,58 @@
+/**
+ * @format
+ */
+
+import { ExportFileSystem, UserExporter } from '../src/export/UserExporter';
+import { DEFAULT_USER_QUERY } from '../src/repositories';
+
+// Files as a map of path to content; downloads write `body` with `statusCode`
+const memoryFileSystem = (statusCode: number, body: string) => {
+  const files = new Map<string, string>();
+  const downloads: { fromUrl: string; headers: { [name: string]: string } }[] = [];
+  const fileSystem: ExportFileSystem = {
+    cacheDirectory: '/cache',
+    exists: async path => [...files.keys()].some(file => file.startsWith(path)),
+    mkdir: async () => undefined,
+    unlink: async path => {
+      [...files.keys()].filter(file => file.startsWith(path)).forEach(file => files.delete(file));
+    },
+    readFile: async path => files.get(path) ?? '',
+    downloadFile: async ({ fromUrl, toFile, headers }) => {
+      downloads.push({ fromUrl, headers });
+      files.set(toFile, body);
+      return { statusCode };
+    },
+  };
+  return { files, downloads, fileSystem };
+};
+
+test('downloads the export into a file in the cache directory', async () => {
+  const exporter = new UserExporter('https://example.com/exportUsers', async () => 'id-token');
+  const { files, downloads, fileSystem } = memoryFileSystem(200, 'id,name\r\n');
+  files.set('/cache/exports/users-2020-01-01.csv', 'old');
+
+  const path = await exporter.exportToFile('csv', { ...DEFAULT_USER_QUERY, minAge: 18 }, fileSystem);
+
+  expect(path).toMatch(/^\/cache\/exports\/users-\d{4}-\d{2}-\d{2}\.csv$/);
+  expect([...files.entries()]).toEqual([[path, 'id,name\r\n']]);
+  expect(downloads).toEqual([{
+    fromUrl: 'https://example.com/exportUsers?format=csv&minAge=18',
+    headers: { Authorization: 'Bearer id-token' },
+  }]);
+});
+
+test('a failed export reports the server\'s message and leaves no file', async () => {
+  const exporter = new UserExporter('https://example.com/exportUsers', async () => 'id-token');
+  const { files, fileSystem } = memoryFileSystem(403, 'Only signed-in users can export');
+
+  await expect(exporter.exportToFile('json', DEFAULT_USER_QUERY, fileSystem)).rejects.toThrow('Only signed-in users can export');
+  expect(files.size).toBe(0);
+});
+
+test('signed-out users cannot export', async () => {
+  const exporter = new UserExporter('https://example.com/exportUsers', async () => undefined);
+  const { downloads, fileSystem } = memoryFileSystem(200, '');
+
+  await expect(exporter.exportToFile('csv', DEFAULT_USER_QUERY, fileSystem)).rejects.toThrow('You must be signed in');
+  expect(downloads).toEqual([]);
+});
@@ -0,0 +1,101 @@
+/**
+ * @format
+ */
+
+import { FirestoreUserRepository, UserQuery, UserSortField } from '../src/repositories';
+
+const indexes = require('../firestore.indexes.json');
+
+interface QueryShape {
+  filters: { field: string; op: string }[];
+  orderBy: { field: string; direction: string }[];
+}
+
+interface IndexField {
+  fieldPath: string;
+  order?: 'ASCENDING' | 'DESCENDING';
+  arrayConfig?: 'CONTAINS';
+}
+
+// Stands in for Firestore and records the shape of every query that is run
+const recordingFirestore = (shapes: QueryShape[]) => {
+  const query = (shape: QueryShape): any => ({
+    where: (field: string, op: string) => query({ ...shape, filters: [...shape.filters, { field, op }] }),
+    orderBy: (field: string, direction = 'asc') =>
+      query({ ...shape, orderBy: [...shape.orderBy, { field, direction }] }),
+    startAfter: () => query(shape),
+    limit: () => query(shape),
+    get: async () => {
+      shapes.push(shape);
+      return { docs: [], forEach: () => undefined };
+    },
+    count: () => ({
+      get: async () => {
+        shapes.push(shape);
+        return { data: () => ({ count: 0 }) };
+      },
+    }),
+  });
+  return { collection: () => query({ filters: [], orderBy: [] }) };
+};
+
+// The composite index Firestore needs for a query: array-contains, then the
+// explicit orders, then the other range fields in field name order, which
+// Firestore orders by implicitly in the direction of the last explicit order.
+// Queries on a single field are served by the automatic indexes.
+const requiredIndex = ({ filters, orderBy }: QueryShape): IndexField[] | null => {
+  const toOrder = (direction: string) => (direction === 'desc' ? 'DESCENDING' : 'ASCENDING');
+  const fields: IndexField[] = filters
+    .filter(filter => filter.op === 'array-contains')
+    .map(filter => ({ fieldPath: filter.field, arrayConfig: 'CONTAINS' }));
+  orderBy.forEach(order => fields.push({ fieldPath: order.field, order: toOrder(order.direction) }));
+
+  const implicitOrder = toOrder(orderBy[orderBy.length - 1]?.direction ?? 'asc');
+  [...new Set(filters.filter(filter => filter.op !== 'array-contains').map(filter => filter.field))]
+    .filter(field => !orderBy.some(order => order.field === field))
+    .sort()
+    .forEach(field => fields.push({ fieldPath: field, order: implicitOrder }));
+
+  return fields.length > 1 ? fields : null;
+};
+
+const describeIndex = (fields: IndexField[]) =>
+  fields.map(field => `${field.fieldPath} ${field.arrayConfig ?? field.order}`).join(', ');
+
+test('firestore.indexes.json has an index for every users query the list can run', async () => {
+  const shapes: QueryShape[] = [];
+  const repository = new FirestoreUserRepository(recordingFirestore(shapes));
+
+  const filterOptions: Partial<UserQuery>[] = [];
+  for (const search of [{}, { search: 'al' }]) {
+    for (const age of [{}, { minAge: 18 }, { maxAge: 65 }, { minAge: 18, maxAge: 65 }]) {
+      for (const created of [{}, { createdFrom: new Date('2026-01-01') }, { createdTo: new Date('2026-12-31') }]) {
+        filterOptions.push({ ...search, ...age, ...created });
+      }
+    }
+  }
+  const sortFields: UserSortField[] = ['name', 'age', 'createdAt'];
+  for (const filters of filterOptions) {
+    for (const sortBy of sortFields) {
+      for (const direction of ['asc', 'desc'] as const) {
+        await repository.page({ query: { ...filters, sortBy, direction } });
+      }
+    }
+    await repository.count({ ...filters, sortBy: 'createdAt', direction: 'desc' });
+  }
+
+  const defined = new Set(
+    indexes.indexes
+      .filter((index: { collectionGroup: string }) => index.collectionGroup === 'users')
+      .map((index: { fields: IndexField[] }) => describeIndex(index.fields)),
+  );
+  const missing = new Set(
+    shapes
+      .map(requiredIndex)
+      .filter((fields): fields is IndexField[] => fields !== null)
+      .map(describeIndex)
+      .filter(index => !defined.has(index)),
+  );
+
+  expect([...missing]).toEqual([]);
+});
@@ -0,0 +1,218 @@
+/**
+ * @format
+ */
+
+import { InMemoryUserRepository, LocalUserRepository } from '../src/repositories';
+import { KeyValueStorage } from '../src/storage/KeyValueStorage';
+import { syncPendingChanges } from '../src/sync/syncPendingChanges';
+
+const createStorage = (): KeyValueStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: async key => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async key => {
+      items.delete(key);
+    },
+  };
+};
+
+const alice = { name: 'Alice', email: 'alice@example.com', age: 30 };
+const bob = { name: 'Bob', email: 'bob@example.com', age: 41 };
+
+test('users and queued changes survive a restart', async () => {
+  const storage = createStorage();
+  const before = new LocalUserRepository(storage);
+  await before.create(alice);
+
+  const after = new LocalUserRepository(storage);
+  expect(await after.list()).toEqual([expect.objectContaining(alice)]);
+  expect(await after.getPendingChanges()).toHaveLength(1);
+});
+
+test('changes to a user created offline are folded into its create', async () => {
+  const local = new LocalUserRepository(createStorage());
+  const created = await local.create(alice);
+  await local.update(created.id, { age: 31 });
+  expect(await local.getPendingChanges()).toEqual([
+    expect.objectContaining({ type: 'CREATE', data: { ...alice, age: 31 } }),
+  ]);
+
+  await local.delete(created.id);
+  expect(await local.getPendingChanges()).toEqual([]);
+
+  // Undoing a create purges the user
+  const undone = await local.create(bob);
+  await local.purge(undone.id);
+  expect(await local.getPendingChanges()).toEqual([]);
+  expect(await local.list()).toEqual([]);
+});
+
+test('replays offline changes into the remote repository', async () => {
+  const remote = new InMemoryUserRepository();
+  const server = await remote.create(alice);
+
+  const local = new LocalUserRepository(createStorage());
+  await local.replaceAll(await remote.list());
+  await local.create(bob);
+  await local.update(server.id, { age: 31 });
+
+  const result = await syncPendingChanges(local, remote);
+
+  expect(result.applied).toHaveLength(2);
+  expect(result.conflicts).toEqual([]);
+  expect((await remote.list()).map(user => [user.name, user.age])).toEqual([
+    ['Bob', 41],
+    ['Alice', 31],
+  ]);
+  expect(await local.getPendingChanges()).toEqual([]);
+});
+
+test('reports a conflict when the server copy changed in the meantime', async () => {
+  const remote = new InMemoryUserRepository();
+  const server = await remote.create(alice);
+
+  const local = new LocalUserRepository(createStorage());
+  await local.replaceAll(await remote.list());
+  await local.update(server.id, { age: 31 });
+  await remote.update(server.id, { age: 45 });
+
+  const result = await syncPendingChanges(local, remote);
+
+  expect(result.applied).toEqual([]);
+  expect(result.conflicts).toEqual([
+    expect.objectContaining({ reason: 'modified', serverUser: expect.objectContaining({ age: 45 }) }),
+  ]);
+  expect((await remote.get(server.id))?.age).toBe(45);
+  expect(await local.getPendingChanges()).toEqual([]);
+});
+
+test('an age stored as text matches the same number', async () => {
+  const remote = new InMemoryUserRepository();
+  const server = await remote.create(alice);
+
+  // Cached from a record that held the age as typed
+  const local = new LocalUserRepository(createStorage());
+  await local.replaceAll([{ ...server, age: '30' as unknown as number }]);
+  await local.update(server.id, { name: 'Alice Smith' });
+
+  const result = await syncPendingChanges(local, remote);
+
+  expect(result.conflicts).toEqual([]);
+  expect((await remote.get(server.id))?.name).toBe('Alice Smith');
+});
+
+test('replays offline trashing, restoring and purging', async () => {
+  const remote = new InMemoryUserRepository();
+  const kept = await remote.create(alice);
+  const purged = await remote.create(bob);
+
+  const local = new LocalUserRepository(createStorage());
+  await local.replaceAll(await remote.list());
+  await local.delete(kept.id, 'change-1');
+  await local.restore(kept.id);
+  await local.delete(purged.id);
+  await local.purge(purged.id);
+  expect((await local.getPendingChanges()).map(change => change.type)).toEqual(['PURGE']);
+
+  const result = await syncPendingChanges(local, remote);
+
+  expect(result.conflicts).toEqual([]);
+  expect((await remote.list()).map(user => user.name)).toEqual(['Alice']);
+  expect(await remote.get(purged.id)).toBeNull();
+});
+
+test('replays offline bulk actions user by user', async () => {
+  const remote = new InMemoryUserRepository();
+  const first = await remote.create(alice);
+  const second = await remote.create(bob);
+
+  const local = new LocalUserRepository(createStorage());
+  await local.replaceAll(await remote.list());
+  await local.updateMany([first, second], { age: 50 }, 'b1');
+  await local.deleteMany([second], 'b2');
+  expect((await local.getPendingChanges()).map(change => change.type)).toEqual(['UPDATE', 'UPDATE', 'DELETE']);
+
+  const result = await syncPendingChanges(local, remote);
+
+  expect(result.conflicts).toEqual([]);
+  expect(await remote.list()).toEqual([expect.objectContaining({ name: 'Alice', age: 50, lastChangeId: `b1_${first.id}` })]);
+  expect(await remote.listTrash()).toEqual([expect.objectContaining({ name: 'Bob', age: 50 })]);
+});
+
+test('does not purge a user restored on the server in the meantime', async () => {
+  const remote = new InMemoryUserRepository();
+  const server = await remote.create(alice);
+  await remote.delete(server.id);
+
+  const local = new LocalUserRepository(createStorage());
+  await local.replaceAll([(await remote.get(server.id))!]);
+  await local.purge(server.id);
+  await remote.restore(server.id);
+
+  const result = await syncPendingChanges(local, remote);
+
+  expect(result.conflicts).toEqual([expect.objectContaining({ reason: 'modified' })]);
+  expect(await remote.list()).toEqual([expect.objectContaining(alice)]);
+});
+
+test('reports a conflict when another user took the email in the meantime', async () => {
+  const remote = new InMemoryUserRepository();
+  const local = new LocalUserRepository(createStorage());
+  await local.create(bob);
+  await remote.create({ ...alice, email: bob.email });
+
+  const result = await syncPendingChanges(local, remote);
+
+  expect(result.conflicts).toEqual([expect.objectContaining({ reason: 'email-in-use' })]);
+  expect(result.remaining).toBe(0);
+  expect((await remote.list()).map(user => user.name)).toEqual(['Alice']);
+});
+
+test('keeps changes queued when the server cannot be reached', async () => {
+  const remote = new InMemoryUserRepository();
+  jest.spyOn(remote, 'create').mockRejectedValue(new Error('unavailable'));
+
+  const local = new LocalUserRepository(createStorage());
+  await local.create(alice);
+
+  const result = await syncPendingChanges(local, remote);
+
+  expect(result.remaining).toBe(1);
+  expect(await local.getPendingChanges()).toHaveLength(1);
+});
+
+test('drops changes the server refuses and carries on with the rest', async () => {
+  const remote = new InMemoryUserRepository();
+  const refused = Object.assign(new Error('Missing or insufficient permissions'), { code: 'firestore/permission-denied' });
+  jest.spyOn(remote, 'create').mockRejectedValueOnce(refused);
+
+  const local = new LocalUserRepository(createStorage());
+  await local.create(alice);
+  await local.create(bob);
+
+  const result = await syncPendingChanges(local, remote);
+
+  expect(result.conflicts).toEqual([expect.objectContaining({ reason: 'rejected' })]);
+  expect(result.applied).toHaveLength(1);
+  expect(result.remaining).toBe(0);
+  expect(await local.getPendingChanges()).toEqual([]);
+  expect((await remote.list()).map(user => user.name)).toEqual(['Bob']);
+});
+
+test('reports a conflict when another device changed a custom field', async () => {
+  const remote = new InMemoryUserRepository();
+  const server = await remote.create({ ...alice, customFields: { team: 'Blue' } });
+
+  const local = new LocalUserRepository(createStorage());
+  await local.replaceAll(await remote.list());
+  await local.update(server.id, { age: 31 });
+  await remote.update(server.id, { customFields: { team: 'Red' } });
+
+  const result = await syncPendingChanges(local, remote);
+
+  expect(result.conflicts).toEqual([expect.objectContaining({ reason: 'modified' })]);
+  expect((await remote.get(server.id))?.customFields).toEqual({ team: 'Red' });
+});
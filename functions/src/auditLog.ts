@@ -0,0 +1,43 @@
+import * as admin from 'firebase-admin';
+import { AUDIT_LOG_COLLECTION, AuditAction, AuditEntry, SERVER_ACTOR } from './shared/audit';
+
+// Set with every Cloud Functions update of a user, so its audit entry names
+// the server rather than whoever changed the user last
+export const serverChangedBy = () => ({
+  lastChangedBy: SERVER_ACTOR,
+  lastChangedOn: admin.firestore.FieldValue.delete(),
+});
+
+// Append the audit entry for one `users` write. Keyed by the trigger's event
+// id; a redelivered event finds its entry already there and leaves it alone.
+export const recordAuditEntry = async (
+  eventId: string,
+  userId: string,
+  action: AuditAction,
+  before: admin.firestore.DocumentData | undefined,
+  after: admin.firestore.DocumentData | undefined,
+  timestamp: Date,
+): Promise<void> => {
+  // A delete leaves no document to say who made it
+  const source = action === 'DELETE' ? undefined : after;
+  const entry: AuditEntry = {
+    userId,
+    action,
+    actorUid: source?.lastChangedBy ?? null,
+    device: source?.lastChangedOn ?? null,
+    timestamp: admin.firestore.Timestamp.fromDate(timestamp),
+    before: before ?? null,
+    after: after ?? null,
+  };
+
+  try {
+    await admin.firestore().collection(AUDIT_LOG_COLLECTION).doc(eventId).create(entry);
+  } catch (error) {
+    // gRPC ALREADY_EXISTS
+    if ((error as { code?: number }).code === 6) {
+      console.log(`Audit entry ${eventId} already recorded - skipping`);
+      return;
+    }
+    throw error;
+  }
+};
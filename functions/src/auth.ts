@@ -0,0 +1,45 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { Permission, Role, getRole, hasPermission } from './shared/roles';
+
+type AuthData = NonNullable<functions.https.CallableContext['auth']>;
+
+// Callables are only available to signed-in users. Must be called outside
+// the callable's try/catch so the error reaches the client unchanged.
+export const requireAuth = (context: functions.https.CallableContext): AuthData => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'You must be signed in to call this function');
+  }
+  return context.auth;
+};
+
+// The caller's role from the `role` custom claim
+export const getCallerRole = (auth: AuthData): Role => getRole(auth.token);
+
+// Like requireAuth, and also checks the caller's role
+export const requirePermission = (
+  context: functions.https.CallableContext,
+  permission: Permission,
+): AuthData => {
+  const auth = requireAuth(context);
+  if (!hasPermission(getCallerRole(auth), permission)) {
+    throw new functions.https.HttpsError('permission-denied', `Your role does not allow ${permission}`);
+  }
+  return auth;
+};
+
+// The signed-in user of an HTTPS request, from its `Authorization: Bearer
+// <Firebase ID token>` header; null when the header is missing or the token
+// is not valid
+export const verifyRequestAuth = async (req: functions.https.Request): Promise<admin.auth.DecodedIdToken | null> => {
+  const match = /^Bearer (.+)$/.exec(req.get('Authorization') || '');
+  if (!match) {
+    return null;
+  }
+  try {
+    return await admin.auth().verifyIdToken(match[1]);
+  } catch (error) {
+    console.log('Rejected ID token:', (error as Error).message);
+    return null;
+  }
+};
@@ -0,0 +1,40 @@
+import * as admin from 'firebase-admin';
+import {
+  BULK_CHANGES_COLLECTION,
+  BulkChange,
+  BulkChangeRecord,
+  MAX_BULK_USERS,
+  bulkChange,
+  bulkLastChangeId,
+} from './shared/bulk';
+
+export interface LoadedBulkChange {
+  action: BulkChangeRecord['action'];
+  lastChangedBy: string;
+  userData: BulkChange;
+}
+
+// A bulk change of the app as it is announced. The names and count come from
+// the users that carry the bulk change's lastChangeId, not from the
+// `bulkChanges` document, whose lists the rules cannot check. Null when the
+// document is missing or none of its users were changed by it.
+export const loadBulkChange = async (bulkId: string): Promise<LoadedBulkChange | null> => {
+  const db = admin.firestore();
+  const snapshot = await db.collection(BULK_CHANGES_COLLECTION).doc(bulkId).get();
+  if (!snapshot.exists) {
+    return null;
+  }
+
+  const { action, userIds, lastChangedBy } = snapshot.data() as BulkChangeRecord;
+  const ids = Array.from(new Set((Array.isArray(userIds) ? userIds : []).filter((id) => typeof id === 'string' && id)))
+    .slice(0, MAX_BULK_USERS);
+  if (ids.length === 0) {
+    return null;
+  }
+
+  const users = await db.getAll(...ids.map((id) => db.collection('users').doc(id)));
+  const names = users
+    .filter((user) => user.exists && user.get('lastChangeId') === bulkLastChangeId(bulkId, user.id))
+    .map((user) => String(user.get('name') ?? ''));
+  return names.length > 0 ? { action, lastChangedBy, userData: bulkChange(names) } : null;
+};
@@ -0,0 +1,64 @@
+import * as admin from 'firebase-admin';
+import { FieldChange, changesForUpdate } from './shared/userDiff';
+
+// Log of user changes read by the digest emails (see digest.ts). onUserChange
+// appends one entry per user-visible change in either delivery mode, leaving
+// out maintenance such as duplicate merges. Entries are keyed by the change's
+// notification event id, so a redelivered event overwrites its own entry
+// instead of adding another.
+
+export const CHANGE_LOG_COLLECTION = 'changeLog';
+
+export type ChangeAction = 'CREATE' | 'UPDATE' | 'DELETE';
+
+export interface ChangeLogEntry {
+  action: ChangeAction;
+  userId: string;
+  // The user's details after the change (before it, for DELETE)
+  name: string;
+  email: string;
+  // UPDATE only
+  changes: FieldChange[];
+  // uid of whoever made the change, when known
+  actorUid: string | null;
+  occurredAt: admin.firestore.Timestamp;
+  // For a TTL policy; nothing reads entries older than the longest digest period
+  expiresAt: admin.firestore.Timestamp;
+}
+
+const RETENTION_MS = 8 * 24 * 60 * 60 * 1000;
+
+export const recordChange = async (
+  eventId: string,
+  action: ChangeAction,
+  userId: string,
+  userData: any,
+  actorUid: string | undefined,
+  occurredAt: Date,
+): Promise<void> => {
+  const user = action === 'DELETE' ? userData?.deletedUser : userData;
+  const entry: ChangeLogEntry = {
+    action,
+    userId,
+    name: user?.name || '',
+    email: user?.email || '',
+    changes: changesForUpdate(action, userData) ?? [],
+    actorUid: actorUid || null,
+    occurredAt: admin.firestore.Timestamp.fromDate(occurredAt),
+    expiresAt: admin.firestore.Timestamp.fromMillis(occurredAt.getTime() + RETENTION_MS),
+  };
+
+  await admin.firestore().collection(CHANGE_LOG_COLLECTION).doc(eventId).set(entry);
+};
+
+// Entries with since <= occurredAt < until, oldest first
+export const loadChangeLog = async (since: Date, until: Date): Promise<ChangeLogEntry[]> => {
+  const snapshot = await admin.firestore()
+    .collection(CHANGE_LOG_COLLECTION)
+    .where('occurredAt', '>=', admin.firestore.Timestamp.fromDate(since))
+    .where('occurredAt', '<', admin.firestore.Timestamp.fromDate(until))
+    .orderBy('occurredAt')
+    .get();
+
+  return snapshot.docs.map((doc) => doc.data() as ChangeLogEntry);
+};
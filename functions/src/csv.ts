@@ -0,0 +1,75 @@
+// CSV as in RFC 4180: comma-separated fields, optionally in double quotes
+// with "" standing for a quote inside them; lines end with CRLF or LF.
+// Used to read imports (userImport.ts) and write exports (userExport.ts).
+
+export class CsvFormatError extends Error {}
+
+// Rows of a CSV document; blank lines are skipped
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let wasQuoted = false;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+    wasQuoted = false;
+  };
+  const endRow = () => {
+    endField();
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  // A byte order mark is not part of the first column name
+  const content = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && field === '' && !wasQuoted) {
+      quoted = wasQuoted = true;
+    } else if (char === ',') {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new CsvFormatError('A quoted field is not closed');
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+};
+
+// Spreadsheets run a field starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Fields a spreadsheet would take for a formula get a leading apostrophe, so
+// they are shown as text. Fields with a comma, quote or line break are quoted.
+const formatCsvField = (text: string) => {
+  const value = FORMULA_PREFIX.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// One CSV line, ending in CRLF
+export const formatCsvRow = (values: string[]): string => `${values.map(formatCsvField).join(',')}\r\n`;
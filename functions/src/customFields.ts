@@ -0,0 +1,19 @@
+import * as admin from 'firebase-admin';
+import {
+  CustomFieldDefinition,
+  SCHEMA_COLLECTION,
+  USER_PROFILE_SCHEMA_ID,
+  parseCustomFields,
+} from './shared/userSchema';
+
+// The custom user fields defined in `schema/users` (see userSchema.ts); none
+// when the document is missing or cannot be read
+export const loadCustomFields = async (): Promise<CustomFieldDefinition[]> => {
+  try {
+    const doc = await admin.firestore().collection(SCHEMA_COLLECTION).doc(USER_PROFILE_SCHEMA_ID).get();
+    return parseCustomFields(doc.data());
+  } catch (error) {
+    console.error('Error loading the user profile schema - continuing without custom fields:', error);
+    return [];
+  }
+};
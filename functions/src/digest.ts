@@ -0,0 +1,193 @@
+import * as admin from 'firebase-admin';
+import { ChangeLogEntry, loadChangeLog } from './changeLog';
+import { enqueueEmails } from './emailOutbox';
+import { TemplateVariables, loadEmailTemplate, renderTemplate } from './emailTemplates';
+import {
+  DigestFrequency,
+  NotificationPreferences,
+  PREFERENCES_COLLECTION,
+  withDefaults,
+} from './shared/preferences';
+import { summarizeChanges } from './shared/userDiff';
+import { chunk } from './utils';
+
+// Scheduled summaries of the change log for users whose preferences ask for
+// a daily or weekly digest instead of an email per change. Each run covers
+// the time since the previous run, recorded in `digestRuns/{frequency}`.
+
+export type ScheduledDigest = Exclude<DigestFrequency, 'off'>;
+
+export const DIGEST_RUNS_COLLECTION = 'digestRuns';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DIGEST_PERIOD_MS: Record<ScheduledDigest, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+
+export interface DigestSubscriber {
+  uid: string;
+  email: string;
+  preferences: NotificationPreferences;
+}
+
+export interface DigestResult {
+  success: boolean;
+  message?: string;
+  changeCount?: number;
+  subscriberCount?: number;
+  queuedCount?: number;
+}
+
+// Claim the period ending at `now`. It starts where the previous run ended, or
+// one period back on the first run. Returns null when a run less than half a
+// period ago already covered it (a redelivered schedule event) or is still
+// sending it. The period only counts as covered once completeDigestPeriod
+// records it, so a run that fails leaves it to the next one.
+export const claimDigestPeriod = async (frequency: ScheduledDigest, now: Date): Promise<Date | null> => {
+  const db = admin.firestore();
+  const ref = db.collection(DIGEST_RUNS_COLLECTION).doc(frequency);
+  const period = DIGEST_PERIOD_MS[frequency];
+
+  return db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(ref);
+    const lastUntil: admin.firestore.Timestamp | undefined = doc.get('lastUntil');
+    const runningUntil: admin.firestore.Timestamp | undefined = doc.get('runningUntil');
+
+    const recent = (time?: admin.firestore.Timestamp) => !!time && now.getTime() - time.toMillis() < period / 2;
+    if (recent(lastUntil) || recent(runningUntil)) {
+      return null;
+    }
+
+    const since = lastUntil ? lastUntil.toDate() : new Date(now.getTime() - period);
+    transaction.set(ref, { runningUntil: admin.firestore.Timestamp.fromDate(now) }, { merge: true });
+    return since;
+  });
+};
+
+// Record the claimed period as sent
+export const completeDigestPeriod = async (frequency: ScheduledDigest, since: Date, until: Date): Promise<void> => {
+  await admin.firestore().collection(DIGEST_RUNS_COLLECTION).doc(frequency).set({
+    lastSince: admin.firestore.Timestamp.fromDate(since),
+    lastUntil: admin.firestore.Timestamp.fromDate(until),
+  });
+};
+
+// Give up the claimed period so the next run sends it. Subscribers whose
+// email was queued before the failure get those changes again.
+export const releaseDigestPeriod = async (frequency: ScheduledDigest): Promise<void> => {
+  await admin.firestore().collection(DIGEST_RUNS_COLLECTION).doc(frequency).set(
+    { runningUntil: admin.firestore.FieldValue.delete() },
+    { merge: true },
+  );
+};
+
+// Users on this digest who have email turned on, with their Auth email
+export const collectDigestSubscribers = async (frequency: ScheduledDigest): Promise<DigestSubscriber[]> => {
+  const snapshot = await admin.firestore()
+    .collection(PREFERENCES_COLLECTION)
+    .where('digest', '==', frequency)
+    .get();
+
+  const preferences = new Map<string, NotificationPreferences>();
+  snapshot.docs.forEach((doc) => {
+    const userPreferences = withDefaults(doc.data());
+    if (userPreferences.channels.email) {
+      preferences.set(doc.id, userPreferences);
+    }
+  });
+
+  const subscribers: DigestSubscriber[] = [];
+  for (const uidChunk of chunk([...preferences.keys()], 100)) {
+    const result = await admin.auth().getUsers(uidChunk.map((uid) => ({ uid })));
+    result.users.forEach((account) => {
+      const userPreferences = preferences.get(account.uid);
+      if (account.email && userPreferences) {
+        subscribers.push({ uid: account.uid, email: account.email, preferences: userPreferences });
+      }
+    });
+  }
+
+  return subscribers;
+};
+
+// The entries a subscriber is told about: not their own changes, and only
+// the events they want
+export const entriesForSubscriber = (entries: ChangeLogEntry[], subscriber: DigestSubscriber) =>
+  entries.filter((entry) => entry.actorUid !== subscriber.uid && subscriber.preferences.events[entry.action]);
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Placeholders available to the digest template
+export const digestVariables = (
+  frequency: ScheduledDigest,
+  entries: ChangeLogEntry[],
+  since: Date,
+  until: Date,
+): TemplateVariables => {
+  const group = (action: ChangeLogEntry['action']) => entries
+    .filter((entry) => entry.action === action)
+    .map((entry) => ({
+      name: entry.name || entry.email || entry.userId,
+      email: entry.email,
+      changeSummary: summarizeChanges(entry.changes),
+    }));
+
+  const created = group('CREATE');
+  const updated = group('UPDATE');
+  const deleted = group('DELETE');
+
+  return {
+    period: frequency === 'daily' ? 'Daily' : 'Weekly',
+    since: formatDate(since),
+    until: formatDate(until),
+    changeCount: entries.length,
+    created,
+    createdCount: created.length,
+    hasCreated: created.length > 0,
+    updated,
+    updatedCount: updated.length,
+    hasUpdated: updated.length > 0,
+    deleted,
+    deletedCount: deleted.length,
+    hasDeleted: deleted.length > 0,
+  };
+};
+
+// Queue one digest email per subscriber with something to report
+export const sendDigests = async (frequency: ScheduledDigest, now: Date = new Date()): Promise<DigestResult> => {
+  const since = await claimDigestPeriod(frequency, now);
+  if (!since) {
+    return { success: false, message: `The ${frequency} digest was already sent for this period` };
+  }
+
+  let entries: ChangeLogEntry[];
+  let subscribers: DigestSubscriber[];
+  let queuedCount = 0;
+  try {
+    entries = await loadChangeLog(since, now);
+    subscribers = await collectDigestSubscribers(frequency);
+    const template = await loadEmailTemplate('DIGEST');
+
+    for (const subscriber of subscribers) {
+      const subscriberEntries = entriesForSubscriber(entries, subscriber);
+      if (subscriberEntries.length === 0) {
+        continue;
+      }
+      const email = renderTemplate(template, digestVariables(frequency, subscriberEntries, since, now));
+      queuedCount += await enqueueEmails([subscriber.email], email, 'DIGEST', now);
+    }
+  } catch (error) {
+    await releaseDigestPeriod(frequency);
+    throw error;
+  }
+  await completeDigestPeriod(frequency, since, now);
+
+  return {
+    success: true,
+    changeCount: entries.length,
+    subscriberCount: subscribers.length,
+    queuedCount,
+  };
+};
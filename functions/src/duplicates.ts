@@ -0,0 +1,142 @@
+import * as admin from 'firebase-admin';
+import { serverChangedBy } from './auditLog';
+import { claimNotificationEventInBatch, notificationEventId } from './notificationEvents';
+import { EMAIL_INDEX_COLLECTION, normalizeEmail } from './shared/userSchema';
+import { searchKeywords } from './shared/userSearch';
+import { chunk } from './utils';
+
+// Users created before emails were unique can share an address. Each group
+// is merged into one survivor and emailIndex is filled in for every user, so
+// the uniqueness checks in the app and firestore.rules apply from then on.
+
+export interface StoredUser {
+  id: string;
+  data: admin.firestore.DocumentData;
+}
+
+export interface DuplicateMerge {
+  email: string;
+  // The user that is kept
+  survivorId: string;
+  // Users deleted in favour of the survivor
+  duplicateIds: string[];
+  // Fields the survivor was missing, copied from the duplicates
+  fields: admin.firestore.DocumentData;
+}
+
+export interface DeduplicationResult {
+  dryRun: boolean;
+  merges: DuplicateMerge[];
+  // emailIndex documents written (none on a dry run)
+  reserved: number;
+}
+
+const MERGED_FIELDS = ['name', 'email', 'age'];
+
+const MAX_BATCH_WRITES = 500;
+const WRITES_PER_USER = 3;
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && !value.trim());
+
+const createdAtMillis = (value: any): number => {
+  if (!value) return Infinity;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  return new Date(value).getTime();
+};
+
+// Group users by normalized email and pick a survivor for each group with
+// more than one user: users outside the trash first, then the oldest.
+export const planDuplicateMerges = (users: StoredUser[]): DuplicateMerge[] => {
+  const groups = new Map<string, StoredUser[]>();
+  users.forEach((user) => {
+    if (typeof user.data.email !== 'string' || !user.data.email.trim()) return;
+    const email = normalizeEmail(user.data.email);
+    groups.set(email, [...(groups.get(email) ?? []), user]);
+  });
+
+  const merges: DuplicateMerge[] = [];
+  groups.forEach((group, email) => {
+    if (group.length < 2) return;
+    const [survivor, ...duplicates] = [...group].sort((a, b) =>
+      Number(!!a.data.deletedAt) - Number(!!b.data.deletedAt) ||
+      createdAtMillis(a.data.createdAt) - createdAtMillis(b.data.createdAt));
+
+    const fields: admin.firestore.DocumentData = {};
+    MERGED_FIELDS.forEach((field) => {
+      if (!isEmpty(survivor.data[field])) return;
+      const source = duplicates.find((duplicate) => !isEmpty(duplicate.data[field]));
+      if (source) fields[field] = source.data[field];
+    });
+
+    merges.push({ email, survivorId: survivor.id, duplicateIds: duplicates.map((duplicate) => duplicate.id), fields });
+  });
+  return merges;
+};
+
+// Merge users that share an email and reserve every remaining user's email.
+// A dry run only reports the merges. A merge is maintenance, not a change
+// anyone is told about: the notification events of each deleted duplicate
+// and of the survivor's update are claimed in the same batch, so onUserChange
+// audits them but does not announce them.
+export const deduplicateUsers = async ({ dryRun }: { dryRun: boolean }): Promise<DeduplicationResult> => {
+  const db = admin.firestore();
+  const snapshot = await db.collection('users').get();
+  const merges = planDuplicateMerges(snapshot.docs.map((doc) => ({ id: doc.id, data: doc.data() })));
+
+  if (dryRun) {
+    return { dryRun, merges, reserved: 0 };
+  }
+
+  // Each changed user is one write plus a claim for each notification
+  // channel; the three stay in one batch so no change goes out unclaimed
+  const mergeId = db.collection('users').doc().id;
+  const userWrites: ((batch: admin.firestore.WriteBatch) => void)[] = [];
+  merges.forEach((merge) => {
+    if (Object.keys(merge.fields).length > 0) {
+      const survivor = snapshot.docs.find((doc) => doc.id === merge.survivorId)!;
+      const lastChangeId = `${mergeId}_${survivor.id}`;
+      userWrites.push((batch) => {
+        batch.update(survivor.ref, {
+          ...merge.fields,
+          searchKeywords: searchKeywords({ ...survivor.data(), ...merge.fields }),
+          lastChangeId,
+          ...serverChangedBy(),
+        });
+        claimNotificationEventInBatch(batch, lastChangeId, {
+          action: 'UPDATE', userId: survivor.id, source: 'server', maintenance: true,
+        });
+      });
+    }
+    merge.duplicateIds.forEach((id) => {
+      const duplicate = snapshot.docs.find((doc) => doc.id === id)!;
+      userWrites.push((batch) => {
+        batch.delete(duplicate.ref);
+        claimNotificationEventInBatch(
+          batch,
+          notificationEventId('DELETE', id, duplicate.get('lastChangeId'))!,
+          { action: 'DELETE', userId: id, source: 'server', maintenance: true },
+        );
+      });
+    });
+  });
+
+  for (const group of chunk(userWrites, Math.floor(MAX_BATCH_WRITES / WRITES_PER_USER))) {
+    const batch = db.batch();
+    group.forEach((write) => write(batch));
+    await batch.commit();
+  }
+
+  const removed = new Set(merges.flatMap((merge) => merge.duplicateIds));
+  const reservations = snapshot.docs
+    .filter((doc) => !removed.has(doc.id) && typeof doc.get('email') === 'string' && doc.get('email').trim())
+    .map((doc) => ({ email: normalizeEmail(doc.get('email')), userId: doc.id }));
+
+  for (const group of chunk(reservations, MAX_BATCH_WRITES)) {
+    const batch = db.batch();
+    group.forEach(({ email, userId }) => batch.set(db.collection(EMAIL_INDEX_COLLECTION).doc(email), { userId }));
+    await batch.commit();
+  }
+
+  return { dryRun, merges, reserved: reservations.length };
+};
@@ -0,0 +1,254 @@
+import * as admin from 'firebase-admin';
+import { RenderedEmail } from './emailTemplates';
+import { EmailConfig, EmailTransport, createEmailTransport, getEmailConfig } from './emailTransport';
+import { chunk } from './utils';
+
+// Durable email delivery. Fan-out writes one `emailOutbox` document per
+// recipient; onEmailQueued sends it right away and processEmailOutbox retries
+// whatever is due every minute.
+//
+// An email is due while `nextAttemptAt` is in the past. Claiming it for a send
+// moves `nextAttemptAt` past a lease, so a worker that dies mid-send leaves it
+// to be retried. Failed sends back off exponentially; after `email.max_attempts`
+// the email is moved to `emailDeadLetter`. Sends across all workers are capped
+// at `email.rate_per_minute`. Sent emails are kept for a week, with an
+// `expiresAt` for a TTL policy.
+
+export const EMAIL_OUTBOX_COLLECTION = 'emailOutbox';
+export const EMAIL_DEAD_LETTER_COLLECTION = 'emailDeadLetter';
+// One counter document per minute, keyed like '2026-10-19T08:30'
+export const EMAIL_RATE_COLLECTION = 'emailRateLimits';
+
+export type OutboxStatus = 'pending' | 'sending' | 'sent';
+
+export interface OutboxEmail extends RenderedEmail {
+  to: string;
+  // The user-change action the email is about
+  action: string;
+  status: OutboxStatus;
+  attempts: number;
+  // Removed once the email is sent
+  nextAttemptAt?: admin.firestore.Timestamp;
+  lastError?: string;
+  messageId?: string;
+  createdAt?: admin.firestore.Timestamp;
+  sentAt?: admin.firestore.Timestamp;
+  // Set once the email is sent, for a TTL policy
+  expiresAt?: admin.firestore.Timestamp;
+}
+
+export type DeliveryOutcome = 'sent' | 'retry' | 'dead-letter' | 'rate-limited' | 'skipped';
+
+export interface DrainResult {
+  sent: number;
+  retried: number;
+  deadLettered: number;
+  // Left for the next run because the per-minute cap was reached
+  deferred: number;
+}
+
+export interface OutboxOptions {
+  now?: Date;
+  config?: EmailConfig;
+  // Defaults to the configured transport
+  transport?: EmailTransport;
+}
+
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+// How long a claimed email is left alone before it counts as abandoned
+const SEND_LEASE_MS = 5 * 60 * 1000;
+const SENT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// 1, 2, 4, ... minutes after the given failed attempt, at most an hour
+export const backoffDelayMs = (attempts: number) =>
+  Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+
+const minuteKey = (now: Date) => now.toISOString().slice(0, 16);
+
+const timestampAt = (millis: number) => admin.firestore.Timestamp.fromMillis(millis);
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+let defaultTransport: EmailTransport | undefined;
+
+// Created on first use so a misconfigured transport fails the send (and is
+// retried and dead-lettered) rather than the whole functions deployment
+const resolveTransport = (options: OutboxOptions, config: EmailConfig) => {
+  if (options.transport) {
+    return options.transport;
+  }
+  defaultTransport = defaultTransport ?? createEmailTransport(config);
+  return defaultTransport;
+};
+
+// Queue one email per recipient. Returns the number queued.
+export const enqueueEmails = async (
+  recipients: string[],
+  email: RenderedEmail,
+  action: string,
+  now: Date = new Date(),
+): Promise<number> => {
+  const db = admin.firestore();
+  const outbox = db.collection(EMAIL_OUTBOX_COLLECTION);
+
+  for (const group of chunk(recipients, 500)) {
+    const batch = db.batch();
+    group.forEach((to) => {
+      batch.create(outbox.doc(), {
+        to,
+        ...email,
+        action,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: timestampAt(now.getTime()),
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+    await batch.commit();
+  }
+
+  return recipients.length;
+};
+
+// Take one send slot for the current minute and lease the email, atomically.
+// Returns the claimed email, or why it was not claimed.
+const claimOutboxEmail = async (
+  ref: admin.firestore.DocumentReference,
+  now: Date,
+  ratePerMinute: number,
+): Promise<OutboxEmail | 'rate-limited' | 'skipped'> => {
+  const db = admin.firestore();
+  const rateRef = db.collection(EMAIL_RATE_COLLECTION).doc(minuteKey(now));
+
+  return db.runTransaction(async (transaction) => {
+    const [doc, rate] = await transaction.getAll(ref, rateRef);
+    const email = doc.data() as OutboxEmail | undefined;
+
+    if (!email?.nextAttemptAt || email.nextAttemptAt.toMillis() > now.getTime()) {
+      return 'skipped';
+    }
+    const sentThisMinute = rate.data()?.count ?? 0;
+    if (sentThisMinute >= ratePerMinute) {
+      return 'rate-limited';
+    }
+
+    const attempts = (email.attempts ?? 0) + 1;
+    transaction.set(rateRef, {
+      count: sentThisMinute + 1,
+      // For a TTL policy; counters are only read during their minute
+      expiresAt: timestampAt(now.getTime() + 60 * 60 * 1000),
+    });
+    transaction.update(ref, {
+      status: 'sending',
+      attempts,
+      nextAttemptAt: timestampAt(now.getTime() + SEND_LEASE_MS),
+    });
+    return { ...email, attempts };
+  });
+};
+
+// Try to send one queued email
+export const deliverOutboxEmail = async (
+  ref: admin.firestore.DocumentReference,
+  options: OutboxOptions = {},
+): Promise<DeliveryOutcome> => {
+  const now = options.now ?? new Date();
+  const config = options.config ?? getEmailConfig();
+
+  const email = await claimOutboxEmail(ref, now, config.ratePerMinute);
+  if (email === 'rate-limited' || email === 'skipped') {
+    return email;
+  }
+
+  let messageId: string | undefined;
+  try {
+    const transport = resolveTransport(options, config);
+    ({ messageId } = await transport.send({
+      from: config.from,
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    }));
+  } catch (error) {
+    const lastError = errorMessage(error);
+    console.error(`Email ${ref.id} to ${email.to} failed (attempt ${email.attempts}):`, lastError);
+
+    if (email.attempts >= config.maxAttempts) {
+      const db = admin.firestore();
+      const batch = db.batch();
+      batch.set(db.collection(EMAIL_DEAD_LETTER_COLLECTION).doc(ref.id), {
+        to: email.to,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        action: email.action,
+        attempts: email.attempts,
+        createdAt: email.createdAt ?? null,
+        status: 'dead',
+        lastError,
+        deadLetteredAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      batch.delete(ref);
+      await batch.commit();
+      return 'dead-letter';
+    }
+
+    await ref.update({
+      status: 'pending',
+      lastError,
+      nextAttemptAt: timestampAt(now.getTime() + backoffDelayMs(email.attempts)),
+    });
+    return 'retry';
+  }
+
+  // Not part of the send: an email that went out is never retried or
+  // dead-lettered because this write failed. Only if it keeps failing is
+  // the email sent again, once its lease runs out.
+  try {
+    await ref.update({
+      status: 'sent',
+      sentAt: admin.firestore.FieldValue.serverTimestamp(),
+      expiresAt: timestampAt(now.getTime() + SENT_RETENTION_MS),
+      nextAttemptAt: admin.firestore.FieldValue.delete(),
+      lastError: admin.firestore.FieldValue.delete(),
+      ...(messageId ? { messageId } : {}),
+    });
+  } catch (error) {
+    console.error(`Email ${ref.id} to ${email.to} was sent but could not be marked sent:`, errorMessage(error));
+  }
+  return 'sent';
+};
+
+// Send every due email, oldest first, until the per-minute cap is reached
+export const drainEmailOutbox = async (options: OutboxOptions = {}): Promise<DrainResult> => {
+  const now = options.now ?? new Date();
+  const config = options.config ?? getEmailConfig();
+  const result: DrainResult = { sent: 0, retried: 0, deadLettered: 0, deferred: 0 };
+
+  const due = await admin.firestore()
+    .collection(EMAIL_OUTBOX_COLLECTION)
+    .where('nextAttemptAt', '<=', timestampAt(now.getTime()))
+    .orderBy('nextAttemptAt')
+    .limit(config.ratePerMinute)
+    .get();
+
+  for (let i = 0; i < due.docs.length; i++) {
+    const outcome = await deliverOutboxEmail(due.docs[i].ref, { ...options, now, config });
+    if (outcome === 'rate-limited') {
+      result.deferred = due.size - i;
+      break;
+    }
+    if (outcome === 'sent') {
+      result.sent++;
+    } else if (outcome === 'retry') {
+      result.retried++;
+    } else if (outcome === 'dead-letter') {
+      result.deadLettered++;
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as admin from 'firebase-admin';
+import { changesForUpdate, summarizeChanges } from './shared/userDiff';
+import { BulkChange, describeBulkChange, isBulkChange } from './shared/bulk';
+import { CustomFieldDefinition, formatCustomFieldValue } from './shared/userSchema';
+import { loadCustomFields } from './customFields';
+
+// Email rendering for user-change notifications and digests (see digest.ts).
+// Each action, the digest and bulk changes (shared/bulk.ts) have an HTML and a plain-text template in `functions/templates/` (the .txt file starts with a
+// `Subject:` line). A document in `emailTemplates/{action}` with any of
+// `subject`, `html` and `text` overrides the file copy without a deploy.
+//
+// Templates use `{{variable}}` placeholders. Values are HTML-escaped in the
+// HTML body; unknown placeholders render as empty strings. A section
+// `{{#list}}...{{/list}}` repeats for each item of a list variable (with the
+// item's fields as variables), or renders once if the variable is set.
+
+export type EmailTemplateName = 'CREATE' | 'UPDATE' | 'DELETE' | 'CUSTOM' | 'DIGEST' | 'BULK';
+
+// Templates for a single user change
+export const EMAIL_TEMPLATE_NAMES: EmailTemplateName[] = ['CREATE', 'UPDATE', 'DELETE', 'CUSTOM'];
+
+export const EMAIL_TEMPLATES_COLLECTION = 'emailTemplates';
+
+export interface EmailTemplate {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export type TemplateVariables = { [name: string]: unknown };
+
+// `functions/templates`, from both src/ (tests) and lib/ (deployed)
+const TEMPLATES_DIR = path.resolve(__dirname, '../templates');
+
+const HTML_ESCAPES: { [char: string]: string } = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  '\'': '&#39;',
+};
+
+export const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+
+const toText = (value: unknown) =>
+  value === undefined || value === null ? '' : String(value);
+
+const isSet = (value: unknown) =>
+  Array.isArray(value) ? value.length > 0 : value !== undefined && value !== null && value !== '' && value !== false;
+
+// Sections and placeholders are filled in one pass over the template, so a
+// value that looks like a placeholder is output as-is and never expanded
+const TEMPLATE_TAG = /\{\{#(\w+)\}\}\r?\n?([\s\S]*?)\{\{\/\1\}\}\r?\n?|\{\{\s*(\w+)\s*\}\}/g;
+
+const fill = (template: string, variables: TemplateVariables, format: (value: string) => string): string =>
+  template.replace(TEMPLATE_TAG, (_match, section: string | undefined, inner: string, name: string) => {
+    if (section === undefined) {
+      return format(toText(variables[name]));
+    }
+    const value = variables[section];
+    if (!isSet(value)) {
+      return '';
+    }
+    return Array.isArray(value)
+      ? value.map((item) => fill(inner, { ...variables, ...item }, format)).join('')
+      : fill(inner, variables, format);
+  });
+
+export const templateNameForAction = (action: string): EmailTemplateName =>
+  EMAIL_TEMPLATE_NAMES.includes(action as EmailTemplateName) ? action as EmailTemplateName : 'CUSTOM';
+
+const fileTemplates = new Map<EmailTemplateName, EmailTemplate>();
+
+// The template shipped in functions/templates
+export const loadFileTemplate = (name: EmailTemplateName): EmailTemplate => {
+  const cached = fileTemplates.get(name);
+  if (cached) {
+    return cached;
+  }
+
+  const base = path.join(TEMPLATES_DIR, name.toLowerCase());
+  const html = fs.readFileSync(`${base}.html`, 'utf8');
+  const textFile = fs.readFileSync(`${base}.txt`, 'utf8');
+  const [, subject = '', text = ''] = textFile.match(/^Subject:[ \t]*(.*)\r?\n\r?\n?([\s\S]*)$/) ?? [];
+
+  const template = { subject, html, text };
+  fileTemplates.set(name, template);
+  return template;
+};
+
+// The file template with any fields overridden in Firestore
+export const loadEmailTemplate = async (name: EmailTemplateName): Promise<EmailTemplate> => {
+  const template = loadFileTemplate(name);
+
+  try {
+    const doc = await admin.firestore().collection(EMAIL_TEMPLATES_COLLECTION).doc(name).get();
+    const override = doc.data() ?? {};
+    return {
+      subject: typeof override.subject === 'string' ? override.subject : template.subject,
+      html: typeof override.html === 'string' ? override.html : template.html,
+      text: typeof override.text === 'string' ? override.text : template.text,
+    };
+  } catch (error) {
+    console.error(`Error loading email template ${name} - using the file copy:`, error);
+    return template;
+  }
+};
+
+export const renderTemplate = (template: EmailTemplate, variables: TemplateVariables): RenderedEmail => ({
+  // A subject is a single header line
+  subject: fill(template.subject, variables, (value) => value.replace(/[\r\n]+/g, ' ')).trim(),
+  html: fill(template.html, variables, escapeHtml),
+  text: fill(template.text, variables, (value) => value),
+});
+
+// Placeholders available to the user-change templates
+export const emailVariables = (
+  action: string,
+  userData: any,
+  customFields: CustomFieldDefinition[] = [],
+): TemplateVariables => {
+  const user = action === 'DELETE' ? userData?.deletedUser : userData;
+  const changes = changesForUpdate(action, userData, customFields) ?? [];
+  const values = user?.customFields ?? {};
+  return {
+    action,
+    name: user?.name,
+    email: user?.email,
+    age: user?.age,
+    // List of { label, value }: name, email, age and the custom fields
+    // defined in `schema/users` that the user has a value for
+    fields: [
+      { label: 'Name', value: user?.name },
+      { label: 'Email', value: user?.email },
+      { label: 'Age', value: user?.age },
+      ...customFields
+        .map((definition) => ({ label: definition.label, value: formatCustomFieldValue(definition, values[definition.key]) }))
+        .filter((field) => field.value !== ''),
+    ],
+    // UPDATE only: list of { label, before, after }, and the same as one line
+    changes,
+    hasChanges: changes.length > 0,
+    changeSummary: summarizeChanges(changes),
+  };
+};
+
+// Placeholders available to the BULK template
+export const bulkEmailVariables = (action: string, change: BulkChange): TemplateVariables => ({
+  action,
+  ...describeBulkChange(action, change),
+  count: change.count,
+});
+
+export const renderEmail = async (action: string, userData: any): Promise<RenderedEmail> => {
+  if (isBulkChange(userData)) {
+    return renderTemplate(await loadEmailTemplate('BULK'), bulkEmailVariables(action, userData));
+  }
+  const template = await loadEmailTemplate(templateNameForAction(action));
+  return renderTemplate(template, emailVariables(action, userData, await loadCustomFields()));
+};
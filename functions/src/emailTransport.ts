@@ -0,0 +1,153 @@
+import * as functions from 'firebase-functions';
+import * as nodemailer from 'nodemailer';
+
+// Where outbox emails are delivered, chosen with `email.transport`:
+//   smtp  nodemailer over SMTP (default when deployed)
+//   log   print each email as one JSON line (default in the emulator)
+//   stub  keep emails in memory (tests)
+//
+//   firebase functions:config:set email.transport="smtp" \
+//     email.user="you@gmail.com" email.pass="app-password" \
+//     email.service="gmail" email.from="Firebase CRUD Demo <you@gmail.com>"
+//
+// Use email.host/email.port/email.secure instead of email.service for other
+// SMTP servers.
+
+export type EmailTransportName = 'smtp' | 'log' | 'stub';
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface SendResult {
+  messageId?: string;
+}
+
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+  send(message: EmailMessage): Promise<SendResult>;
+}
+
+export interface EmailConfig {
+  transport: EmailTransportName;
+  from: string;
+  smtp: {
+    service?: string;
+    host?: string;
+    port?: number;
+    secure?: boolean;
+    user?: string;
+    pass?: string;
+  };
+  // Outbox limits (see emailOutbox.ts)
+  ratePerMinute: number;
+  maxAttempts: number;
+}
+
+const DEFAULT_RATE_PER_MINUTE = 60;
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+const isTransportName = (value: unknown): value is EmailTransportName =>
+  value === 'smtp' || value === 'log' || value === 'stub';
+
+// functions.config() values are always strings
+const toPositiveInt = (value: unknown, fallback: number) => {
+  const parsed = parseInt(String(value), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const getEmailConfig = (): EmailConfig => {
+  const email = functions.config().email ?? {};
+  const defaultTransport = process.env.FUNCTIONS_EMULATOR === 'true' ? 'log' : 'smtp';
+
+  return {
+    transport: isTransportName(email.transport) ? email.transport : defaultTransport,
+    from: email.from || email.user || '',
+    smtp: {
+      service: email.service || (email.host ? undefined : 'gmail'),
+      host: email.host,
+      port: email.port ? toPositiveInt(email.port, 587) : undefined,
+      secure: email.secure === undefined ? undefined : String(email.secure) === 'true',
+      user: email.user,
+      pass: email.pass,
+    },
+    ratePerMinute: toPositiveInt(email.rate_per_minute, DEFAULT_RATE_PER_MINUTE),
+    maxAttempts: toPositiveInt(email.max_attempts, DEFAULT_MAX_ATTEMPTS),
+  };
+};
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor(smtp: EmailConfig['smtp']) {
+    if (!smtp.user || !smtp.pass) {
+      throw new Error('email.user and email.pass must be set to send email over SMTP');
+    }
+    this.transporter = nodemailer.createTransport({
+      service: smtp.service,
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      auth: { user: smtp.user, pass: smtp.pass },
+    });
+  }
+
+  async send(message: EmailMessage): Promise<SendResult> {
+    const info = await this.transporter.sendMail(message);
+    return { messageId: info.messageId };
+  }
+}
+
+export class LogTransport implements EmailTransport {
+  readonly name = 'log';
+
+  async send(message: EmailMessage): Promise<SendResult> {
+    console.log(JSON.stringify({ transport: 'log', ...message }));
+    return {};
+  }
+}
+
+// Records emails instead of sending them. `failNext` makes the following
+// sends throw, to exercise retries.
+export class StubTransport implements EmailTransport {
+  readonly name = 'stub';
+  sent: EmailMessage[] = [];
+  private failures: Error[] = [];
+
+  failNext(count: number, error: Error = new Error('Stub transport failure')) {
+    this.failures.push(...Array.from({ length: count }, () => error));
+  }
+
+  reset() {
+    this.sent = [];
+    this.failures = [];
+  }
+
+  async send(message: EmailMessage): Promise<SendResult> {
+    const failure = this.failures.shift();
+    if (failure) {
+      throw failure;
+    }
+    this.sent.push(message);
+    return { messageId: `stub-${this.sent.length}` };
+  }
+}
+
+// Shared so tests can inspect what a `stub` configuration sent
+export const stubTransport = new StubTransport();
+
+export const createEmailTransport = (config: EmailConfig = getEmailConfig()): EmailTransport => {
+  switch (config.transport) {
+    case 'log':
+      return new LogTransport();
+    case 'stub':
+      return stubTransport;
+    default:
+      return new SmtpTransport(config.smtp);
+  }
+};
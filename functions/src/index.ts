@@ -1,86 +1,140 @@
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
-import * as nodemailer from 'nodemailer';
+import { getCallerRole, requirePermission, verifyRequestAuth } from './auth';
+import { hasPermission, isRole, permissionForAction } from './shared/roles';
+import { ALL_DEVICES, parsePushTarget } from './shared/targeting';
+import { fanOutPushNotification, fanOutEmailNotification, hasVisibleChanges } from './notificationFanout';
+import {
+  NotificationChannel,
+  claimNotificationEvent,
+  getDeleteNotificationTiming,
+  getDeliveryMode,
+  isMaintenanceEvent,
+  notificationEventId,
+} from './notificationEvents';
+import { EMAIL_OUTBOX_COLLECTION, deliverOutboxEmail, drainEmailOutbox } from './emailOutbox';
+import { ChangeAction, recordChange } from './changeLog';
+import { recordAuditEntry } from './auditLog';
+import { AuditAction } from './shared/audit';
+import { ScheduledDigest, sendDigests } from './digest';
+import { purgeTrash } from './trash';
+import { migrateSearchKeywords as runKeywordMigration, migrateUserAges as runAgeMigration } from './migrations';
+import { deduplicateUsers } from './duplicates';
+import { ImportFormatError, importUsers as runUserImport } from './userImport';
+import { detectImportFormat } from './shared/userImport';
+import { ExportRequestError, parseExportRequest, streamUsersExport } from './userExport';
+import { exportFileName } from './shared/userExport';
+import { BULK_CHANGES_COLLECTION, isBulkChange, isBulkLastChangeId } from './shared/bulk';
+import { loadBulkChange } from './bulkChanges';
+import { unknownFields, validateUser } from './shared/userSchema';
+import { loadCustomFields } from './customFields';
 
 admin.initializeApp();
 
-const db = admin.firestore();
+// Decide whether a callable may send a notification for a user change. Calls
+// without a changeId are plain broadcasts and are always sent. The app sends
+// a delete twice, with `deleteStage` 'trash' and then 'purge'; only the stage
+// matching getDeleteNotificationTiming goes out. A restore is sent as a CREATE
+// with `deleteStage` 'trash', as it only follows up an announced trash move.
+const skipClientNotification = async (
+  changeId: string | undefined,
+  channel: NotificationChannel,
+  action: string,
+  userData: any,
+  deleteStage?: string,
+): Promise<string | null> => {
+  if (!changeId) {
+    return null;
+  }
+  if (getDeliveryMode() !== 'client') {
+    return 'User change notifications are sent by the server';
+  }
+  if (deleteStage && deleteStage !== getDeleteNotificationTiming()) {
+    return `Deletes are announced on ${getDeleteNotificationTiming()}`;
+  }
+  const claimed = await claimNotificationEvent(changeId, channel, {
+    action,
+    userId: userData?.id || '',
+    source: 'client',
+  });
+  return claimed ? null : 'Notification already sent';
+};
 
-// Email configuration (you'll need to set up your email service)
-const transporter = nodemailer.createTransporter({
-  service: 'gmail', // or your email service
-  auth: {
-    user: functions.config().email?.user || 'your-email@gmail.com',
-    pass: functions.config().email?.pass || 'your-app-password'
+// Callers who may not broadcast can only announce changes that were made:
+// the user named in `userData` must carry `changeId` as its lastChangeId, or
+// `changeId` must be one of the caller's bulk changes. Must be called outside
+// the callable's try/catch so the error reaches the client unchanged.
+const requireRecordedChange = async (
+  auth: NonNullable<functions.https.CallableContext['auth']>,
+  changeId: string | undefined,
+  userData: any,
+): Promise<void> => {
+  if (!changeId || hasPermission(getCallerRole(auth), 'notifications:broadcast')) {
+    return;
   }
-});
+
+  const db = admin.firestore();
+  let recorded = false;
+  if (typeof changeId !== 'string') {
+    // Not a change id the app writes
+  } else if (isBulkChange(userData)) {
+    const bulk = await db.collection(BULK_CHANGES_COLLECTION).doc(changeId).get();
+    recorded = bulk.exists && bulk.get('lastChangedBy') === auth.uid;
+  } else if (typeof userData?.id === 'string' && userData.id) {
+    const user = await db.collection('users').doc(userData.id).get();
+    recorded = user.exists && user.get('lastChangeId') === changeId;
+  }
+
+  if (!recorded) {
+    throw new functions.https.HttpsError('permission-denied', 'changeId does not match a change to a user');
+  }
+};
+
+// What to announce: `userData` as sent, except for the app's bulk changes,
+// which are described from their users (see bulkChanges.ts). Null when the
+// bulk change did not change any user.
+const notificationUserData = async (changeId: string | undefined, userData: any): Promise<any | null> =>
+  changeId && isBulkChange(userData) ? (await loadBulkChange(changeId))?.userData ?? null : userData;
 
 // Send push notification to all users
 export const sendNotificationToAllUsers = functions.https.onCall(async (data, context) => {
+  const { action, userData, senderToken, changeId, target, deleteStage } = data;
+
+  // Notifying about a user change needs the permission for that change;
+  // anything else is an all-user broadcast
+  const auth = requirePermission(context, changeId ? permissionForAction(action) : 'notifications:broadcast');
+
+  // Every device unless the caller picks a topic or segment
+  const pushTarget = target === undefined ? ALL_DEVICES : parsePushTarget(target);
+  if (!pushTarget) {
+    throw new functions.https.HttpsError('invalid-argument', 'target must be "all", a known topic or a user segment');
+  }
+  // Only broadcasters choose who is notified
+  if (pushTarget.type !== 'all') {
+    requirePermission(context, 'notifications:broadcast');
+  }
+  await requireRecordedChange(auth, changeId, userData);
+
   try {
-    const { action, userData, senderToken } = data;
 
-    // Get all user FCM tokens
-    const usersSnapshot = await db.collection('users').get();
-    const tokens: string[] = [];
+    const notification = await notificationUserData(changeId, userData);
+    if (!notification) {
+      return { success: false, message: 'Bulk change not found' };
+    }
+
+    const skipReason = await skipClientNotification(changeId, 'push', action, userData, deleteStage);
+    if (skipReason) {
+      return { success: false, message: skipReason };
+    }
 
-    usersSnapshot.forEach((doc) => {
-      const userData = doc.data();
-      if (userData.fcmToken && userData.fcmToken !== senderToken) {
-        tokens.push(userData.fcmToken);
-      }
+    // The user who made a change is not notified about it on any device
+    return await fanOutPushNotification({
+      action,
+      userData: notification,
+      senderToken,
+      senderUid: changeId ? auth.uid : undefined,
+      target: pushTarget,
     });
-
-    if (tokens.length === 0) {
-      return { success: false, message: 'No users to notify' };
-    }
-
-    // Create notification message
-    let title = '';
-    let body = '';
-
-    switch (action) {
-      case 'CREATE':
-        title = 'New User Added';
-        body = `${userData.name} has been added to the system`;
-        break;
-      case 'UPDATE':
-        title = 'User Updated';
-        body = `${userData.name}'s information has been updated`;
-        break;
-      case 'DELETE':
-        title = 'User Deleted';
-        body = `${userData.deletedUser.name} has been removed from the system`;
-        break;
-      default:
-        title = 'System Update';
-        body = 'A change has been made to the user database';
-    }
-
-    // Send notification to all users
-    const message = {
-      notification: {
-        title,
-        body,
-      },
-      data: {
-        action,
-        userId: userData.id || '',
-        timestamp: Date.now().toString(),
-      },
-      tokens,
-    };
-
-    const response = await admin.messaging().sendMulticast(message);
-    
-    console.log('Successfully sent messages:', response.successCount);
-    console.log('Failed to send messages:', response.failureCount);
-
-    return {
-      success: true,
-      successCount: response.successCount,
-      failureCount: response.failureCount,
-    };
   } catch (error) {
     console.error('Error sending notification:', error);
     throw new functions.https.HttpsError('internal', 'Failed to send notification');
@@ -89,138 +143,367 @@ export const sendNotificationToAllUsers = functions.https.onCall(async (data, co
 
 // Send email notification
 export const sendEmailNotification = functions.https.onCall(async (data, context) => {
+  const { action, userData, userEmail, changeId, deleteStage } = data;
+  const auth = requirePermission(context, changeId ? permissionForAction(action) : 'notifications:broadcast');
+  await requireRecordedChange(auth, changeId, userData);
+
   try {
-    const { action, userData, userEmail } = data;
 
-    // Get all user emails
-    const usersSnapshot = await db.collection('users').get();
-    const emails: string[] = [];
+    const notification = await notificationUserData(changeId, userData);
+    if (!notification) {
+      return { success: false, message: 'Bulk change not found' };
+    }
 
-    usersSnapshot.forEach((doc) => {
-      const userData = doc.data();
-      if (userData.email && userData.email !== userEmail) {
-        emails.push(userData.email);
-      }
+    const skipReason = await skipClientNotification(changeId, 'email', action, userData, deleteStage);
+    if (skipReason) {
+      return { success: false, message: skipReason };
+    }
+
+    return await fanOutEmailNotification({
+      action,
+      userData: notification,
+      senderEmail: userEmail || auth.token.email,
     });
+  } catch (error) {
+    console.error('Error sending email notification:', error);
+    throw new functions.https.HttpsError('internal', 'Failed to send email notification');
+  }
+});
+
+// Assign a role (admin/editor/viewer) to a user; admins only. The user sees
+// the new role after their ID token refreshes.
+export const setUserRole = functions.https.onCall(async (data, context) => {
+  requirePermission(context, 'roles:manage');
+  const { uid, role } = data;
 
-    if (emails.length === 0) {
-      return { success: false, message: 'No users to email' };
-    }
-
-    // Create email content
-    let subject = '';
-    let htmlContent = '';
-
-    switch (action) {
-      case 'CREATE':
-        subject = 'New User Added - Firebase CRUD Demo';
-        htmlContent = `
-          <h2>New User Added</h2>
-          <p>A new user has been added to the system:</p>
-          <ul>
-            <li><strong>Name:</strong> ${userData.name}</li>
-            <li><strong>Email:</strong> ${userData.email}</li>
-            <li><strong>Age:</strong> ${userData.age}</li>
-          </ul>
-          <p>This notification was sent automatically by the Firebase CRUD Demo app.</p>
-        `;
-        break;
-      case 'UPDATE':
-        subject = 'User Updated - Firebase CRUD Demo';
-        htmlContent = `
-          <h2>User Information Updated</h2>
-          <p>A user's information has been updated:</p>
-          <ul>
-            <li><strong>Name:</strong> ${userData.name}</li>
-            <li><strong>Email:</strong> ${userData.email}</li>
-            <li><strong>Age:</strong> ${userData.age}</li>
-          </ul>
-          <p>This notification was sent automatically by the Firebase CRUD Demo app.</p>
-        `;
-        break;
-      case 'DELETE':
-        subject = 'User Deleted - Firebase CRUD Demo';
-        htmlContent = `
-          <h2>User Removed</h2>
-          <p>A user has been removed from the system:</p>
-          <ul>
-            <li><strong>Name:</strong> ${userData.deletedUser.name}</li>
-            <li><strong>Email:</strong> ${userData.deletedUser.email}</li>
-            <li><strong>Age:</strong> ${userData.deletedUser.age}</li>
-          </ul>
-          <p>This notification was sent automatically by the Firebase CRUD Demo app.</p>
-        `;
-        break;
-      default:
-        subject = 'System Update - Firebase CRUD Demo';
-        htmlContent = `
-          <h2>System Update</h2>
-          <p>A change has been made to the user database.</p>
-          <p>This notification was sent automatically by the Firebase CRUD Demo app.</p>
-        `;
-    }
-
-    // Send emails to all users
-    const emailPromises = emails.map(email => {
-      const mailOptions = {
-        from: functions.config().email?.user || 'your-email@gmail.com',
-        to: email,
-        subject,
-        html: htmlContent,
-      };
-
-      return transporter.sendMail(mailOptions);
+  if (typeof uid !== 'string' || !uid || !isRole(role)) {
+    throw new functions.https.HttpsError('invalid-argument', 'A uid and a role of admin, editor or viewer are required');
+  }
+
+  try {
+    const user = await admin.auth().getUser(uid);
+    await admin.auth().setCustomUserClaims(uid, { ...user.customClaims, role });
+    return { success: true, uid, role };
+  } catch (error) {
+    console.error('Error setting user role:', error);
+    throw new functions.https.HttpsError('internal', 'Failed to set user role');
+  }
+});
+
+// Convert ages stored as strings by older app versions to numbers; admins
+// only. Safe to call more than once.
+export const migrateUserAges = functions.https.onCall(async (data, context) => {
+  requirePermission(context, 'users:migrate');
+
+  try {
+    const result = await runAgeMigration();
+    console.log('Age migration:', JSON.stringify(result));
+    return { success: true, ...result };
+  } catch (error) {
+    console.error('Error migrating ages:', error);
+    throw new functions.https.HttpsError('internal', 'Failed to migrate ages');
+  }
+});
+
+// Store search keywords on users that lack them (see shared/userSearch.ts);
+// admins only. Safe to call more than once.
+export const migrateSearchKeywords = functions.https.onCall(async (data, context) => {
+  requirePermission(context, 'users:migrate');
+
+  try {
+    const migrated = await runKeywordMigration();
+    console.log(`Stored search keywords on ${migrated} users`);
+    return { success: true, migrated };
+  } catch (error) {
+    console.error('Error migrating search keywords:', error);
+    throw new functions.https.HttpsError('internal', 'Failed to migrate search keywords');
+  }
+});
+
+// Find users that share an email, merge each group into one user and reserve
+// every email (see duplicates.ts); admins only. Only reports what it would
+// merge unless called with `{ dryRun: false }`.
+export const mergeDuplicateUsers = functions.https.onCall(async (data, context) => {
+  requirePermission(context, 'users:migrate');
+
+  try {
+    const result = await deduplicateUsers({ dryRun: data?.dryRun !== false });
+    console.log('Duplicate merge:', JSON.stringify(result));
+    return { success: true, ...result };
+  } catch (error) {
+    console.error('Error merging duplicate users:', error);
+    throw new functions.https.HttpsError('internal', 'Failed to merge duplicate users');
+  }
+});
+
+// Add users from a CSV or JSON file (see userImport.ts). Only checks the file
+// and reports errors and duplicates by row unless called with
+// `{ dryRun: false }`.
+export const importUsers = functions.https.onCall(async (data, context) => {
+  const auth = requirePermission(context, 'users:create');
+  const { content, format } = data || {};
+
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new functions.https.HttpsError('invalid-argument', 'The file to import is empty');
+  }
+  if (format !== undefined && format !== 'csv' && format !== 'json') {
+    throw new functions.https.HttpsError('invalid-argument', 'format must be "csv" or "json"');
+  }
+
+  try {
+    const report = await runUserImport(format ?? detectImportFormat(content), content, {
+      dryRun: data.dryRun !== false,
+      uid: auth.uid,
+      senderEmail: auth.token.email,
     });
+    console.log(`User import${report.dryRun ? ' (dry run)' : ''}: ${report.valid} of ${report.total} valid, ` +
+      `${report.imported} imported`);
+    return { success: true, ...report };
+  } catch (error) {
+    if (error instanceof ImportFormatError) {
+      throw new functions.https.HttpsError('invalid-argument', error.message);
+    }
+    console.error('Error importing users:', error);
+    throw new functions.https.HttpsError('internal', 'Failed to import users');
+  }
+});
+
+// Download the users as CSV or JSON (see userExport.ts). An HTTPS function
+// rather than a callable so large exports can be streamed. Open to every
+// signed-in user, like reading the list; the app sends the Firebase ID token
+// as `Authorization: Bearer <token>`.
+export const exportUsers = functions.https.onRequest(async (req, res) => {
+  if (req.method !== 'GET') {
+    res.status(405).send('Use GET');
+    return;
+  }
+  const auth = await verifyRequestAuth(req);
+  if (!auth) {
+    res.status(401).send('You must be signed in to export users');
+    return;
+  }
 
-    const results = await Promise.allSettled(emailPromises);
-    const successCount = results.filter(result => result.status === 'fulfilled').length;
-    const failureCount = results.filter(result => result.status === 'rejected').length;
+  let request;
+  try {
+    request = parseExportRequest(req.query);
+  } catch (error) {
+    if (error instanceof ExportRequestError) {
+      res.status(400).send(error.message);
+      return;
+    }
+    throw error;
+  }
 
-    console.log('Successfully sent emails:', successCount);
-    console.log('Failed to send emails:', failureCount);
+  res.set('Content-Type', request.format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8');
+  res.set('Content-Disposition', `attachment; filename="${exportFileName(request.format)}"`);
+  res.set('Cache-Control', 'no-store');
 
-    return {
-      success: true,
-      successCount,
-      failureCount,
-    };
+  try {
+    const count = await streamUsersExport(request, (chunk) => res.write(chunk));
+    console.log(`Exported ${count} users as ${request.format} for ${auth.uid}`);
+    res.end();
   } catch (error) {
-    console.error('Error sending email notification:', error);
-    throw new functions.https.HttpsError('internal', 'Failed to send email notification');
+    console.error('Error exporting users:', error);
+    // Once rows have gone out the status cannot change, so the file just
+    // ends early
+    if (res.headersSent) {
+      res.end();
+    } else {
+      res.status(500).send('Failed to export users');
+    }
   }
 });
 
-// Trigger notifications on Firestore changes (alternative approach)
+// Trigger notifications on Firestore changes (default, see getDeliveryMode)
 export const onUserChange = functions.firestore
   .document('users/{userId}')
   .onWrite(async (change, context) => {
     const userId = context.params.userId;
-    
+    const oldData = change.before.data();
+    const newData = change.after.data();
+    const deleteTiming = getDeleteNotificationTiming();
+    let action: ChangeAction;
+    let auditAction: AuditAction;
+    let userData: any;
+    let eventId: string | undefined;
+    // Whether people are told about this write at all
+    let announce = true;
+
     if (!change.before.exists) {
       // New document created
-      const newData = change.after.data();
-      await sendNotificationToAllUsers({
-        action: 'CREATE',
-        userData: { ...newData, id: userId },
-        senderToken: newData?.fcmToken || '',
-      });
+      action = auditAction = 'CREATE';
+      userData = { ...newData, id: userId };
+      eventId = notificationEventId(action, userId, newData?.lastChangeId);
     } else if (!change.after.exists) {
-      // Document deleted
-      const oldData = change.before.data();
-      await sendNotificationToAllUsers({
-        action: 'DELETE',
-        userData: { deletedUser: oldData, id: userId },
-        senderToken: '',
-      });
+      // Document deleted; a user purged from the trash may already have been
+      // announced when it was trashed
+      action = auditAction = 'DELETE';
+      userData = { deletedUser: oldData, id: userId };
+      eventId = notificationEventId(action, userId, oldData?.lastChangeId);
+      announce = !oldData?.deletedAt || deleteTiming === 'purge';
+    } else if (newData?.deletedAt && !oldData?.deletedAt) {
+      // Moved to the trash
+      action = 'DELETE';
+      auditAction = 'TRASH';
+      userData = { deletedUser: oldData, id: userId };
+      eventId = notificationEventId(action, userId, newData?.lastChangeId);
+      announce = deleteTiming === 'trash';
+    } else if (oldData?.deletedAt && !newData?.deletedAt) {
+      // Restored from the trash (or the delete was undone); announced as the
+      // user coming back when its move to the trash was announced
+      action = 'CREATE';
+      auditAction = 'RESTORE';
+      userData = { ...newData, id: userId };
+      if (newData?.lastChangeId !== oldData?.lastChangeId) {
+        eventId = notificationEventId(action, userId, newData?.lastChangeId);
+      }
+      announce = deleteTiming === 'trash';
     } else {
-      // Document updated
-      const newData = change.after.data();
-      const oldData = change.before.data();
-      await sendNotificationToAllUsers({
-        action: 'UPDATE',
-        userData: { ...newData, id: userId, oldData },
-        senderToken: newData?.fcmToken || '',
+      // Document updated; writers that don't set a new lastChangeId fall
+      // back to this event's own id
+      action = auditAction = 'UPDATE';
+      userData = { ...newData, id: userId, oldData };
+      if (newData?.lastChangeId !== oldData?.lastChangeId) {
+        eventId = notificationEventId(action, userId, newData?.lastChangeId);
+      }
+      announce = !newData?.deletedAt;
+    }
+
+    // Every write is audited, including ones nobody is notified about
+    await recordAuditEntry(context.eventId, userId, auditAction, oldData, newData, new Date(context.timestamp));
+
+    if (!announce) {
+      console.log(`Not announcing ${auditAction} of user ${userId}`);
+      return;
+    }
+
+    // Documents that bypassed firestore.rules (Admin SDK, console) and do not
+    // match the schema are never announced. Custom fields may be missing, as
+    // users written before a field was made required do not have it.
+    if (newData && auditAction !== 'TRASH') {
+      const customFields = (await loadCustomFields()).map((field) => ({ ...field, required: false }));
+      const errors = validateUser(newData, customFields);
+      const unknown = unknownFields(newData);
+      if (Object.keys(errors).length > 0 || unknown.length > 0) {
+        console.log(`User ${userId} does not match the schema - not notifying:`, JSON.stringify({ errors, unknown }));
+        return;
+      }
+    }
+
+    if (!hasVisibleChanges(action, userData)) {
+      console.log(`User ${userId} updated without user-visible changes - not notifying`);
+      return;
+    }
+
+    eventId = eventId || context.eventId;
+
+    // Logged for the digests whichever side sends the notifications, unless
+    // it is maintenance such as a duplicate merge
+    const actorUid = change.after.exists ? newData?.lastChangedBy : undefined;
+    if (!(await isMaintenanceEvent(eventId))) {
+      await recordChange(eventId, action, userId, userData, actorUid, new Date(context.timestamp));
+    }
+
+    if (getDeliveryMode() !== 'server') {
+      return;
+    }
+
+    // Part of one of the app's bulk actions, announced by onBulkChange
+    if (change.after.exists && isBulkLastChangeId(newData?.lastChangeId) &&
+      newData?.lastChangeId !== oldData?.lastChangeId) {
+      console.log(`User ${userId} changed in a bulk action - not notifying on its own`);
+      return;
+    }
+
+    const event = { action, userId, source: 'server' as const };
+
+    if (await claimNotificationEvent(eventId, 'push', event)) {
+      await fanOutPushNotification({
+        action,
+        userData,
+        senderUid: actorUid,
+      });
+    }
+
+    if (await claimNotificationEvent(eventId, 'email', event)) {
+      await fanOutEmailNotification({
+        action,
+        userData,
+        senderEmail: action === 'DELETE' ? '' : newData?.email || '',
       });
     }
   });
 
+// One notification for a bulk action in the app ("5 users removed"), whose
+// users onUserChange does not announce one by one. Deletes follow
+// notifications.delete_on like single ones.
+export const onBulkChange = functions.firestore
+  .document(`${BULK_CHANGES_COLLECTION}/{bulkId}`)
+  .onCreate(async (snapshot, context) => {
+    const bulkId = context.params.bulkId;
+
+    if (getDeliveryMode() !== 'server') {
+      return;
+    }
+    const bulk = await loadBulkChange(bulkId);
+    if (!bulk) {
+      console.log(`Bulk change ${bulkId} did not change any user - not notifying`);
+      return;
+    }
+    const { action, lastChangedBy, userData } = bulk;
+    if (action === 'DELETE' && getDeleteNotificationTiming() !== 'trash') {
+      console.log(`Not announcing bulk delete ${bulkId}; users are announced when purged`);
+      return;
+    }
+
+    const event = { action, userId: '', source: 'server' as const };
+
+    if (await claimNotificationEvent(bulkId, 'push', event)) {
+      await fanOutPushNotification({ action, userData, senderUid: lastChangedBy });
+    }
+
+    if (await claimNotificationEvent(bulkId, 'email', event)) {
+      await fanOutEmailNotification({ action, userData, senderEmail: '' });
+    }
+  });
+
+// Send a queued email as soon as it is written
+export const onEmailQueued = functions.firestore
+  .document(`${EMAIL_OUTBOX_COLLECTION}/{emailId}`)
+  .onCreate(async (snapshot) => {
+    const outcome = await deliverOutboxEmail(snapshot.ref);
+    console.log(`Email ${snapshot.id}: ${outcome}`);
+  });
+
+// Retry failed emails once their backoff has passed, and send the ones held
+// back by the per-minute cap
+export const processEmailOutbox = functions.pubsub
+  .schedule('every 1 minutes')
+  .onRun(async () => {
+    const result = await drainEmailOutbox();
+    console.log('Email outbox processed:', JSON.stringify(result));
+  });
+
+// Digest emails for users who chose a summary instead of an email per change
+const scheduleDigest = (frequency: ScheduledDigest, schedule: string) =>
+  functions.pubsub
+    .schedule(schedule)
+    .timeZone('UTC')
+    .onRun(async () => {
+      const result = await sendDigests(frequency);
+      console.log(`${frequency} digest:`, JSON.stringify(result));
+    });
+
+export const sendDailyDigest = scheduleDigest('daily', 'every day 08:00');
+
+export const sendWeeklyDigest = scheduleDigest('weekly', 'every monday 08:00');
+
+// Permanently delete users that have been in the trash for longer than the
+// configured retention (see trash.ts)
+export const purgeDeletedUsers = functions.pubsub
+  .schedule('every day 03:00')
+  .timeZone('UTC')
+  .onRun(async () => {
+    const purged = await purgeTrash();
+    console.log(`Purged ${purged} users from the trash`);
+  });
@@ -0,0 +1,70 @@
+import * as admin from 'firebase-admin';
+import { serverChangedBy } from './auditLog';
+import { parseAge } from './shared/userSchema';
+import { searchKeywords } from './shared/userSearch';
+import { chunk } from './utils';
+
+export interface AgeMigrationResult {
+  // Documents whose string age was converted to a number
+  migrated: number;
+  // Ids of documents whose age could not be read as a number; left untouched
+  invalid: string[];
+}
+
+// Convert `age` from the string older app versions wrote to a number.
+// Documents that already hold a number are skipped, so it is safe to run
+// again. The resulting writes have no user-visible changes, so onUserChange
+// audits them without notifying anyone.
+export const migrateUserAges = async (): Promise<AgeMigrationResult> => {
+  const db = admin.firestore();
+  const snapshot = await db.collection('users').get();
+  const updates: { ref: admin.firestore.DocumentReference; age: number }[] = [];
+  const invalid: string[] = [];
+
+  snapshot.forEach((doc) => {
+    const age = doc.get('age');
+    if (typeof age !== 'string') {
+      return;
+    }
+    const years = parseAge(age);
+    if (years === null) {
+      invalid.push(doc.id);
+    } else {
+      updates.push({ ref: doc.ref, age: years });
+    }
+  });
+
+  for (const group of chunk(updates, 500)) {
+    const batch = db.batch();
+    group.forEach(({ ref, age }) => batch.update(ref, { age, ...serverChangedBy() }));
+    await batch.commit();
+  }
+
+  return { migrated: updates.length, invalid };
+};
+
+// Store `searchKeywords` on users written before the app searched, or by
+// tools that do not keep them current. Users whose keywords are already
+// right are skipped, so it is safe to run again. Returns how many were
+// updated; like migrateUserAges, nobody is notified about these writes.
+export const migrateSearchKeywords = async (): Promise<number> => {
+  const db = admin.firestore();
+  const snapshot = await db.collection('users').get();
+  const updates: { ref: admin.firestore.DocumentReference; keywords: string[] }[] = [];
+
+  snapshot.forEach((doc) => {
+    const keywords = searchKeywords(doc.data());
+    const stored = doc.get('searchKeywords');
+    if (!Array.isArray(stored) || stored.join('\n') !== keywords.join('\n')) {
+      updates.push({ ref: doc.ref, keywords });
+    }
+  });
+
+  for (const group of chunk(updates, 500)) {
+    const batch = db.batch();
+    group.forEach(({ ref, keywords }) => batch.update(ref, { searchKeywords: keywords, ...serverChangedBy() }));
+    await batch.commit();
+  }
+
+  return updates.length;
+};
@@ -0,0 +1,96 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+
+// Idempotency for user-change notifications. The app and the onUserChange
+// trigger both see every change; each change gets an event id, and whichever
+// path claims `notificationEvents/{eventId}_{channel}` first sends it.
+
+export type NotificationChannel = 'push' | 'email';
+export type NotificationSource = 'client' | 'server';
+
+// 'server': onUserChange sends notifications and the callables skip user changes
+// 'client': the callables invoked by the app send them and onUserChange skips
+export type DeliveryMode = NotificationSource;
+
+// Set with `firebase functions:config:set notifications.mode="client"`
+export const getDeliveryMode = (): DeliveryMode =>
+  functions.config().notifications?.mode === 'client' ? 'client' : 'server';
+
+// 'trash': a delete is announced when the user is moved to the trash
+// 'purge': it is announced when the user is permanently deleted
+export type DeleteNotificationTiming = 'trash' | 'purge';
+
+// Set with `firebase functions:config:set notifications.delete_on="purge"`
+export const getDeleteNotificationTiming = (): DeleteNotificationTiming =>
+  functions.config().notifications?.delete_on === 'purge' ? 'purge' : 'trash';
+
+// Both paths derive the same id from the user document: the app writes a
+// fresh `lastChangeId` with every create/update/trash, and a delete is
+// identified by the last change before it, so moving a user to the trash and
+// purging it later share one event
+export const notificationEventId = (action: string, userId: string, lastChangeId?: string) =>
+  action === 'DELETE' ? `${userId}_DELETE_${lastChangeId || ''}` : lastChangeId;
+
+export interface NotificationEventDetails {
+  action: string;
+  userId: string;
+  source: NotificationSource;
+  // A maintenance write nobody is told about, not even in the digests
+  maintenance?: boolean;
+}
+
+// Record that a notification is being sent for an event. Returns false when
+// it was already claimed, in which case the caller must not send it again.
+// Claims are taken before sending, so a failed send is not retried.
+export const claimNotificationEvent = async (
+  eventId: string,
+  channel: NotificationChannel,
+  details: NotificationEventDetails,
+): Promise<boolean> => {
+  try {
+    await admin.firestore()
+      .collection('notificationEvents')
+      .doc(`${eventId}_${channel}`)
+      .create({
+        eventId,
+        channel,
+        ...details,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    return true;
+  } catch (error) {
+    // gRPC ALREADY_EXISTS
+    if ((error as { code?: number }).code === 6) {
+      console.log(`Notification ${eventId} (${channel}) already sent - skipping`);
+      return false;
+    }
+    throw error;
+  }
+};
+
+// Claim both channels of an event in `batch`, together with the change it
+// belongs to, so onUserChange does not announce it. For writers that send
+// one summary for many changes instead (see shared/bulk.ts) or none at all.
+// An event claimed before (a trashed user's delete) stays claimed.
+export const claimNotificationEventInBatch = (
+  batch: admin.firestore.WriteBatch,
+  eventId: string,
+  details: NotificationEventDetails,
+) => {
+  const channels: NotificationChannel[] = ['push', 'email'];
+  channels.forEach((channel) => {
+    batch.set(admin.firestore().collection('notificationEvents').doc(`${eventId}_${channel}`), {
+      eventId,
+      channel,
+      ...details,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+};
+
+// Whether an event was claimed by a maintenance write (see
+// NotificationEventDetails), which onUserChange leaves out of the change log
+export const isMaintenanceEvent = async (eventId: string): Promise<boolean> => {
+  const doc = await admin.firestore().collection('notificationEvents').doc(`${eventId}_push`).get();
+  return doc.get('maintenance') === true;
+};
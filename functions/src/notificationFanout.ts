@@ -0,0 +1,399 @@
+import * as admin from 'firebase-admin';
+import { DEVICES_COLLECTION } from './shared/devices';
+import { getRole } from './shared/roles';
+import { ALL_DEVICES, NotificationTopic, PushTarget, UserSegment, matchesSegment } from './shared/targeting';
+import { shouldNotify } from './shared/preferences';
+import { loadPreferences, loadPreferencesByEmail } from './notificationPreferences';
+import { changesForUpdate, summarizeChanges } from './shared/userDiff';
+import { normalizeEmail, parseAge } from './shared/userSchema';
+import { describeBulkChange, isBulkChange } from './shared/bulk';
+import { renderEmail } from './emailTemplates';
+import { enqueueEmails } from './emailOutbox';
+import { chunk } from './utils';
+
+// Internal push and email fan-out shared by the sendNotificationToAllUsers and
+// sendEmailNotification callables and the onUserChange Firestore trigger
+
+export interface FanOutRequest {
+  action: string;
+  userData: any;
+  // Token of the device that made the change; it is not notified
+  senderToken?: string;
+  // uid of the user who made the change; none of their devices are notified
+  senderUid?: string;
+  // Defaults to every registered device
+  target?: PushTarget;
+}
+
+export interface EmailFanOutRequest {
+  action: string;
+  userData: any;
+  // Email of the user who made the change; they are not emailed
+  senderEmail?: string;
+}
+
+export interface FanOutResult {
+  success: boolean;
+  message?: string;
+  successCount?: number;
+  failureCount?: number;
+  // Push only: one entry per sendEachForMulticast call
+  batches?: PushBatchReport[];
+  // Push only: number of dead tokens removed from the device registry
+  prunedTokenCount?: number;
+  // Email only: emails written to the outbox (see emailOutbox.ts)
+  queuedCount?: number;
+  // Recipients left out because of their notification preferences
+  skippedByPreferences?: number;
+  // Topic sends only
+  topic?: string;
+}
+
+export interface PushFailure {
+  // uid the device is registered to; the token itself is not returned to callers
+  uid?: string;
+  code: string;
+  pruned: boolean;
+}
+
+export interface PushBatchReport {
+  batch: number;
+  tokenCount: number;
+  successCount: number;
+  failureCount: number;
+  failures: PushFailure[];
+}
+
+// FCM accepts at most 500 tokens per multicast
+export const MAX_TOKENS_PER_BATCH = 500;
+
+// Error codes meaning the token will never work again
+const DEAD_TOKEN_ERRORS = [
+  'messaging/registration-token-not-registered',
+  'messaging/invalid-registration-token',
+  'messaging/invalid-argument',
+];
+
+export const isDeadTokenError = (code?: string) => !!code && DEAD_TOKEN_ERRORS.includes(code);
+
+// Maps each registered FCM token to the uid of its device's user
+export type DeviceTokens = Map<string, string | undefined>;
+
+const deviceTokensExceptSender = (
+  devicesSnapshot: admin.firestore.QuerySnapshot,
+  senderToken?: string,
+  senderUid?: string,
+): DeviceTokens => {
+  const tokens: DeviceTokens = new Map();
+
+  devicesSnapshot.forEach((doc) => {
+    const device = doc.data();
+    if (doc.id === senderToken || (senderUid && device.uid === senderUid)) {
+      return;
+    }
+    tokens.set(doc.id, device.uid);
+  });
+
+  return tokens;
+};
+
+// Get every registered device's FCM token except the sender's
+export const collectDeviceTokens = async (senderToken?: string, senderUid?: string): Promise<DeviceTokens> => {
+  const devicesSnapshot = await admin.firestore().collection(DEVICES_COLLECTION).get();
+  return deviceTokensExceptSender(devicesSnapshot, senderToken, senderUid);
+};
+
+// Get the tokens of the devices whose signed-in user is in the segment
+export const collectSegmentTokens = async (
+  segment: UserSegment,
+  senderToken?: string,
+  senderUid?: string,
+): Promise<DeviceTokens> => {
+  const deviceTokens = await collectDeviceTokens(senderToken, senderUid);
+  const uids = [...new Set([...deviceTokens.values()].filter((uid): uid is string => !!uid))];
+
+  // Email and role claim of each device's user
+  const accounts = new Map<string, { email?: string; customClaims?: { [key: string]: any } }>();
+  for (const uidChunk of chunk(uids, 100)) {
+    const result = await admin.auth().getUsers(uidChunk.map((uid) => ({ uid })));
+    result.users.forEach((account) => accounts.set(account.uid, account));
+  }
+
+  // Ages come from the `users` records, matched by email
+  const ages = new Map<string, number>();
+  if (segment.minAge !== undefined || segment.maxAge !== undefined) {
+    const usersSnapshot = await admin.firestore().collection('users').get();
+    usersSnapshot.forEach((doc) => {
+      const user = doc.data();
+      const age = parseAge(user.age);
+      if (user.email && !user.deletedAt && age !== null) {
+        ages.set(user.email.toLowerCase(), age);
+      }
+    });
+  }
+
+  const segmentTokens: DeviceTokens = new Map();
+  deviceTokens.forEach((uid, token) => {
+    const account = uid ? accounts.get(uid) : undefined;
+    if (!account) {
+      return;
+    }
+    const member = {
+      email: account.email,
+      role: getRole(account.customClaims),
+      age: account.email ? ages.get(account.email.toLowerCase()) : undefined,
+    };
+    if (matchesSegment(member, segment)) {
+      segmentTokens.set(token, uid);
+    }
+  });
+
+  return segmentTokens;
+};
+
+// Drop devices whose user turned off push notifications for this action or
+// is in their quiet hours
+export const filterTokensByPreferences = async (
+  deviceTokens: DeviceTokens,
+  action: string,
+  now: Date = new Date(),
+): Promise<DeviceTokens> => {
+  const uids = [...deviceTokens.values()].filter((uid): uid is string => !!uid);
+  const preferences = await loadPreferences(uids);
+  const allowed: DeviceTokens = new Map();
+
+  deviceTokens.forEach((uid, token) => {
+    const userPreferences = uid ? preferences.get(uid) : undefined;
+    if (!userPreferences || shouldNotify(userPreferences, 'push', action, now)) {
+      allowed.set(token, uid);
+    }
+  });
+
+  return allowed;
+};
+
+// Remove dead tokens from the device registry
+export const pruneDeviceTokens = async (deadTokens: string[]): Promise<number> => {
+  const db = admin.firestore();
+
+  for (const tokens of chunk(deadTokens, MAX_TOKENS_PER_BATCH)) {
+    const batch = db.batch();
+    tokens.forEach((token) => batch.delete(db.collection(DEVICES_COLLECTION).doc(token)));
+    await batch.commit();
+  }
+
+  return deadTokens.length;
+};
+
+// Create notification message
+export const buildPushMessage = (action: string, userData: any) => {
+  let title = '';
+  let body = '';
+
+  if (isBulkChange(userData)) {
+    ({ title, body } = describeBulkChange(action, userData));
+  } else switch (action) {
+    case 'CREATE':
+      title = 'New User Added';
+      body = `${userData.name} has been added to the system`;
+      break;
+    case 'UPDATE': {
+      title = 'User Updated';
+      const changes = changesForUpdate(action, userData);
+      body = changes?.length
+        ? `${userData.name}'s information has been updated: ${summarizeChanges(changes)}`
+        : `${userData.name}'s information has been updated`;
+      break;
+    }
+    case 'DELETE':
+      title = 'User Deleted';
+      body = `${userData.deletedUser.name} has been removed from the system`;
+      break;
+    default:
+      title = 'System Update';
+      body = 'A change has been made to the user database';
+  }
+
+  return {
+    notification: {
+      title,
+      body,
+    },
+    data: {
+      action,
+      userId: userData.id || '',
+      timestamp: Date.now().toString(),
+    },
+  };
+};
+
+// Send to the given devices in batches of 500 and drop tokens FCM reports
+// as no longer valid
+export const sendToDevices = async (
+  deviceTokens: DeviceTokens,
+  message: ReturnType<typeof buildPushMessage>,
+): Promise<FanOutResult> => {
+  const batches: PushBatchReport[] = [];
+  const deadTokens: string[] = [];
+
+  for (const tokens of chunk([...deviceTokens.keys()], MAX_TOKENS_PER_BATCH)) {
+    const response = await admin.messaging().sendEachForMulticast({ ...message, tokens });
+    const failures: PushFailure[] = [];
+
+    response.responses.forEach((result, index) => {
+      if (result.success) {
+        return;
+      }
+      const token = tokens[index];
+      const code = result.error?.code ?? 'unknown';
+      const pruned = isDeadTokenError(code);
+      if (pruned) {
+        deadTokens.push(token);
+      }
+      failures.push({ uid: deviceTokens.get(token), code, pruned });
+    });
+
+    batches.push({
+      batch: batches.length + 1,
+      tokenCount: tokens.length,
+      successCount: response.successCount,
+      failureCount: response.failureCount,
+      failures,
+    });
+  }
+
+  const prunedTokenCount = deadTokens.length > 0 ? await pruneDeviceTokens(deadTokens) : 0;
+  const successCount = batches.reduce((sum, batch) => sum + batch.successCount, 0);
+  const failureCount = batches.reduce((sum, batch) => sum + batch.failureCount, 0);
+
+  console.log(`Sent push notifications in ${batches.length} batch(es):`, successCount, 'succeeded,', failureCount, 'failed');
+  if (prunedTokenCount > 0) {
+    console.log('Removed dead FCM tokens from the device registry:', prunedTokenCount);
+  }
+
+  return {
+    success: true,
+    successCount,
+    failureCount,
+    batches,
+    prunedTokenCount,
+  };
+};
+
+// Get the tokens of the registered devices subscribed to a topic. The app
+// records its subscriptions in the device registry, so topic pushes are sent
+// to those devices rather than to the FCM topic, which would skip the
+// recipients' preferences and quiet hours.
+export const collectTopicTokens = async (
+  topic: NotificationTopic,
+  senderToken?: string,
+  senderUid?: string,
+): Promise<DeviceTokens> => {
+  const devicesSnapshot = await admin.firestore()
+    .collection(DEVICES_COLLECTION)
+    .where('topics', 'array-contains', topic)
+    .get();
+  return deviceTokensExceptSender(devicesSnapshot, senderToken, senderUid);
+};
+
+const NOTHING_CHANGED: FanOutResult = { success: false, message: 'Nothing user-visible changed' };
+
+// An UPDATE that only touched bookkeeping fields is not worth a notification
+export const hasVisibleChanges = (action: string, userData: any) =>
+  changesForUpdate(action, userData)?.length !== 0;
+
+// Send a user change to a topic, a segment of users or every other
+// registered device
+export const fanOutPushNotification = async ({
+  action,
+  userData,
+  senderToken,
+  senderUid,
+  target = ALL_DEVICES,
+}: FanOutRequest): Promise<FanOutResult> => {
+  if (!hasVisibleChanges(action, userData)) {
+    return NOTHING_CHANGED;
+  }
+
+  const message = buildPushMessage(action, userData);
+
+  let targetTokens: DeviceTokens;
+  switch (target.type) {
+    case 'topic':
+      targetTokens = await collectTopicTokens(target.topic, senderToken, senderUid);
+      break;
+    case 'segment':
+      targetTokens = await collectSegmentTokens(target.segment, senderToken, senderUid);
+      break;
+    default:
+      targetTokens = await collectDeviceTokens(senderToken, senderUid);
+  }
+  const deviceTokens = await filterTokensByPreferences(targetTokens, action);
+  const skippedByPreferences = targetTokens.size - deviceTokens.size;
+  const topic = target.type === 'topic' ? { topic: target.topic } : {};
+
+  if (deviceTokens.size === 0) {
+    return { success: false, message: 'No users to notify', skippedByPreferences, ...topic };
+  }
+
+  return { ...await sendToDevices(deviceTokens, message), skippedByPreferences, ...topic };
+};
+
+// Get every user's email address except the sender's and those of users in
+// the trash
+export const collectUserEmails = async (senderEmail?: string): Promise<string[]> => {
+  const usersSnapshot = await admin.firestore().collection('users').get();
+  const sender = senderEmail ? normalizeEmail(senderEmail) : undefined;
+  const emails = new Map<string, string>();
+
+  // Users that share an address (from before emails were unique) get one email
+  usersSnapshot.forEach((doc) => {
+    const user = doc.data();
+    const email = typeof user.email === 'string' ? normalizeEmail(user.email) : '';
+    if (email && !user.deletedAt && email !== sender && !emails.has(email)) {
+      emails.set(email, user.email.trim());
+    }
+  });
+
+  return [...emails.values()];
+};
+
+// Drop addresses whose user turned off email notifications for this action.
+// Addresses without a Firebase Auth account are kept.
+export const filterEmailsByPreferences = async (emails: string[], action: string): Promise<string[]> => {
+  const preferences = await loadPreferencesByEmail(emails);
+  return emails.filter((email) => {
+    const userPreferences = preferences.get(email.toLowerCase());
+    return !userPreferences || shouldNotify(userPreferences, 'email', action);
+  });
+};
+
+// Queue an email to every other user about a user change
+export const fanOutEmailNotification = async ({
+  action,
+  userData,
+  senderEmail,
+}: EmailFanOutRequest): Promise<FanOutResult> => {
+  if (!hasVisibleChanges(action, userData)) {
+    return NOTHING_CHANGED;
+  }
+
+  const recipients = await collectUserEmails(senderEmail);
+  const emails = await filterEmailsByPreferences(recipients, action);
+  const skippedByPreferences = recipients.length - emails.length;
+
+  if (emails.length === 0) {
+    return { success: false, message: 'No users to email', skippedByPreferences };
+  }
+
+  const { subject, html, text } = await renderEmail(action, userData);
+
+  const queuedCount = await enqueueEmails(emails, { subject, html, text }, action);
+  console.log('Queued emails:', queuedCount);
+
+  return {
+    success: true,
+    queuedCount,
+    skippedByPreferences,
+  };
+};
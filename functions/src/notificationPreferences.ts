@@ -0,0 +1,55 @@
+import * as admin from 'firebase-admin';
+import {
+  NotificationPreferences,
+  PREFERENCES_COLLECTION,
+  withDefaults,
+} from './shared/preferences';
+import { chunk } from './utils';
+
+// Server-side reads of `notificationPreferences/{uid}` for the fan-out. Users
+// without a document get the defaults (everything on).
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Preferences for each uid
+export const loadPreferences = async (uids: string[]): Promise<Map<string, NotificationPreferences>> => {
+  const db = admin.firestore();
+  const preferences = new Map<string, NotificationPreferences>();
+  const uniqueUids = [...new Set(uids)];
+
+  for (const uidChunk of chunk(uniqueUids, 100)) {
+    const docs = await db.getAll(...uidChunk.map((uid) => db.collection(PREFERENCES_COLLECTION).doc(uid)));
+    docs.forEach((doc) => preferences.set(doc.id, withDefaults(doc.data())));
+  }
+
+  return preferences;
+};
+
+// Preferences for each email address (lower-cased) that belongs to a
+// Firebase Auth account; addresses without an account are left out
+export const loadPreferencesByEmail = async (emails: string[]): Promise<Map<string, NotificationPreferences>> => {
+  const uidsByEmail = new Map<string, string>();
+
+  // getUsers rejects the whole lookup if any address is malformed
+  const validEmails = emails.filter((email) => EMAIL_PATTERN.test(email));
+
+  for (const emailChunk of chunk([...new Set(validEmails)], 100)) {
+    const result = await admin.auth().getUsers(emailChunk.map((email) => ({ email })));
+    result.users.forEach((account) => {
+      if (account.email) {
+        uidsByEmail.set(account.email.toLowerCase(), account.uid);
+      }
+    });
+  }
+
+  const preferences = await loadPreferences([...uidsByEmail.values()]);
+  const byEmail = new Map<string, NotificationPreferences>();
+  uidsByEmail.forEach((uid, email) => {
+    const userPreferences = preferences.get(uid);
+    if (userPreferences) {
+      byEmail.set(email, userPreferences);
+    }
+  });
+
+  return byEmail;
+};
@@ -0,0 +1,38 @@
+// Audit trail of `users` writes, shared by Cloud Functions (the onUserChange
+// trigger appends entries) and the app (the audit history view reads them).
+// Entries are immutable: clients can only read them.
+
+export const AUDIT_LOG_COLLECTION = 'auditLog';
+
+// TRASH and RESTORE move a user in and out of the trash; DELETE removes it
+// for good
+export type AuditAction = 'CREATE' | 'UPDATE' | 'TRASH' | 'RESTORE' | 'DELETE';
+
+export const AUDIT_ACTIONS: AuditAction[] = ['CREATE', 'UPDATE', 'TRASH', 'RESTORE', 'DELETE'];
+
+// Entries per page in the history view
+export const AUDIT_PAGE_SIZE = 20;
+
+export interface AuditEntry {
+  // Document id of the user that changed
+  userId: string;
+  action: AuditAction;
+  // Firebase Auth uid of whoever made the change, SERVER_ACTOR for Cloud
+  // Functions; null when unknown (deletes)
+  actorUid: string | null;
+  // Device the change was made on, e.g. 'android 0.0.1'; null when unknown
+  device: string | null;
+  // When the write happened (Firestore Timestamp)
+  timestamp: any;
+  // The user document before and after the write; null when it did not exist
+  before: { [field: string]: any } | null;
+  after: { [field: string]: any } | null;
+}
+
+// `lastChangedBy` of writes Cloud Functions make to `users` (migrations,
+// duplicate merges); clients must record their own uid (firestore.rules)
+export const SERVER_ACTOR = 'server';
+
+// Describes the device a change is made on; stored on users as `lastChangedOn`
+export const describeDevice = (platform: string, appVersion: string) =>
+  `${platform} ${appVersion}`;
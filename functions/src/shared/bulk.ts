@@ -0,0 +1,65 @@
+// One notification for a change to many users at once (imports and the
+// app's bulk actions), shared by the app and Cloud Functions. It is sent as
+// the usual action (CREATE, UPDATE, DELETE), so notification preferences
+// apply, with a BulkChange as its `userData`.
+
+export interface BulkChange {
+  bulk: true;
+  count: number;
+  // The first few names, for the message
+  names: string[];
+}
+
+export const BULK_NAMES_SHOWN = 3;
+
+// Users per bulk action in the app: a batch holds at most 500 writes
+export const MAX_BULK_USERS = 100;
+
+// The app's bulk actions write every user and a `bulkChanges/{bulkId}`
+// document in one batch. The users' `lastChangeId`s mark them as part of the
+// bulk change, so onUserChange leaves the announcement to onBulkChange.
+export const BULK_CHANGES_COLLECTION = 'bulkChanges';
+
+const BULK_CHANGE_ID_PREFIX = 'bulk_';
+
+export const bulkLastChangeId = (bulkId: string, userId: string) => `${BULK_CHANGE_ID_PREFIX}${bulkId}_${userId}`;
+
+export const isBulkLastChangeId = (lastChangeId: unknown): boolean =>
+  typeof lastChangeId === 'string' && lastChangeId.startsWith(BULK_CHANGE_ID_PREFIX);
+
+// The `bulkChanges` document
+export interface BulkChangeRecord {
+  action: 'UPDATE' | 'DELETE';
+  // Names of the users, in the order of `userIds`
+  names: string[];
+  userIds: string[];
+  lastChangedBy: string;
+  createdAt: any;
+}
+
+export const bulkChange = (names: string[]): BulkChange => ({
+  bulk: true,
+  count: names.length,
+  names: names.slice(0, BULK_NAMES_SHOWN),
+});
+
+export const isBulkChange = (userData: any): userData is BulkChange => userData?.bulk === true;
+
+const VERBS: { [action: string]: string } = {
+  CREATE: 'added',
+  UPDATE: 'updated',
+  DELETE: 'removed',
+};
+
+// "5 users removed" and "Alice, Bob, Carol and 2 more have been removed"
+export const describeBulkChange = (action: string, change: BulkChange) => {
+  const verb = VERBS[action] ?? 'changed';
+  const others = change.count - change.names.length;
+  const names = others > 0
+    ? `${change.names.join(', ')} and ${others} more`
+    : change.names.join(', ').replace(/, ([^,]*)$/, ' and $1');
+  return {
+    title: `${change.count} ${change.count === 1 ? 'user' : 'users'} ${verb}`,
+    body: `${names} ${change.count === 1 ? 'has' : 'have'} been ${verb}`,
+  };
+};
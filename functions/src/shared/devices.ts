@@ -0,0 +1,21 @@
+// Device token registry shared by the app (src/devices/DeviceRegistry.ts) and
+// Cloud Functions. Each signed-in device has one `devices/{token}` document,
+// so a user can receive push notifications on several devices.
+
+import { NotificationTopic } from './targeting';
+
+export const DEVICES_COLLECTION = 'devices';
+
+export interface DeviceRecord {
+  // FCM registration token; also the document id
+  token: string;
+  // Firebase Auth uid of the user signed in on the device
+  uid: string;
+  platform: string;
+  appVersion: string;
+  // Updated every time the app registers the token
+  lastSeen?: any;
+  // Topics the device is subscribed to; topic pushes go to the devices that
+  // list the topic (see collectTopicTokens in notificationFanout.ts)
+  topics?: NotificationTopic[];
+}
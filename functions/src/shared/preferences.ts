@@ -0,0 +1,147 @@
+// Per-user notification preferences shared by the app (settings view and
+// NotificationService) and Cloud Functions (push and email fan-out). Stored in
+// `notificationPreferences/{uid}`, keyed by Firebase Auth uid.
+
+export const PREFERENCES_COLLECTION = 'notificationPreferences';
+
+export type PreferenceChannel = 'push' | 'email' | 'system';
+export type PreferenceEvent = 'CREATE' | 'UPDATE' | 'DELETE';
+
+export const PREFERENCE_CHANNELS: PreferenceChannel[] = ['push', 'email', 'system'];
+export const PREFERENCE_EVENTS: PreferenceEvent[] = ['CREATE', 'UPDATE', 'DELETE'];
+
+// 'off' emails every change as it happens; 'daily'/'weekly' replace those
+// emails with one scheduled summary
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+export const DIGEST_FREQUENCIES: DigestFrequency[] = ['off', 'daily', 'weekly'];
+
+export interface QuietHours {
+  enabled: boolean;
+  // 'HH:MM', 24-hour clock; start after end spans midnight
+  start: string;
+  end: string;
+  // IANA time zone, e.g. 'Europe/Berlin'
+  timeZone: string;
+}
+
+export interface NotificationPreferences {
+  channels: Record<PreferenceChannel, boolean>;
+  events: Record<PreferenceEvent, boolean>;
+  quietHours: QuietHours;
+  digest: DigestFrequency;
+}
+
+// Everything on, no quiet hours; used for users who never saved preferences
+export const DEFAULT_PREFERENCES: NotificationPreferences = {
+  channels: { push: true, email: true, system: true },
+  events: { CREATE: true, UPDATE: true, DELETE: true },
+  quietHours: { enabled: false, start: '22:00', end: '07:00', timeZone: 'UTC' },
+  digest: 'off',
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const isValidTime = (value: unknown): value is string =>
+  typeof value === 'string' && TIME_PATTERN.test(value);
+
+export const isDigestFrequency = (value: unknown): value is DigestFrequency =>
+  DIGEST_FREQUENCIES.includes(value as DigestFrequency);
+
+export const isValidTimeZone = (value: unknown): value is string => {
+  if (typeof value !== 'string' || !value) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value }).format();
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Fill in anything missing from a stored (possibly partial or older) document
+export const withDefaults = (stored?: any): NotificationPreferences => ({
+  channels: { ...DEFAULT_PREFERENCES.channels, ...stored?.channels },
+  events: { ...DEFAULT_PREFERENCES.events, ...stored?.events },
+  quietHours: { ...DEFAULT_PREFERENCES.quietHours, ...stored?.quietHours },
+  digest: isDigestFrequency(stored?.digest) ? stored.digest : DEFAULT_PREFERENCES.digest,
+});
+
+// Describe what is wrong with edited preferences, or return undefined
+export const validatePreferences = (preferences: NotificationPreferences): string | undefined => {
+  const { quietHours } = preferences;
+  if (!isValidTime(quietHours.start) || !isValidTime(quietHours.end)) {
+    return 'Quiet hours must be times like 22:00';
+  }
+  if (!isValidTimeZone(quietHours.timeZone)) {
+    return 'Time zone must be an IANA name like Europe/Berlin';
+  }
+  if (!isDigestFrequency(preferences.digest)) {
+    return 'Digest must be off, daily or weekly';
+  }
+  return undefined;
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Minutes since midnight in the given time zone
+const localMinutes = (now: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return (part('hour') % 24) * 60 + part('minute');
+};
+
+export const isQuietTime = (quietHours: QuietHours, now: Date = new Date()): boolean => {
+  if (!quietHours.enabled || !isValidTime(quietHours.start) || !isValidTime(quietHours.end)
+    || !isValidTimeZone(quietHours.timeZone)) {
+    return false;
+  }
+
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const current = localMinutes(now, quietHours.timeZone);
+
+  if (start === end) {
+    return false;
+  }
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+};
+
+const isPreferenceEvent = (action: string): action is PreferenceEvent =>
+  PREFERENCE_EVENTS.includes(action as PreferenceEvent);
+
+// Whether a notification about `action` may be sent on `channel`. Actions other
+// than CREATE/UPDATE/DELETE (broadcasts) only check the channel. Quiet hours
+// hold back push and system notifications; emails are still sent. Users on a
+// digest get no per-change emails.
+export const shouldNotify = (
+  preferences: NotificationPreferences,
+  channel: PreferenceChannel,
+  action: string,
+  now: Date = new Date(),
+): boolean => {
+  if (!preferences.channels[channel]) {
+    return false;
+  }
+  if (isPreferenceEvent(action) && !preferences.events[action]) {
+    return false;
+  }
+  if (channel !== 'email' && isQuietTime(preferences.quietHours, now)) {
+    return false;
+  }
+  if (channel === 'email' && isPreferenceEvent(action) && preferences.digest !== 'off') {
+    return false;
+  }
+  return true;
+};
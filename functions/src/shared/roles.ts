@@ -0,0 +1,49 @@
+// Roles and permissions shared by the app (App.tsx) and Cloud Functions.
+// Roles are stored as the `role` custom claim on Firebase Auth users; keep
+// firestore.rules in sync with ROLE_PERMISSIONS.
+
+export type Role = 'admin' | 'editor' | 'viewer';
+
+export type Permission =
+  | 'users:create'
+  | 'users:update'
+  | 'users:delete'
+  | 'notifications:broadcast'
+  | 'roles:manage'
+  | 'users:migrate';
+
+export const ROLES: Role[] = ['admin', 'editor', 'viewer'];
+
+// Users without a role claim can only view the list
+export const DEFAULT_ROLE: Role = 'viewer';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  admin: ['users:create', 'users:update', 'users:delete', 'notifications:broadcast', 'roles:manage', 'users:migrate'],
+  // Editors may only update users they own (see firestore.rules)
+  editor: ['users:create', 'users:update'],
+  viewer: [],
+};
+
+export const isRole = (value: unknown): value is Role =>
+  ROLES.includes(value as Role);
+
+// Read the role from ID token claims
+export const getRole = (claims?: { [claim: string]: unknown } | null): Role =>
+  isRole(claims?.role) ? claims!.role : DEFAULT_ROLE;
+
+export const hasPermission = (role: Role, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role].includes(permission);
+
+// The permission needed to send notifications about a user change
+export const permissionForAction = (action: string): Permission => {
+  switch (action) {
+    case 'CREATE':
+      return 'users:create';
+    case 'UPDATE':
+      return 'users:update';
+    case 'DELETE':
+      return 'users:delete';
+    default:
+      return 'notifications:broadcast';
+  }
+};
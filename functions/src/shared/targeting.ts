@@ -0,0 +1,100 @@
+import { Role, isRole } from './roles';
+
+// Who a push notification is sent to. Shared by the app (NotificationService)
+// and the sendNotificationToAllUsers callable.
+
+export type NotificationTopic = 'user-changes' | 'admin-alerts';
+
+// Every signed-in device subscribes to `user-changes`; admins' devices also
+// subscribe to `admin-alerts`
+export const NOTIFICATION_TOPICS: NotificationTopic[] = ['user-changes', 'admin-alerts'];
+
+export const isNotificationTopic = (value: unknown): value is NotificationTopic =>
+  NOTIFICATION_TOPICS.includes(value as NotificationTopic);
+
+// Narrows the registered devices by their signed-in user. Email and role come
+// from the Firebase Auth account, age from the `users` record with the same
+// email. All given conditions must match.
+export interface UserSegment {
+  minAge?: number;
+  maxAge?: number;
+  // e.g. 'example.com'
+  emailDomain?: string;
+  role?: Role;
+}
+
+export type PushTarget =
+  | { type: 'all' }
+  | { type: 'topic'; topic: NotificationTopic }
+  | { type: 'segment'; segment: UserSegment };
+
+export const ALL_DEVICES: PushTarget = { type: 'all' };
+
+const isOptionalNumber = (value: unknown) =>
+  value === undefined || (typeof value === 'number' && Number.isFinite(value));
+
+// Check a target sent by a client; returns null when it is not valid
+export const parsePushTarget = (value: unknown): PushTarget | null => {
+  const target = value as { type?: unknown; topic?: unknown; segment?: unknown } | null;
+
+  switch (target?.type) {
+    case 'all':
+      return ALL_DEVICES;
+    case 'topic':
+      return isNotificationTopic(target.topic) ? { type: 'topic', topic: target.topic } : null;
+    case 'segment': {
+      const segment = target.segment as { [key: string]: unknown } | undefined;
+      if (
+        !segment
+        || !isOptionalNumber(segment.minAge)
+        || !isOptionalNumber(segment.maxAge)
+        || (segment.emailDomain !== undefined && (typeof segment.emailDomain !== 'string' || !segment.emailDomain))
+        || (segment.role !== undefined && !isRole(segment.role))
+      ) {
+        return null;
+      }
+      return {
+        type: 'segment',
+        segment: {
+          minAge: segment.minAge as number | undefined,
+          maxAge: segment.maxAge as number | undefined,
+          emailDomain: segment.emailDomain as string | undefined,
+          role: segment.role as Role | undefined,
+        },
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+export interface SegmentMember {
+  email?: string;
+  role: Role;
+  // Undefined when the user has no `users` record
+  age?: number;
+}
+
+export const emailDomain = (email?: string) =>
+  email?.split('@')[1]?.toLowerCase();
+
+export const matchesSegment = (member: SegmentMember, segment: UserSegment): boolean => {
+  if (segment.role !== undefined && member.role !== segment.role) {
+    return false;
+  }
+  if (segment.emailDomain !== undefined && emailDomain(member.email) !== segment.emailDomain.toLowerCase()) {
+    return false;
+  }
+  if (segment.minAge !== undefined || segment.maxAge !== undefined) {
+    if (member.age === undefined) {
+      return false;
+    }
+    if (segment.minAge !== undefined && member.age < segment.minAge) {
+      return false;
+    }
+    if (segment.maxAge !== undefined && member.age > segment.maxAge) {
+      return false;
+    }
+  }
+  return true;
+};
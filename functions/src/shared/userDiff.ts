@@ -0,0 +1,85 @@
+// Field-level changes between two versions of a user, shared by the app
+// (banners and local notifications) and Cloud Functions (push and email).
+
+import { CustomFieldDefinition } from './userSchema';
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  // Display values; '—' when the field was empty or missing
+  before: string;
+  after: string;
+}
+
+// Bookkeeping fields that are never shown to people. Any other field,
+// including ones added later, is part of the diff.
+const HIDDEN_FIELDS = [
+  'id',
+  'createdAt',
+  'updatedAt',
+  'ownerUid',
+  'lastChangeId',
+  'lastChangedBy',
+  'lastChangedOn',
+  'deletedAt',
+  'searchKeywords',
+  'fcmToken',
+  'changeId',
+  'oldData',
+  'deletedUser',
+];
+
+const FIELD_LABELS: { [field: string]: string } = {
+  name: 'Name',
+  email: 'Email',
+  age: 'Age',
+};
+
+const EMPTY = '—';
+
+const labelFor = (field: string, labels: { [field: string]: string } = FIELD_LABELS) =>
+  labels[field] ?? field.charAt(0).toUpperCase() + field.slice(1).replace(/([a-z])([A-Z])/g, '$1 $2');
+
+// Custom field values (`customFields`) compare as fields of their own
+const flatten = ({ customFields, ...user }: { [field: string]: any }): { [field: string]: any } =>
+  customFields && typeof customFields === 'object' ? { ...customFields, ...user } : user;
+
+const display = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') {
+    return EMPTY;
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value).trim() || EMPTY;
+};
+
+// The user-visible fields that differ, in a stable order (known fields
+// first, then custom fields in the order they are defined)
+export const diffUser = (
+  before: { [field: string]: any } = {},
+  after: { [field: string]: any } = {},
+  customFields: CustomFieldDefinition[] = [],
+): FieldChange[] => {
+  const labels = { ...FIELD_LABELS, ...Object.fromEntries(customFields.map(({ key, label }) => [key, label])) };
+  const [old, current] = [flatten(before), flatten(after)];
+  const fields = [...new Set([...Object.keys(labels), ...Object.keys(old), ...Object.keys(current)])]
+    .filter((field) => !HIDDEN_FIELDS.includes(field));
+
+  return fields
+    .map((field) => ({ field, label: labelFor(field, labels), before: display(old[field]), after: display(current[field]) }))
+    .filter((change) => change.before !== change.after);
+};
+
+export const formatChange = (change: FieldChange) =>
+  `${change.label}: ${change.before} → ${change.after}`;
+
+// "Age: 30 → 31, Email: a@example.com → b@example.com"
+export const summarizeChanges = (changes: FieldChange[]) =>
+  changes.map(formatChange).join(', ');
+
+// The changes an UPDATE notification is about, computed from the previous
+// version sent along as `userData.oldData`. Undefined when it is missing.
+export const changesForUpdate = (
+  action: string,
+  userData: any,
+  customFields: CustomFieldDefinition[] = [],
+): FieldChange[] | undefined =>
+  action === 'UPDATE' && userData?.oldData ? diffUser(userData.oldData, userData, customFields) : undefined;
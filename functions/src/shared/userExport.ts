@@ -0,0 +1,38 @@
+// Export of users as CSV or JSON, shared by the app (UserExporter) and the
+// exportUsers HTTPS function (functions/src/userExport.ts).
+
+export type ExportFormat = 'csv' | 'json';
+
+// Columns (CSV) and keys (JSON) of an export, in this order. New columns go
+// at the end so existing spreadsheets keep working.
+export const EXPORT_COLUMNS = ['id', 'name', 'email', 'age', 'createdAt'] as const;
+
+export type ExportColumn = typeof EXPORT_COLUMNS[number];
+
+// Users left out of the export; the same filters as the app's list
+export interface ExportFilters {
+  // Prefix of the name, of a word of the name or of the email; any case
+  search?: string;
+  // Age range, inclusive
+  minAge?: number;
+  maxAge?: number;
+  // Created date range, inclusive
+  createdFrom?: Date;
+  createdTo?: Date;
+}
+
+// Query string for the exportUsers URL: `format` plus the filters that are set
+// (dates as ISO 8601)
+export const exportQueryString = (format: ExportFormat, filters: ExportFilters = {}): string => {
+  const params: [string, string][] = [['format', format]];
+  if (filters.search?.trim()) params.push(['search', filters.search.trim()]);
+  if (filters.minAge !== undefined) params.push(['minAge', String(filters.minAge)]);
+  if (filters.maxAge !== undefined) params.push(['maxAge', String(filters.maxAge)]);
+  if (filters.createdFrom) params.push(['createdFrom', filters.createdFrom.toISOString()]);
+  if (filters.createdTo) params.push(['createdTo', filters.createdTo.toISOString()]);
+  return params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&');
+};
+
+// "users-2026-10-19.csv"
+export const exportFileName = (format: ExportFormat, date = new Date()): string =>
+  `users-${date.toISOString().slice(0, 10)}.${format}`;
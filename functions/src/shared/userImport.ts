@@ -0,0 +1,44 @@
+// Bulk import of users from CSV or JSON, shared by the app (ImportView) and
+// the importUsers callable (functions/src/userImport.ts).
+
+export type ImportFormat = 'csv' | 'json';
+
+// The columns (CSV) or keys (JSON) every import has. Custom fields defined
+// in `schema/users` may be added, named by their key.
+export const IMPORT_FIELDS = ['name', 'email', 'age'];
+
+// Rows per import; larger files have to be split
+export const MAX_IMPORT_ROWS = 5000;
+
+export interface ImportRowError {
+  // Position of the record from 1: in a CSV file the header is record 1 and
+  // blank lines are not counted; in JSON, the position in the array
+  row: number;
+  // Missing when the problem is the row as a whole
+  field?: string;
+  message: string;
+}
+
+export interface ImportDuplicate {
+  row: number;
+  email: string;
+  // An earlier row of the file has the same email...
+  duplicateOfRow?: number;
+  // ...or an existing user does
+  duplicateOfUserId?: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  // Records in the file
+  total: number;
+  // Records without errors or duplicates: imported unless this is a dry run
+  valid: number;
+  imported: number;
+  errors: ImportRowError[];
+  duplicates: ImportDuplicate[];
+}
+
+// JSON when the text looks like a JSON array, CSV otherwise
+export const detectImportFormat = (content: string): ImportFormat =>
+  content.trim().startsWith('[') ? 'json' : 'csv';
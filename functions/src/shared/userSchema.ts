@@ -0,0 +1,283 @@
+// The fields of a `users` document and their constraints, shared by the app
+// (form validation) and Cloud Functions (onUserChange, migrations).
+// firestore.rules enforces the same constraints on client writes; keep its
+// validUser() in sync with USER_SCHEMA and USER_DOCUMENT_FIELDS.
+//
+// Besides name, email and age, users have the custom fields defined in the
+// `schema/users` document (see CustomFieldDefinition), stored in their
+// `customFields` map.
+
+export interface UserFields {
+  name: string;
+  email: string;
+  // Whole years. Documents written before this was a number hold a string;
+  // see migrateUserAges in functions/src/migrations.ts
+  age: number;
+}
+
+// Errors per field: name, email, age and the keys of custom fields
+export type UserValidationErrors = Partial<Record<keyof UserFields, string>> & { [field: string]: string | undefined };
+
+// Emails cannot contain '/' as they double as emailIndex document ids
+export const USER_SCHEMA = {
+  name: { minLength: 2, maxLength: 50, pattern: /^[a-zA-Z ]+$/ },
+  email: { pattern: /^[^\s@/]+@[^\s@/]+\.[^\s@/]+$/ },
+  age: { min: 1, max: 120 },
+};
+
+// Each email belongs to at most one user: `emailIndex/{normalized email}`
+// holds `{ userId }` and is written in the same transaction as the user.
+// firestore.rules only accept user writes that hold their reservation.
+export const EMAIL_INDEX_COLLECTION = 'emailIndex';
+
+export const EMAIL_IN_USE_MESSAGE = 'This email is already used by another user';
+
+// Emails are unique regardless of case and surrounding spaces
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Every field a client may write to users/{userId}: the user's own fields
+// and the bookkeeping the app stamps on them
+export const USER_DOCUMENT_FIELDS = [
+  'name',
+  'email',
+  'age',
+  'createdAt',
+  'ownerUid',
+  'lastChangeId',
+  'lastChangedBy',
+  'lastChangedOn',
+  'deletedAt',
+  // Derived from name and email; see userSearch.ts
+  'searchKeywords',
+  // Values of the custom fields, keyed by CustomFieldDefinition.key
+  'customFields',
+];
+
+// `schema/users`: `{ fields: CustomFieldDefinition[] }`, edited by admins.
+// Fields show up in the app's form and user cards and in emails in the
+// order they are defined.
+export const SCHEMA_COLLECTION = 'schema';
+export const USER_PROFILE_SCHEMA_ID = 'users';
+
+// firestore.rules accept at most this many values in `customFields`
+export const MAX_CUSTOM_FIELDS = 20;
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select';
+
+export interface CustomFieldDefinition {
+  // Key in the user's `customFields`: letters and digits, starting with a
+  // letter, and not one of USER_DOCUMENT_FIELDS
+  key: string;
+  label: string;
+  // Stored as a string (text, select), a number, or a 'YYYY-MM-DD' string (date)
+  type: CustomFieldType;
+  required?: boolean;
+  // text: length range and a regular expression the value must match, with
+  // the message shown when it does not
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  patternMessage?: string;
+  // number: range, inclusive
+  min?: number;
+  max?: number;
+  // select: the allowed values
+  options?: string[];
+}
+
+export type CustomFieldValue = string | number;
+
+export type CustomFieldValues = { [key: string]: CustomFieldValue };
+
+const CUSTOM_FIELD_TYPES: CustomFieldType[] = ['text', 'number', 'date', 'select'];
+
+const CUSTOM_FIELD_KEY_PATTERN = /^[a-zA-Z][a-zA-Z0-9]*$/;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isValidPattern = (pattern: string) => {
+  try {
+    return RegExp(pattern) instanceof RegExp;
+  } catch {
+    return false;
+  }
+};
+
+const optionalNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && isFinite(value) ? value : undefined;
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+// The definitions in a `schema/users` document. Definitions that cannot be
+// used (unknown type, bad or repeated key, unreadable pattern, select
+// without options) are left out rather than failing the whole schema.
+export const parseCustomFields = (data: unknown): CustomFieldDefinition[] => {
+  const fields = (data as { fields?: unknown } | null | undefined)?.fields;
+  if (!Array.isArray(fields)) return [];
+
+  const definitions: CustomFieldDefinition[] = [];
+  for (const field of fields) {
+    if (!field || typeof field !== 'object') continue;
+    const { key, label, type, required, minLength, maxLength, pattern, patternMessage, min, max, options } = field;
+    if (typeof key !== 'string' || !CUSTOM_FIELD_KEY_PATTERN.test(key) || USER_DOCUMENT_FIELDS.includes(key)) continue;
+    if (definitions.some((definition) => definition.key === key)) continue;
+    if (!CUSTOM_FIELD_TYPES.includes(type)) continue;
+    if (pattern !== undefined && (typeof pattern !== 'string' || !isValidPattern(pattern))) continue;
+    const choices = Array.isArray(options) ? options.filter((option): option is string => typeof option === 'string') : [];
+    if (type === 'select' && choices.length === 0) continue;
+
+    definitions.push({
+      key,
+      label: typeof label === 'string' && label.trim() ? label.trim() : key,
+      type,
+      required: required === true,
+      ...(type === 'text' && {
+        minLength: optionalNumber(minLength),
+        maxLength: optionalNumber(maxLength),
+        pattern: optionalString(pattern),
+        patternMessage: optionalString(patternMessage),
+      }),
+      ...(type === 'number' && { min: optionalNumber(min), max: optionalNumber(max) }),
+      ...(type === 'select' && { options: choices }),
+    });
+    if (definitions.length === MAX_CUSTOM_FIELDS) break;
+  }
+  return definitions;
+};
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'string' && !value.trim());
+
+// The value to store for a stored value or typed text ('42', ' Sales ');
+// undefined when it is empty or cannot be read as the field's type
+export const parseCustomFieldValue = (definition: CustomFieldDefinition, value: unknown): CustomFieldValue | undefined => {
+  if (isEmpty(value)) return undefined;
+  switch (definition.type) {
+    case 'number': {
+      const number = typeof value === 'string' ? Number(value.trim()) : value;
+      return typeof number === 'number' && isFinite(number) ? number : undefined;
+    }
+    case 'date': {
+      // Any date that round-trips, so 2026-02-30 is rejected
+      const text = typeof value === 'string' ? value.trim() : '';
+      const date = new Date(`${text}T00:00:00Z`);
+      return DATE_PATTERN.test(text) && !isNaN(date.getTime()) && date.toISOString().startsWith(text) ? text : undefined;
+    }
+    default:
+      return typeof value === 'string' ? value.trim() : undefined;
+  }
+};
+
+export const validateCustomField = (definition: CustomFieldDefinition, value: unknown): string | undefined => {
+  const { label } = definition;
+  if (isEmpty(value)) return definition.required ? `${label} is required` : undefined;
+
+  const parsed = parseCustomFieldValue(definition, value);
+  switch (definition.type) {
+    case 'number': {
+      if (typeof parsed !== 'number') return `${label} must be a number`;
+      const { min, max } = definition;
+      if (min !== undefined && max !== undefined && (parsed < min || parsed > max)) {
+        return `${label} must be between ${min} and ${max}`;
+      }
+      if (min !== undefined && parsed < min) return `${label} must be at least ${min}`;
+      if (max !== undefined && parsed > max) return `${label} must be at most ${max}`;
+      return undefined;
+    }
+    case 'date':
+      return parsed === undefined ? `${label} must be a date (YYYY-MM-DD)` : undefined;
+    case 'select':
+      return definition.options?.includes(parsed as string) ? undefined : `${label} must be one of ${definition.options?.join(', ')}`;
+    default: {
+      if (typeof parsed !== 'string') return `${label} must be text`;
+      const { minLength, maxLength, pattern, patternMessage } = definition;
+      if (minLength !== undefined && parsed.length < minLength) return `${label} must be at least ${minLength} characters`;
+      if (maxLength !== undefined && parsed.length > maxLength) return `${label} must be less than ${maxLength} characters`;
+      if (pattern && !new RegExp(pattern).test(parsed)) return patternMessage ?? `${label} is not valid`;
+      return undefined;
+    }
+  }
+};
+
+// Text to show or edit for a stored value; empty when there is none
+export const formatCustomFieldValue = (definition: CustomFieldDefinition, value: unknown): string =>
+  isEmpty(value) ? '' : String(parseCustomFieldValue(definition, value) ?? value);
+
+// The `customFields` to store from the form's text: `previous` (values of
+// fields no longer defined are kept) with the defined fields set, and
+// removed when left empty
+export const customFieldValues = (
+  definitions: CustomFieldDefinition[],
+  input: { [key: string]: unknown },
+  previous: CustomFieldValues = {},
+): CustomFieldValues => {
+  const values = { ...previous };
+  definitions.forEach((definition) => {
+    const value = parseCustomFieldValue(definition, input[definition.key]);
+    if (value === undefined) {
+      delete values[definition.key];
+    } else {
+      values[definition.key] = value;
+    }
+  });
+  return values;
+};
+
+export const validateName = (name: unknown): string | undefined => {
+  if (typeof name !== 'string' || !name.trim()) return 'Name is required';
+  const { minLength, maxLength, pattern } = USER_SCHEMA.name;
+  if (name.trim().length < minLength) return `Name must be at least ${minLength} characters`;
+  if (name.trim().length > maxLength) return `Name must be less than ${maxLength} characters`;
+  if (!pattern.test(name.trim())) return 'Name can only contain letters and spaces';
+  return undefined;
+};
+
+export const validateEmail = (email: unknown): string | undefined => {
+  if (typeof email !== 'string' || !email.trim()) return 'Email is required';
+  if (!USER_SCHEMA.email.pattern.test(email.trim())) return 'Please enter a valid email address';
+  return undefined;
+};
+
+// Age in whole years from a stored number or typed text ('30'); null when
+// it is not one
+export const parseAge = (age: unknown): number | null => {
+  if (typeof age === 'number') return Number.isInteger(age) ? age : null;
+  if (typeof age === 'string' && /^\d+$/.test(age.trim())) return Number(age.trim());
+  return null;
+};
+
+export const validateAge = (age: unknown): string | undefined => {
+  if (age === undefined || age === null || (typeof age === 'string' && !age.trim())) return 'Age is required';
+  const years = parseAge(age);
+  if (years === null) return 'Age must be a whole number';
+  const { min, max } = USER_SCHEMA.age;
+  if (years < min || years > max) return `Age must be between ${min} and ${max}`;
+  return undefined;
+};
+
+// Errors per field; empty when the user is valid. Custom fields are read
+// from `data.customFields` and their errors keyed by the field's key.
+export const validateUser = (
+  data: { [field: string]: unknown },
+  customFields: CustomFieldDefinition[] = [],
+): UserValidationErrors => {
+  const errors: UserValidationErrors = {};
+  const nameError = validateName(data.name);
+  const emailError = validateEmail(data.email);
+  const ageError = validateAge(data.age);
+  if (nameError) errors.name = nameError;
+  if (emailError) errors.email = emailError;
+  if (ageError) errors.age = ageError;
+
+  const values = (data.customFields ?? {}) as { [key: string]: unknown };
+  customFields.forEach((definition) => {
+    const error = validateCustomField(definition, values[definition.key]);
+    if (error) errors[definition.key] = error;
+  });
+  return errors;
+};
+
+// Fields the schema does not know about
+export const unknownFields = (data: { [field: string]: unknown }): string[] =>
+  Object.keys(data).filter((field) => !USER_DOCUMENT_FIELDS.includes(field));
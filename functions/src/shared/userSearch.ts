@@ -0,0 +1,38 @@
+// Prefix search over users, shared by the app (repositories) and Cloud
+// Functions (migrations). Firestore has no prefix or case-insensitive
+// matching, so every user stores `searchKeywords`: the lowercase prefixes of
+// its name, of each word of the name and of its email. A search is then one
+// `array-contains` filter, which combines with the list's other filters.
+
+// Longer search terms are matched on their first characters by Firestore and
+// checked in full by matchesSearch
+export const SEARCH_PREFIX_LENGTH = 20;
+
+export const normalizeSearch = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const prefixes = (text: string): string[] => {
+  const result: string[] = [];
+  for (let length = 1; length <= Math.min(text.length, SEARCH_PREFIX_LENGTH); length++) {
+    result.push(text.slice(0, length));
+  }
+  return result;
+};
+
+// Search terms that find a user; stored as `searchKeywords`
+export const searchKeywords = ({ name, email }: { name?: unknown; email?: unknown }): string[] => {
+  const fullName = typeof name === 'string' ? normalizeSearch(name) : '';
+  const address = typeof email === 'string' ? normalizeSearch(email) : '';
+  const words = fullName ? fullName.split(' ') : [];
+  return Array.from(new Set([fullName, ...words, address].flatMap(prefixes)));
+};
+
+// The keyword a search term is looked up by
+export const searchKeyword = (term: string) => normalizeSearch(term).slice(0, SEARCH_PREFIX_LENGTH);
+
+export const matchesSearch = (user: { name?: unknown; email?: unknown }, term: string): boolean => {
+  const search = normalizeSearch(term);
+  if (!search) return true;
+  const fullName = typeof user.name === 'string' ? normalizeSearch(user.name) : '';
+  const address = typeof user.email === 'string' ? normalizeSearch(user.email) : '';
+  return [fullName, ...fullName.split(' '), address].some((text) => text.startsWith(search));
+};
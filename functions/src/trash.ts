@@ -0,0 +1,50 @@
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { EMAIL_INDEX_COLLECTION, normalizeEmail } from './shared/userSchema';
+import { chunk } from './utils';
+
+// Users deleted in the app are moved to the trash by setting `deletedAt`.
+// They stay restorable for the retention period and are then purged here;
+// onUserChange sees each purge as a delete like any other.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+// Set with `firebase functions:config:set trash.retention_days="7"`
+export const getTrashRetentionDays = (): number => {
+  const days = Number(functions.config().trash?.retention_days);
+  return days > 0 ? days : DEFAULT_RETENTION_DAYS;
+};
+
+// Permanently delete users that have been in the trash for longer than the
+// retention period. Returns how many were deleted.
+export const purgeTrash = async (now: Date = new Date()): Promise<number> => {
+  const db = admin.firestore();
+  const cutoff = new Date(now.getTime() - getTrashRetentionDays() * DAY_MS);
+  const expired = await db.collection('users')
+    .where('deletedAt', '<=', admin.firestore.Timestamp.fromDate(cutoff))
+    .get();
+
+  // Each purge also releases the user's email reservation, unless another
+  // user has taken it over since
+  for (const group of chunk(expired.docs, 250)) {
+    const batch = db.batch();
+    const reservations = group
+      .filter((doc) => typeof doc.get('email') === 'string' && doc.get('email').trim())
+      .map((doc) => db.collection(EMAIL_INDEX_COLLECTION).doc(normalizeEmail(doc.get('email'))));
+    const held = reservations.length ? await db.getAll(...reservations) : [];
+    const holders = new Set(held.map((reservation) => `${reservation.id}/${reservation.get('userId')}`));
+
+    group.forEach((doc) => {
+      batch.delete(doc.ref);
+      const email = typeof doc.get('email') === 'string' ? normalizeEmail(doc.get('email')) : '';
+      if (email && holders.has(`${email}/${doc.id}`)) {
+        batch.delete(db.collection(EMAIL_INDEX_COLLECTION).doc(email));
+      }
+    });
+    await batch.commit();
+  }
+
+  return expired.size;
+};
@@ -0,0 +1,139 @@
+import * as admin from 'firebase-admin';
+import { formatCsvRow } from './csv';
+import { EXPORT_COLUMNS, ExportColumn, ExportFilters, ExportFormat } from './shared/userExport';
+import { parseAge } from './shared/userSchema';
+import { matchesSearch, searchKeyword } from './shared/userSearch';
+
+// Exports page through the users by document id, so every user is written
+// exactly once however long the export takes, and are written out page by
+// page instead of being held in memory. Trashed users are left out.
+
+// The request's parameters cannot be read
+export class ExportRequestError extends Error {}
+
+export interface ExportRequest {
+  format: ExportFormat;
+  filters: ExportFilters;
+}
+
+export type ExportRow = Record<ExportColumn, string | number | null>;
+
+const EXPORT_PAGE_SIZE = 500;
+
+const param = (query: { [name: string]: unknown }, name: string): string | undefined => {
+  const value = query[name];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+const ageParam = (query: { [name: string]: unknown }, name: string): number | undefined => {
+  const value = param(query, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const age = parseAge(value);
+  if (age === null) {
+    throw new ExportRequestError(`${name} must be a whole number`);
+  }
+  return age;
+};
+
+const dateParam = (query: { [name: string]: unknown }, name: string): Date | undefined => {
+  const value = param(query, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ExportRequestError(`${name} must be an ISO 8601 date`);
+  }
+  return date;
+};
+
+// The format and filters of an exportUsers request (see exportQueryString)
+export const parseExportRequest = (query: { [name: string]: unknown }): ExportRequest => {
+  const format = param(query, 'format') ?? 'csv';
+  if (format !== 'csv' && format !== 'json') {
+    throw new ExportRequestError('format must be "csv" or "json"');
+  }
+  return {
+    format,
+    filters: {
+      search: param(query, 'search'),
+      minAge: ageParam(query, 'minAge'),
+      maxAge: ageParam(query, 'maxAge'),
+      createdFrom: dateParam(query, 'createdFrom'),
+      createdTo: dateParam(query, 'createdTo'),
+    },
+  };
+};
+
+const createdAtDate = (createdAt: any): Date | null => {
+  if (typeof createdAt?.toDate === 'function') {
+    return createdAt.toDate();
+  }
+  return createdAt instanceof Date ? createdAt : null;
+};
+
+export const matchesExportFilters = (data: admin.firestore.DocumentData, filters: ExportFilters): boolean => {
+  if (data.deletedAt) return false;
+  if (filters.search && !matchesSearch(data, filters.search)) return false;
+  const age = parseAge(data.age);
+  if (filters.minAge !== undefined && !(age !== null && age >= filters.minAge)) return false;
+  if (filters.maxAge !== undefined && !(age !== null && age <= filters.maxAge)) return false;
+  const created = createdAtDate(data.createdAt);
+  if (filters.createdFrom && !(created && created >= filters.createdFrom)) return false;
+  if (filters.createdTo && !(created && created <= filters.createdTo)) return false;
+  return true;
+};
+
+// A user as exported; missing values are null
+export const exportRow = (id: string, data: admin.firestore.DocumentData): ExportRow => ({
+  id,
+  name: typeof data.name === 'string' ? data.name : null,
+  email: typeof data.email === 'string' ? data.email : null,
+  age: parseAge(data.age),
+  createdAt: createdAtDate(data.createdAt)?.toISOString() ?? null,
+});
+
+// Missing values are empty fields in CSV and null in JSON
+const formatRow = (format: ExportFormat, row: ExportRow, first: boolean): string =>
+  format === 'csv'
+    ? formatCsvRow(EXPORT_COLUMNS.map((column) => (row[column] === null ? '' : String(row[column]))))
+    : `${first ? '' : ','}\n${JSON.stringify(row)}`;
+
+// Writes the export in pieces to `write` and returns how many users it has
+export const streamUsersExport = async (
+  { format, filters }: ExportRequest,
+  write: (chunk: string) => void,
+): Promise<number> => {
+  const db = admin.firestore();
+  const users = db.collection('users');
+  // A search is narrowed down by Firestore and then checked in full
+  const keyword = filters.search ? searchKeyword(filters.search) : '';
+  const query = (keyword ? users.where('searchKeywords', 'array-contains', keyword) : users)
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .limit(EXPORT_PAGE_SIZE);
+
+  write(format === 'csv' ? formatCsvRow([...EXPORT_COLUMNS]) : '[');
+  let count = 0;
+  let last: admin.firestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    const snapshot = await (last ? query.startAfter(last) : query).get();
+    snapshot.docs
+      .filter((doc) => matchesExportFilters(doc.data(), filters))
+      .forEach((doc) => {
+        write(formatRow(format, exportRow(doc.id, doc.data()), count === 0));
+        count++;
+      });
+    if (snapshot.size < EXPORT_PAGE_SIZE) {
+      break;
+    }
+    last = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  if (format === 'json') {
+    write(count > 0 ? '\n]\n' : ']\n');
+  }
+  return count;
+};
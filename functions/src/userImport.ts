@@ -0,0 +1,274 @@
+import * as admin from 'firebase-admin';
+import { CsvFormatError, parseCsv } from './csv';
+import { loadCustomFields } from './customFields';
+import { claimNotificationEventInBatch } from './notificationEvents';
+import { fanOutEmailNotification, fanOutPushNotification } from './notificationFanout';
+import { bulkChange } from './shared/bulk';
+import {
+  IMPORT_FIELDS,
+  ImportDuplicate,
+  ImportFormat,
+  ImportReport,
+  ImportRowError,
+  MAX_IMPORT_ROWS,
+} from './shared/userImport';
+import {
+  CustomFieldDefinition,
+  EMAIL_INDEX_COLLECTION,
+  customFieldValues,
+  normalizeEmail,
+  parseAge,
+  validateUser,
+} from './shared/userSchema';
+import { searchKeywords } from './shared/userSearch';
+import { chunk } from './utils';
+
+// Imports check every record with the user schema and the custom fields in
+// `schema/users` (the same rules as the app's form) and report every
+// problem at once. A dry run stops there;
+// otherwise the valid records are written in batches, each user with its
+// email reservation, and one summary notification goes out for the lot.
+
+// The file cannot be read at all
+export class ImportFormatError extends Error {}
+
+export interface ImportRecord {
+  row: number;
+  fields: { [field: string]: unknown };
+  // Set when the record as a whole cannot be read
+  problem?: string;
+}
+
+export interface ImportOptions {
+  dryRun: boolean;
+  // Firebase Auth uid of the importer, who owns the new users
+  uid: string;
+  // Left out of the summary email
+  senderEmail?: string;
+}
+
+// Users per batch: each takes four writes (the user, its email reservation
+// and the claims for its notification events)
+const USERS_PER_BATCH = 100;
+
+// Records keep the custom fields' values under their keys, next to name,
+// email and age
+export const parseImportRecords = (
+  format: ImportFormat,
+  content: string,
+  customFields: CustomFieldDefinition[] = [],
+): ImportRecord[] => {
+  if (format === 'json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      throw new ImportFormatError(`The file is not valid JSON: ${(error as Error).message}`);
+    }
+    if (!Array.isArray(data)) {
+      throw new ImportFormatError('A JSON import must be an array of users');
+    }
+    return data.map((item, index) =>
+      item !== null && typeof item === 'object' && !Array.isArray(item)
+        ? { row: index + 1, fields: item }
+        : { row: index + 1, fields: {}, problem: 'Each user must be an object' });
+  }
+
+  let rows: string[][];
+  try {
+    rows = parseCsv(content);
+  } catch (error) {
+    if (error instanceof CsvFormatError) {
+      throw new ImportFormatError(error.message);
+    }
+    throw error;
+  }
+  if (rows.length === 0) {
+    return [];
+  }
+
+  // Headers are matched ignoring case and named as the field is
+  const fieldNames = [...IMPORT_FIELDS, ...customFields.map((definition) => definition.key)];
+  const headers = rows[0].map((column) => column.trim());
+  const columns = headers.map((header) =>
+    fieldNames.find((field) => field.toLowerCase() === header.toLowerCase()) ?? header);
+  const unknown = columns.filter((column) => !fieldNames.includes(column));
+  const missing = IMPORT_FIELDS.filter((field) => !columns.includes(field));
+  if (unknown.length > 0 || missing.length > 0) {
+    const optional = customFields.length > 0
+      ? ` and may add the custom fields ${customFields.map((definition) => definition.key).join(', ')}`
+      : '';
+    throw new ImportFormatError(`The header must name the columns ${IMPORT_FIELDS.join(', ')}${optional}; ` +
+      `found ${headers.join(', ')}`);
+  }
+
+  return rows.slice(1).map((cells, index) =>
+    cells.length === columns.length
+      ? { row: index + 2, fields: Object.fromEntries(columns.map((column, i) => [column, cells[i]])) }
+      : { row: index + 2, fields: {}, problem: `Expected ${columns.length} values, found ${cells.length}` });
+};
+
+// The record's custom field values, as validateUser reads them
+const customFieldInput = (fields: ImportRecord['fields'], customFields: CustomFieldDefinition[]) =>
+  Object.fromEntries(customFields
+    .filter((definition) => definition.key in fields)
+    .map((definition) => [definition.key, fields[definition.key]]));
+
+// Problems with a record on its own
+export const validateImportRecord = (
+  { row, fields, problem }: ImportRecord,
+  customFields: CustomFieldDefinition[] = [],
+): ImportRowError[] => {
+  if (problem) {
+    return [{ row, message: problem }];
+  }
+  const unknown = Object.keys(fields).filter((field) =>
+    !IMPORT_FIELDS.includes(field) && !customFields.some((definition) => definition.key === field));
+  const errors = validateUser({ ...fields, customFields: customFieldInput(fields, customFields) }, customFields);
+  return [
+    ...unknown.map((field) => ({ row, field, message: `Unknown field "${field}"` })),
+    ...Object.entries(errors).map(([field, message]) => ({ row, field, message: message! })),
+  ];
+};
+
+interface EmailReservations {
+  // Id of the user holding each email
+  holders: Map<string, string>;
+  // Reservations that exist but are free (their user is gone or has another
+  // email by now), with the time they were last written
+  stale: Map<string, admin.firestore.Timestamp>;
+}
+
+// Who holds each email, from the emailIndex reservations
+const findEmailHolders = async (emails: string[]): Promise<EmailReservations> => {
+  const db = admin.firestore();
+  const holders = new Map<string, string>();
+  const stale = new Map<string, admin.firestore.Timestamp>();
+
+  for (const group of chunk(emails, 100)) {
+    const reservations = await db.getAll(...group.map((email) => db.collection(EMAIL_INDEX_COLLECTION).doc(email)));
+    reservations
+      .filter((reservation) => reservation.exists)
+      .forEach((reservation) => stale.set(reservation.id, reservation.updateTime!));
+    const held = reservations.filter((reservation) => typeof reservation.get('userId') === 'string');
+    if (held.length === 0) {
+      continue;
+    }
+    const users = await db.getAll(...held.map((reservation) => db.collection('users').doc(reservation.get('userId'))));
+    held.forEach((reservation, i) => {
+      const email = users[i].get('email');
+      if (users[i].exists && typeof email === 'string' && normalizeEmail(email) === reservation.id) {
+        holders.set(reservation.id, users[i].id);
+        stale.delete(reservation.id);
+      }
+    });
+  }
+
+  return { holders, stale };
+};
+
+export const importUsers = async (
+  format: ImportFormat,
+  content: string,
+  { dryRun, uid, senderEmail }: ImportOptions,
+): Promise<ImportReport> => {
+  const customFields = await loadCustomFields();
+  const records = parseImportRecords(format, content, customFields);
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new ImportFormatError(`An import can have at most ${MAX_IMPORT_ROWS} users; this one has ${records.length}`);
+  }
+
+  const errors: ImportRowError[] = [];
+  const checked: ImportRecord[] = [];
+  records.forEach((record) => {
+    const problems = validateImportRecord(record, customFields);
+    errors.push(...problems);
+    if (problems.length === 0) {
+      checked.push(record);
+    }
+  });
+
+  const { holders, stale } = await findEmailHolders(
+    Array.from(new Set(checked.map((record) => normalizeEmail(String(record.fields.email))))),
+  );
+  const duplicates: ImportDuplicate[] = [];
+  const firstRowByEmail = new Map<string, number>();
+  const valid = checked.filter(({ row, fields }) => {
+    const email = normalizeEmail(String(fields.email));
+    const duplicateOfRow = firstRowByEmail.get(email);
+    const duplicateOfUserId = holders.get(email);
+    if (duplicateOfRow !== undefined || duplicateOfUserId !== undefined) {
+      duplicates.push({ row, email: String(fields.email).trim(), duplicateOfRow, duplicateOfUserId });
+      return false;
+    }
+    firstRowByEmail.set(email, row);
+    return true;
+  });
+
+  const report: ImportReport = {
+    dryRun,
+    total: records.length,
+    valid: valid.length,
+    imported: 0,
+    errors,
+    duplicates,
+  };
+  if (dryRun || valid.length === 0) {
+    return report;
+  }
+
+  const db = admin.firestore();
+  const importId = db.collection('users').doc().id;
+  const names: string[] = [];
+
+  for (const group of chunk(valid, USERS_PER_BATCH)) {
+    const batch = db.batch();
+    const groupNames: string[] = [];
+    group.forEach(({ fields }) => {
+      const userRef = db.collection('users').doc();
+      const name = String(fields.name).trim();
+      const email = String(fields.email).trim();
+      const lastChangeId = `${importId}_${userRef.id}`;
+
+      batch.create(userRef, {
+        name,
+        email,
+        age: parseAge(fields.age),
+        customFields: customFieldValues(customFields, customFieldInput(fields, customFields)),
+        searchKeywords: searchKeywords({ name, email }),
+        ownerUid: uid,
+        lastChangedBy: uid,
+        lastChangeId,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      // A stale reservation is taken over, unless it was written again since
+      // the check
+      const reservationRef = db.collection(EMAIL_INDEX_COLLECTION).doc(normalizeEmail(email));
+      const staleSince = stale.get(normalizeEmail(email));
+      if (staleSince) {
+        batch.update(reservationRef, { userId: userRef.id }, { lastUpdateTime: staleSince });
+      } else {
+        batch.create(reservationRef, { userId: userRef.id });
+      }
+      claimNotificationEventInBatch(batch, lastChangeId, { action: 'CREATE', userId: userRef.id, source: 'server' });
+      groupNames.push(name);
+    });
+
+    // A batch fails as a whole, e.g. when an email was taken since the check
+    try {
+      await batch.commit();
+      names.push(...groupNames);
+    } catch (error) {
+      console.error('Error writing import batch:', error);
+      group.forEach(({ row }) => errors.push({ row, message: 'Could not be saved; import this row again' }));
+    }
+  }
+
+  report.imported = names.length;
+  if (names.length > 0) {
+    const summary = bulkChange(names);
+    await fanOutPushNotification({ action: 'CREATE', userData: summary, senderUid: uid });
+    await fanOutEmailNotification({ action: 'CREATE', userData: summary, senderEmail: senderEmail || '' });
+  }
+  return report;
+};
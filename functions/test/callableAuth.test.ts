@@ -0,0 +1,119 @@
+import functionsTest from 'firebase-functions-test';
+
+// No emulator needed: the functions reject these calls before touching Firestore
+const testEnv = functionsTest({ projectId: 'demo-curdfirebasedemo' });
+let myFunctions: typeof import('../src');
+
+beforeAll(() => {
+  myFunctions = require('../src');
+});
+
+afterAll(() => {
+  testEnv.cleanup();
+});
+
+const call = { action: 'CREATE', userData: { id: 'alice', name: 'Alice' } };
+
+test('sendNotificationToAllUsers rejects unauthenticated calls', async () => {
+  await expect(testEnv.wrap(myFunctions.sendNotificationToAllUsers)(call)).rejects.toMatchObject({
+    code: 'unauthenticated',
+  });
+});
+
+test('sendEmailNotification rejects unauthenticated calls', async () => {
+  await expect(testEnv.wrap(myFunctions.sendEmailNotification)(call)).rejects.toMatchObject({
+    code: 'unauthenticated',
+  });
+});
+
+const asRole = (role?: string) => ({ auth: { uid: 'caller', token: role ? { role } : {} } });
+
+test('only admins can broadcast notifications', async () => {
+  const broadcast = { action: 'CUSTOM', userData: {} };
+
+  for (const role of [undefined, 'viewer', 'editor']) {
+    await expect(
+      testEnv.wrap(myFunctions.sendNotificationToAllUsers)(broadcast, asRole(role)),
+    ).rejects.toMatchObject({ code: 'permission-denied' });
+    await expect(
+      testEnv.wrap(myFunctions.sendEmailNotification)(broadcast, asRole(role)),
+    ).rejects.toMatchObject({ code: 'permission-denied' });
+  }
+});
+
+test('viewers cannot send user change notifications', async () => {
+  await expect(
+    testEnv.wrap(myFunctions.sendNotificationToAllUsers)({ ...call, changeId: 'c1' }, asRole('viewer')),
+  ).rejects.toMatchObject({ code: 'permission-denied' });
+});
+
+test('editors cannot send delete notifications', async () => {
+  const deleteCall = { action: 'DELETE', userData: { id: 'alice' }, changeId: 'alice_DELETE_c1' };
+  await expect(
+    testEnv.wrap(myFunctions.sendNotificationToAllUsers)(deleteCall, asRole('editor')),
+  ).rejects.toMatchObject({ code: 'permission-denied' });
+});
+
+test('only admins pick the devices a change is announced to', async () => {
+  const topicCall = { ...call, changeId: 'made-up', target: { type: 'topic', topic: 'user-changes' } };
+  await expect(
+    testEnv.wrap(myFunctions.sendNotificationToAllUsers)(topicCall, asRole('editor')),
+  ).rejects.toMatchObject({ code: 'permission-denied' });
+  await expect(
+    testEnv.wrap(myFunctions.sendNotificationToAllUsers)({ ...topicCall, target: { type: 'segment', segment: { role: 'admin' } } }, asRole('editor')),
+  ).rejects.toMatchObject({ code: 'permission-denied' });
+});
+
+test('sendNotificationToAllUsers rejects unknown targets', async () => {
+  for (const target of [{ type: 'topic', topic: 'everyone' }, { type: 'segment', segment: { minAge: '18' } }, 'all']) {
+    await expect(
+      testEnv.wrap(myFunctions.sendNotificationToAllUsers)({ action: 'CUSTOM', userData: {}, target }, asRole('admin')),
+    ).rejects.toMatchObject({ code: 'invalid-argument' });
+  }
+});
+
+test('only admins can assign roles', async () => {
+  await expect(
+    testEnv.wrap(myFunctions.setUserRole)({ uid: 'bob', role: 'admin' }, asRole('editor')),
+  ).rejects.toMatchObject({ code: 'permission-denied' });
+});
+
+test('setUserRole rejects unknown roles', async () => {
+  await expect(
+    testEnv.wrap(myFunctions.setUserRole)({ uid: 'bob', role: 'owner' }, asRole('admin')),
+  ).rejects.toMatchObject({ code: 'invalid-argument' });
+});
+
+test('only admins can migrate ages', async () => {
+  await expect(
+    testEnv.wrap(myFunctions.migrateUserAges)({}, asRole('editor')),
+  ).rejects.toMatchObject({ code: 'permission-denied' });
+});
+
+test('only admins can migrate search keywords', async () => {
+  await expect(
+    testEnv.wrap(myFunctions.migrateSearchKeywords)({}, asRole('editor')),
+  ).rejects.toMatchObject({ code: 'permission-denied' });
+});
+
+test('only admins can merge duplicate users', async () => {
+  await expect(
+    testEnv.wrap(myFunctions.mergeDuplicateUsers)({ dryRun: false }, asRole('editor')),
+  ).rejects.toMatchObject({ code: 'permission-denied' });
+});
+
+test('viewers cannot import users', async () => {
+  await expect(
+    testEnv.wrap(myFunctions.importUsers)({ content: 'name,email,age\n' }, asRole('viewer')),
+  ).rejects.toMatchObject({ code: 'permission-denied' });
+});
+
+test('exportUsers rejects requests without an ID token', async () => {
+  const res = { status: jest.fn(), send: jest.fn() };
+  res.status.mockReturnValue(res);
+  const req = { method: 'GET', query: {}, get: () => undefined };
+
+  await myFunctions.exportUsers(req as any, res as any);
+
+  expect(res.status).toHaveBeenCalledWith(401);
+});
@@ -0,0 +1,147 @@
+import functionsTest from 'firebase-functions-test';
+import * as admin from 'firebase-admin';
+import { ChangeLogEntry } from '../src/changeLog';
+import { DigestSubscriber, digestVariables, entriesForSubscriber } from '../src/digest';
+import { loadFileTemplate, renderTemplate } from '../src/emailTemplates';
+import { DEFAULT_PREFERENCES } from '../src/shared/preferences';
+
+const since = new Date('2026-10-18T08:00:00Z');
+const until = new Date('2026-10-19T08:00:00Z');
+
+const entry = (overrides: Partial<ChangeLogEntry>): ChangeLogEntry => ({
+  action: 'CREATE',
+  userId: 'alice',
+  name: 'Alice',
+  email: 'alice@example.com',
+  changes: [],
+  actorUid: 'editor',
+  occurredAt: admin.firestore.Timestamp.fromDate(since),
+  expiresAt: admin.firestore.Timestamp.fromDate(until),
+  ...overrides,
+});
+
+const entries = [
+  entry({}),
+  entry({
+    action: 'UPDATE',
+    userId: 'bob',
+    name: 'Bob',
+    email: 'bob@example.com',
+    changes: [{ field: 'age', label: 'Age', before: '30', after: '31' }],
+  }),
+  entry({ action: 'DELETE', userId: 'carol', name: '<Carol>', email: 'carol@example.com', actorUid: 'reader' }),
+];
+
+describe('entriesForSubscriber', () => {
+  const subscriber: DigestSubscriber = {
+    uid: 'reader',
+    email: 'reader@example.com',
+    preferences: { ...DEFAULT_PREFERENCES, digest: 'daily', events: { CREATE: true, UPDATE: false, DELETE: true } },
+  };
+
+  test('leaves out the subscriber\'s own changes and muted events', () => {
+    expect(entriesForSubscriber(entries, subscriber).map((e) => e.userId)).toEqual(['alice']);
+  });
+});
+
+describe('digest template', () => {
+  const render = () =>
+    renderTemplate(loadFileTemplate('DIGEST'), digestVariables('weekly', entries, since, until));
+
+  test('groups changes by action', () => {
+    const email = render();
+    expect(email.subject).toBe('Weekly Digest: 3 user changes - Firebase CRUD Demo');
+    expect(email.text).toContain('Added (1):\n- Alice (alice@example.com)\n');
+    expect(email.text).toContain('Updated (1):\n- Bob: Age: 30 → 31\n');
+    expect(email.text).toContain('Deleted (1):\n- <Carol> (carol@example.com)\n');
+    expect(email.html).toContain('<li><strong>&lt;Carol&gt;</strong> (carol@example.com)</li>');
+  });
+
+  test('empty groups are left out', () => {
+    const email = renderTemplate(loadFileTemplate('DIGEST'), digestVariables('daily', [entries[0]], since, until));
+    expect(email.text).toContain('between 2026-10-18 and 2026-10-19');
+    expect(email.text).not.toContain('Updated');
+    expect(email.html).not.toContain('Deleted');
+  });
+});
+
+// Sending needs the Auth and Firestore emulators. Uses its own project id so
+// it does not share data with other suites.
+const PROJECT_ID = 'demo-curdfirebasedemo-digest';
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+describeWithEmulator('sendDigests', () => {
+  const testEnv = functionsTest({ projectId: PROJECT_ID });
+  let digest: typeof import('../src/digest');
+
+  const queuedEmails = async () =>
+    (await admin.firestore().collection('emailOutbox').get()).docs.map((doc) => doc.data());
+
+  beforeAll(() => {
+    require('../src');
+    digest = require('../src/digest');
+  });
+
+  beforeEach(async () => {
+    await testEnv.firestore.clearFirestoreData({ projectId: PROJECT_ID });
+    const db = admin.firestore();
+    for (const uid of ['reader', 'weekly-reader', 'no-email']) {
+      await admin.auth().deleteUser(uid).catch(() => undefined);
+      await admin.auth().createUser({ uid, email: `${uid}@example.com` });
+    }
+    await db.doc('notificationPreferences/reader').set({ digest: 'daily' });
+    await db.doc('notificationPreferences/weekly-reader').set({ digest: 'weekly' });
+    await db.doc('notificationPreferences/no-email').set({ digest: 'daily', channels: { email: false } });
+    for (const [index, log] of entries.entries()) {
+      await db.doc(`changeLog/event-${index}`).set({
+        ...log,
+        occurredAt: admin.firestore.Timestamp.fromMillis(until.getTime() - (index + 1) * 60000),
+      });
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    testEnv.cleanup();
+  });
+
+  test('daily subscribers get one email covering the last day', async () => {
+    const result = await digest.sendDigests('daily', until);
+
+    expect(result).toEqual({ success: true, changeCount: 3, subscriberCount: 1, queuedCount: 1 });
+    const [email] = await queuedEmails();
+    expect(email).toMatchObject({ to: 'reader@example.com', action: 'DIGEST' });
+    // The reader deleted Carol themselves
+    expect(email.text).toContain('Updated (1)');
+    expect(email.text).not.toContain('Carol');
+  });
+
+  test('a redelivered run does not send the digest again', async () => {
+    await digest.sendDigests('daily', until);
+    const again = await digest.sendDigests('daily', new Date(until.getTime() + 60000));
+
+    expect(again.success).toBe(false);
+    expect(await queuedEmails()).toHaveLength(1);
+  });
+
+  test('a run that fails leaves its period to the next run', async () => {
+    const outbox = require('../src/emailOutbox');
+    jest.spyOn(outbox, 'enqueueEmails').mockRejectedValueOnce(new Error('UNAVAILABLE'));
+
+    await expect(digest.sendDigests('daily', until)).rejects.toThrow('UNAVAILABLE');
+    expect(await queuedEmails()).toHaveLength(0);
+
+    const retry = await digest.sendDigests('daily', new Date(until.getTime() + 60000));
+    expect(retry).toMatchObject({ success: true, changeCount: 3, queuedCount: 1 });
+  });
+
+  test('the next run starts where the previous one ended', async () => {
+    await digest.sendDigests('daily', until);
+    const next = await digest.sendDigests('daily', new Date(until.getTime() + 24 * 60 * 60 * 1000));
+
+    expect(next).toMatchObject({ success: true, changeCount: 0, queuedCount: 0 });
+  });
+});
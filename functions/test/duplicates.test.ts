@@ -0,0 +1,112 @@
+import functionsTest from 'firebase-functions-test';
+import * as admin from 'firebase-admin';
+import { Messaging } from 'firebase-admin/messaging';
+import { planDuplicateMerges } from '../src/duplicates';
+
+describe('planDuplicateMerges', () => {
+  test('ignores users with unique emails', () => {
+    expect(planDuplicateMerges([
+      { id: 'a', data: { name: 'Alice', email: 'alice@example.com', age: 30 } },
+      { id: 'b', data: { name: 'Bob', email: 'bob@example.com', age: 40 } },
+    ])).toEqual([]);
+  });
+
+  test('keeps the oldest user regardless of email case', () => {
+    expect(planDuplicateMerges([
+      { id: 'newer', data: { name: 'Alice', email: 'Alice@Example.com', age: 30, createdAt: new Date('2026-02-01') } },
+      { id: 'older', data: { name: 'Alice', email: 'alice@example.com', age: 30, createdAt: new Date('2026-01-01') } },
+    ])).toEqual([{ email: 'alice@example.com', survivorId: 'older', duplicateIds: ['newer'], fields: {} }]);
+  });
+
+  test('prefers users outside the trash', () => {
+    const [merge] = planDuplicateMerges([
+      { id: 'trashed', data: { name: 'Alice', email: 'alice@example.com', createdAt: new Date('2026-01-01'), deletedAt: new Date() } },
+      { id: 'live', data: { name: 'Alice', email: 'alice@example.com', createdAt: new Date('2026-02-01') } },
+    ]);
+    expect(merge.survivorId).toBe('live');
+  });
+
+  test('fills the survivor\'s missing fields from the duplicates', () => {
+    const [merge] = planDuplicateMerges([
+      { id: 'older', data: { name: '', email: 'alice@example.com', createdAt: new Date('2026-01-01') } },
+      { id: 'newer', data: { name: 'Alice', email: 'alice@example.com', age: 30, createdAt: new Date('2026-02-01') } },
+    ]);
+    expect(merge.fields).toEqual({ name: 'Alice', age: 30 });
+  });
+});
+
+// Runs against the Firestore emulator. Uses its own project id so it does
+// not share data with other suites.
+const PROJECT_ID = 'demo-curdfirebasedemo-duplicates';
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+describeWithEmulator('deduplicateUsers', () => {
+  const testEnv = functionsTest({ projectId: PROJECT_ID });
+  let myFunctions: typeof import('../src');
+  let duplicates: typeof import('../src/duplicates');
+  let sendEachForMulticast: jest.SpyInstance;
+
+  beforeAll(() => {
+    myFunctions = require('../src');
+    duplicates = require('../src/duplicates');
+  });
+
+  beforeEach(async () => {
+    await testEnv.firestore.clearFirestoreData({ projectId: PROJECT_ID });
+    testEnv.mockConfig({});
+    sendEachForMulticast = jest
+      .spyOn(Messaging.prototype, 'sendEachForMulticast')
+      .mockResolvedValue({ successCount: 1, failureCount: 0, responses: [] });
+  });
+
+  afterEach(() => {
+    sendEachForMulticast.mockRestore();
+  });
+
+  afterAll(() => {
+    testEnv.cleanup();
+  });
+
+  test('a merge is audited but announces nothing', async () => {
+    const db = admin.firestore();
+    await db.doc('devices/reader-token').set({ token: 'reader-token', uid: 'reader' });
+    await db.doc('users/reader').set({ name: 'Reader', email: 'reader@example.com', age: 20 });
+    await db.doc('users/older').set({ name: 'Alice', email: 'alice@example.com', createdAt: new Date('2026-01-01') });
+    await db.doc('users/newer').set({
+      name: 'Alice', email: 'Alice@example.com', age: 30, createdAt: new Date('2026-02-01'), lastChangeId: 'c1',
+    });
+    const before = await Promise.all(['older', 'newer'].map((id) => db.doc(`users/${id}`).get()));
+
+    await duplicates.deduplicateUsers({ dryRun: false });
+
+    // Run onUserChange for the survivor's update and the duplicate's delete
+    for (const snapshot of before) {
+      const change = testEnv.makeChange(snapshot, await snapshot.ref.get());
+      await testEnv.wrap(myFunctions.onUserChange)(change, { params: { userId: snapshot.id } });
+    }
+
+    expect((await db.doc('users/older').get()).get('age')).toBe(30);
+    expect((await db.doc('users/newer').get()).exists).toBe(false);
+    expect(sendEachForMulticast).not.toHaveBeenCalled();
+    expect((await db.collection('emailOutbox').get()).size).toBe(0);
+    expect((await db.collection('auditLog').get()).size).toBe(2);
+    expect((await db.collection('changeLog').get()).size).toBe(0);
+  });
+
+  test('a group too large for one batch is merged across several', async () => {
+    const db = admin.firestore();
+    await db.doc('users/first').set({ name: 'Bob', email: 'bob@example.com', createdAt: new Date('2026-01-01') });
+    const writer = db.bulkWriter();
+    for (let i = 0; i < 200; i++) {
+      writer.set(db.doc(`users/copy-${i}`), { name: 'Bob', email: 'bob@example.com', age: 40, createdAt: new Date('2026-02-01') });
+    }
+    await writer.close();
+
+    const result = await duplicates.deduplicateUsers({ dryRun: false });
+
+    expect(result.merges).toEqual([expect.objectContaining({ survivorId: 'first' })]);
+    expect((await db.collection('users').get()).docs.map((doc) => doc.id)).toEqual(['first']);
+    expect((await db.doc('users/first').get()).get('age')).toBe(40);
+    expect((await db.collection('notificationEvents').get()).size).toBe(402);
+  });
+});
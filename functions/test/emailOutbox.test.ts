@@ -0,0 +1,138 @@
+import functionsTest from 'firebase-functions-test';
+import * as admin from 'firebase-admin';
+import { EmailConfig, StubTransport } from '../src/emailTransport';
+import { backoffDelayMs } from '../src/emailOutbox';
+
+describe('backoffDelayMs', () => {
+  test('doubles from one minute up to an hour', () => {
+    expect([1, 2, 3, 4, 7, 8, 20].map((attempts) => backoffDelayMs(attempts) / 60000))
+      .toEqual([1, 2, 4, 8, 60, 60, 60]);
+  });
+});
+
+// Delivery needs the emulator. Uses its own project id so it does not share
+// data with other suites.
+const PROJECT_ID = 'demo-curdfirebasedemo-outbox';
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+describeWithEmulator('emailOutbox', () => {
+  const testEnv = functionsTest({ projectId: PROJECT_ID });
+  let outbox: typeof import('../src/emailOutbox');
+  const transport = new StubTransport();
+  const config: EmailConfig = {
+    transport: 'stub',
+    from: 'noreply@example.com',
+    smtp: {},
+    ratePerMinute: 2,
+    maxAttempts: 3,
+  };
+  const email = { subject: 'New user', html: '<p>Alice</p>', text: 'Alice' };
+  const now = new Date('2026-10-19T08:30:00Z');
+  const minutesLater = (minutes: number) => new Date(now.getTime() + minutes * 60000);
+
+  const outboxDocs = async () =>
+    (await admin.firestore().collection('emailOutbox').orderBy('to').get()).docs;
+
+  beforeAll(() => {
+    require('../src');
+    outbox = require('../src/emailOutbox');
+  });
+
+  beforeEach(async () => {
+    await testEnv.firestore.clearFirestoreData({ projectId: PROJECT_ID });
+    transport.reset();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    testEnv.cleanup();
+  });
+
+  test('queued emails are sent and marked sent', async () => {
+    await outbox.enqueueEmails(['a@example.com'], email, 'CREATE', now);
+
+    const result = await outbox.drainEmailOutbox({ now, config, transport });
+
+    expect(result).toEqual({ sent: 1, retried: 0, deadLettered: 0, deferred: 0 });
+    expect(transport.sent).toEqual([{ from: 'noreply@example.com', to: 'a@example.com', ...email }]);
+    const [doc] = await outboxDocs();
+    expect(doc.data()).toMatchObject({ status: 'sent', attempts: 1, messageId: 'stub-1' });
+    expect(doc.get('nextAttemptAt')).toBeUndefined();
+    expect(doc.get('expiresAt').toMillis()).toBe(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+  });
+
+  test('an email that went out is not failed when marking it sent fails', async () => {
+    await outbox.enqueueEmails(['a@example.com'], email, 'CREATE', now);
+    const [queued] = await outboxDocs();
+    jest.spyOn(admin.firestore.DocumentReference.prototype, 'update')
+      .mockRejectedValueOnce(new Error('UNAVAILABLE'));
+
+    expect(await outbox.deliverOutboxEmail(queued.ref, { now, config, transport })).toBe('sent');
+    expect(transport.sent).toHaveLength(1);
+    const [doc] = await outboxDocs();
+    expect(doc.data()).toMatchObject({ status: 'sending', attempts: 1 });
+    expect(doc.get('lastError')).toBeUndefined();
+  });
+
+  test('a failed send is retried after its backoff', async () => {
+    await outbox.enqueueEmails(['a@example.com'], email, 'CREATE', now);
+    transport.failNext(1, new Error('SMTP 421'));
+
+    expect(await outbox.drainEmailOutbox({ now, config, transport })).toMatchObject({ retried: 1 });
+    const [doc] = await outboxDocs();
+    expect(doc.data()).toMatchObject({ status: 'pending', attempts: 1, lastError: 'SMTP 421' });
+    expect(doc.get('nextAttemptAt').toMillis()).toBe(minutesLater(1).getTime());
+
+    // Not due yet
+    expect(await outbox.drainEmailOutbox({ now, config, transport })).toMatchObject({ sent: 0, retried: 0 });
+
+    expect(await outbox.drainEmailOutbox({ now: minutesLater(1), config, transport })).toMatchObject({ sent: 1 });
+    expect(transport.sent).toHaveLength(1);
+  });
+
+  test('an email that keeps failing is dead-lettered', async () => {
+    await outbox.enqueueEmails(['a@example.com'], email, 'CREATE', now);
+    transport.failNext(3, new Error('Mailbox unavailable'));
+
+    await outbox.drainEmailOutbox({ now, config, transport });
+    await outbox.drainEmailOutbox({ now: minutesLater(1), config, transport });
+    const result = await outbox.drainEmailOutbox({ now: minutesLater(3), config, transport });
+
+    expect(result).toMatchObject({ deadLettered: 1 });
+    expect(await outboxDocs()).toHaveLength(0);
+    const dead = await admin.firestore().collection('emailDeadLetter').get();
+    expect(dead.docs.map((doc) => doc.data())).toEqual([
+      expect.objectContaining({ to: 'a@example.com', status: 'dead', attempts: 3, lastError: 'Mailbox unavailable' }),
+    ]);
+  });
+
+  test('sends past the per-minute cap wait for the next minute', async () => {
+    await outbox.enqueueEmails(['a@example.com', 'b@example.com', 'c@example.com'], email, 'CREATE', now);
+    const [first] = await outboxDocs();
+
+    // One slot used by the onCreate worker, one by the scheduled run
+    expect(await outbox.deliverOutboxEmail(first.ref, { now, config, transport })).toBe('sent');
+    expect(await outbox.drainEmailOutbox({ now, config, transport }))
+      .toEqual({ sent: 1, retried: 0, deadLettered: 0, deferred: 1 });
+
+    expect(await outbox.drainEmailOutbox({ now: minutesLater(1), config, transport })).toMatchObject({ sent: 1 });
+    expect(transport.sent.map((sent) => sent.to)).toEqual(['a@example.com', 'b@example.com', 'c@example.com']);
+  });
+
+  test('an email is only sent once when two workers pick it up', async () => {
+    await outbox.enqueueEmails(['a@example.com'], email, 'CREATE', now);
+    const [doc] = await outboxDocs();
+
+    const outcomes = await Promise.all([
+      outbox.deliverOutboxEmail(doc.ref, { now, config, transport }),
+      outbox.deliverOutboxEmail(doc.ref, { now, config, transport }),
+    ]);
+
+    expect(outcomes.sort()).toEqual(['sent', 'skipped']);
+    expect(transport.sent).toHaveLength(1);
+  });
+});
@@ -0,0 +1,140 @@
+import functionsTest from 'firebase-functions-test';
+import * as admin from 'firebase-admin';
+import {
+  EMAIL_TEMPLATE_NAMES,
+  bulkEmailVariables,
+  emailVariables,
+  escapeHtml,
+  loadFileTemplate,
+  renderTemplate,
+  templateNameForAction,
+} from '../src/emailTemplates';
+import { bulkChange } from '../src/shared/bulk';
+import { parseCustomFields } from '../src/shared/userSchema';
+
+const user = { id: 'alice', name: 'Alice Smith', email: 'alice@example.com', age: '30' };
+const hostileUser = {
+  id: 'mallory',
+  name: '<script>alert("hi")</script> & <b>Mallory</b>',
+  email: '"mallory"@example.com',
+  age: '\'30\'',
+};
+
+const render = (action: string, userData: any) =>
+  renderTemplate(loadFileTemplate(templateNameForAction(action)), emailVariables(action, userData));
+
+describe('file templates', () => {
+  test.each(EMAIL_TEMPLATE_NAMES)('%s renders', (action) => {
+    const userData = action === 'DELETE' ? { id: 'alice', deletedUser: user } : user;
+    expect(render(action, userData)).toMatchSnapshot();
+  });
+
+  test('UPDATE lists the changed fields', () => {
+    const email = render('UPDATE', { ...user, age: '31', email: '<new>@example.com', oldData: user });
+    expect(email).toMatchSnapshot();
+    expect(email.html).toContain('<li><strong>Age:</strong> 30 → 31</li>');
+    expect(email.text).toContain('- Email: alice@example.com → <new>@example.com');
+  });
+
+  test('custom fields with a value are listed after the built-in ones', () => {
+    const customFields = parseCustomFields({
+      fields: [
+        { key: 'department', label: 'Department', type: 'select', options: ['Sales', 'R&D'] },
+        { key: 'startDate', label: 'Start date', type: 'date' },
+        { key: 'phone', label: 'Phone', type: 'text' },
+      ],
+    });
+    const userData = { ...user, customFields: { department: 'R&D', startDate: '2026-01-05' } };
+    const email = renderTemplate(loadFileTemplate('CREATE'), emailVariables('CREATE', userData, customFields));
+
+    expect(email.text).toContain('Age: 30\nDepartment: R&D\nStart date: 2026-01-05\n\n');
+    expect(email.html).toContain('<li><strong>Department:</strong> R&amp;D</li>');
+  });
+
+  test('BULK summarizes many users in one email', () => {
+    const email = renderTemplate(
+      loadFileTemplate('BULK'),
+      bulkEmailVariables('CREATE', bulkChange(['Alice', '<b>Bob</b>', 'Carol', 'Dave'])),
+    );
+    expect(email).toMatchSnapshot();
+    expect(email.subject).toBe('4 users added - Firebase CRUD Demo');
+    expect(email.html).toContain('Alice, &lt;b&gt;Bob&lt;/b&gt;, Carol and 1 more have been added');
+  });
+
+  test('user data is escaped in HTML and left as-is in plain text', () => {
+    const email = render('CREATE', hostileUser);
+    expect(email).toMatchSnapshot();
+    expect(email.html).not.toContain('<script>');
+    expect(email.text).toContain('<script>alert("hi")</script>');
+  });
+});
+
+describe('renderTemplate', () => {
+  test('unknown placeholders are empty and subjects stay on one line', () => {
+    const email = renderTemplate(
+      { subject: 'Hello {{name}}', html: '<p>{{missing}}</p>', text: '{{ name }}' },
+      { name: 'Eve\r\nBcc: everyone@example.com' },
+    );
+    expect(email).toEqual({
+      subject: 'Hello Eve Bcc: everyone@example.com',
+      html: '<p></p>',
+      text: 'Eve\r\nBcc: everyone@example.com',
+    });
+  });
+
+  test('placeholders inside values are not expanded', () => {
+    const email = renderTemplate(
+      {
+        subject: '{{name}} changed',
+        html: '<p>{{name}}</p>{{#changes}}<li>{{field}}</li>{{/changes}}',
+        text: '{{name}}\n{{changeSummary}}',
+      },
+      {
+        name: '{{changeSummary}}',
+        changeSummary: 'secret summary',
+        changes: [{ field: '{{name}}' }],
+      },
+    );
+    expect(email).toEqual({
+      subject: '{{changeSummary}} changed',
+      html: '<p>{{changeSummary}}</p><li>{{name}}</li>',
+      text: '{{changeSummary}}\nsecret summary',
+    });
+  });
+
+  test('escapeHtml covers the HTML special characters', () => {
+    expect(escapeHtml('<a href="x">Tom & Jerry\'s</a>')).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;');
+  });
+});
+
+// Firestore overrides need the emulator. Uses its own project id so it does
+// not share data with other suites.
+const PROJECT_ID = 'demo-curdfirebasedemo-templates';
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+describeWithEmulator('Firestore template overrides', () => {
+  const testEnv = functionsTest({ projectId: PROJECT_ID });
+  let templates: typeof import('../src/emailTemplates');
+
+  beforeAll(() => {
+    require('../src');
+    templates = require('../src/emailTemplates');
+  });
+
+  beforeEach(async () => {
+    await testEnv.firestore.clearFirestoreData({ projectId: PROJECT_ID });
+  });
+
+  afterAll(() => {
+    testEnv.cleanup();
+  });
+
+  test('fields in emailTemplates/{action} replace the file copy', async () => {
+    await admin.firestore().doc('emailTemplates/CREATE').set({ subject: 'Welcome {{name}}!' });
+
+    const email = await templates.renderEmail('CREATE', hostileUser);
+
+    expect(email.subject).toBe(`Welcome ${hostileUser.name}!`);
+    expect(email.html).toBe(render('CREATE', hostileUser).html);
+  });
+});
@@ -0,0 +1,110 @@
+import functionsTest from 'firebase-functions-test';
+import {
+  LogTransport,
+  SmtpTransport,
+  StubTransport,
+  createEmailTransport,
+  getEmailConfig,
+  stubTransport,
+} from '../src/emailTransport';
+
+const message = {
+  from: 'noreply@example.com',
+  to: 'reader@example.com',
+  subject: 'New user',
+  html: '<p>Alice</p>',
+  text: 'Alice',
+};
+
+describe('getEmailConfig', () => {
+  const testEnv = functionsTest();
+
+  afterEach(() => {
+    delete process.env.FUNCTIONS_EMULATOR;
+  });
+
+  afterAll(() => {
+    testEnv.cleanup();
+  });
+
+  test('uses SMTP with no sender and default limits when nothing is set', () => {
+    testEnv.mockConfig({});
+
+    expect(getEmailConfig()).toMatchObject({
+      transport: 'smtp',
+      from: '',
+      smtp: { service: 'gmail', user: undefined, pass: undefined },
+      ratePerMinute: 60,
+      maxAttempts: 5,
+    });
+  });
+
+  test('logs instead of sending in the emulator', () => {
+    process.env.FUNCTIONS_EMULATOR = 'true';
+    testEnv.mockConfig({});
+
+    expect(getEmailConfig().transport).toBe('log');
+  });
+
+  test('reads the transport, SMTP server and limits from config', () => {
+    testEnv.mockConfig({
+      email: {
+        transport: 'smtp',
+        host: 'smtp.example.com',
+        port: '465',
+        secure: 'true',
+        user: 'mailer@example.com',
+        pass: 'secret',
+        rate_per_minute: '10',
+        max_attempts: '3',
+      },
+    });
+
+    expect(getEmailConfig()).toEqual({
+      transport: 'smtp',
+      from: 'mailer@example.com',
+      smtp: { service: undefined, host: 'smtp.example.com', port: 465, secure: true, user: 'mailer@example.com', pass: 'secret' },
+      ratePerMinute: 10,
+      maxAttempts: 3,
+    });
+  });
+
+  test('ignores unknown transports and invalid limits', () => {
+    testEnv.mockConfig({ email: { transport: 'carrier-pigeon', rate_per_minute: '0', max_attempts: 'lots' } });
+
+    expect(getEmailConfig()).toMatchObject({ transport: 'smtp', ratePerMinute: 60, maxAttempts: 5 });
+  });
+});
+
+describe('transports', () => {
+  test('the configured transport is created', () => {
+    const config = { transport: 'log' as const, from: '', smtp: {}, ratePerMinute: 60, maxAttempts: 5 };
+
+    expect(createEmailTransport(config)).toBeInstanceOf(LogTransport);
+    expect(createEmailTransport({ ...config, transport: 'stub' })).toBe(stubTransport);
+    expect(createEmailTransport({ ...config, transport: 'smtp', smtp: { user: 'u', pass: 'p' } }))
+      .toBeInstanceOf(SmtpTransport);
+  });
+
+  test('SMTP needs credentials instead of falling back to placeholders', () => {
+    expect(() => new SmtpTransport({ service: 'gmail' })).toThrow('email.user and email.pass');
+  });
+
+  test('the log transport prints one JSON line per email', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await new LogTransport().send(message);
+
+    expect(JSON.parse(log.mock.calls[0][0])).toEqual({ transport: 'log', ...message });
+    log.mockRestore();
+  });
+
+  test('the stub transport records emails and fails on request', async () => {
+    const stub = new StubTransport();
+    stub.failNext(1);
+
+    await expect(stub.send(message)).rejects.toThrow('Stub transport failure');
+    await expect(stub.send(message)).resolves.toEqual({ messageId: 'stub-1' });
+    expect(stub.sent).toEqual([message]);
+  });
+});
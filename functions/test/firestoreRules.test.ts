@@ -0,0 +1,239 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  RulesTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+// Runs against the Firestore emulator with the checked-in firestore.rules.
+// Uses its own project id so it does not share data with other suites.
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+describeWithEmulator('firestore.rules: users', () => {
+  let testEnv: RulesTestEnvironment;
+
+  const alice = { name: 'Alice', email: 'alice@example.com', age: 30, ownerUid: 'alice-uid' };
+  const bob = { name: 'Bob', email: 'bob@example.com', age: 41 };
+
+  const asUser = (uid: string, claims: Record<string, unknown> = {}) =>
+    testEnv.authenticatedContext(uid, claims).firestore();
+
+  // Users are created together with the reservation for their email
+  const createUser = (db: ReturnType<typeof asUser>, id: string, data: Record<string, unknown>) => {
+    const batch = db.batch();
+    batch.set(db.doc(`users/${id}`), data);
+    batch.set(db.doc(`emailIndex/${String(data.email).toLowerCase()}`), { userId: id });
+    return batch.commit();
+  };
+
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: 'demo-curdfirebasedemo-rules',
+      firestore: {
+        rules: fs.readFileSync(path.resolve(__dirname, '../../firestore.rules'), 'utf8'),
+      },
+    });
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.withSecurityRulesDisabled(async context => {
+      await context.firestore().doc('users/alice').set(alice);
+      await context.firestore().doc('emailIndex/alice@example.com').set({ userId: 'alice' });
+    });
+  });
+
+  afterAll(async () => {
+    await testEnv.cleanup();
+  });
+
+  test('signed-out clients cannot read or write', async () => {
+    const db = testEnv.unauthenticatedContext().firestore();
+    await assertFails(db.doc('users/alice').get());
+    await assertFails(db.doc('users/bob').set({ name: 'Bob' }));
+  });
+
+  test('signed-in users of any role can read any user', async () => {
+    await assertSucceeds(asUser('viewer-uid').doc('users/alice').get());
+  });
+
+  test('editors and admins can only create documents they own', async () => {
+    const db = asUser('bob-uid', { role: 'editor' });
+    await assertSucceeds(createUser(db, 'bob', { ...bob, ownerUid: 'bob-uid', lastChangedBy: 'bob-uid' }));
+    await assertFails(createUser(db, 'carol', { ...bob, name: 'Carol', ownerUid: 'alice-uid', lastChangedBy: 'bob-uid' }));
+    await assertFails(createUser(db, 'dave', { ...bob, name: 'Dave', lastChangedBy: 'bob-uid' }));
+    await assertSucceeds(createUser(asUser('admin-uid', { role: 'admin' }), 'erin', { ...bob, name: 'Erin', email: 'erin@example.com', ownerUid: 'admin-uid', lastChangedBy: 'admin-uid' }));
+  });
+
+  test('viewers cannot write', async () => {
+    const db = asUser('alice-uid');
+    await assertFails(createUser(db, 'frank', { ...bob, name: 'Frank', ownerUid: 'alice-uid', lastChangedBy: 'alice-uid' }));
+    await assertFails(db.doc('users/alice').update({ age: 31, lastChangedBy: 'alice-uid' }));
+    await assertFails(asUser('alice-uid', { role: 'viewer' }).doc('users/alice').delete());
+  });
+
+  test('editors can update their own users but not delete them', async () => {
+    const db = asUser('alice-uid', { role: 'editor' });
+    await assertSucceeds(db.doc('users/alice').update({ age: 31, lastChangedBy: 'alice-uid' }));
+    await assertFails(db.doc('users/alice').delete());
+  });
+
+  test('editors cannot update users owned by someone else', async () => {
+    const db = asUser('bob-uid', { role: 'editor' });
+    await assertFails(db.doc('users/alice').update({ age: 31, lastChangedBy: 'bob-uid' }));
+    await assertFails(db.doc('users/alice').delete());
+  });
+
+  test('admins can update and delete any user', async () => {
+    const db = asUser('admin-uid', { role: 'admin' });
+    await assertSucceeds(db.doc('users/alice').update({ age: 31, lastChangedBy: 'admin-uid' }));
+    await assertSucceeds(db.doc('users/alice').delete());
+  });
+
+  test('only admins move users in and out of the trash', async () => {
+    const editor = asUser('alice-uid', { role: 'editor' });
+    const admin = asUser('admin-uid', { role: 'admin' });
+    await assertFails(editor.doc('users/alice').update({ deletedAt: new Date(), lastChangedBy: 'alice-uid' }));
+    await assertFails(createUser(editor, 'hank', { ...bob, ownerUid: 'alice-uid', deletedAt: new Date(), lastChangedBy: 'alice-uid' }));
+    await assertSucceeds(admin.doc('users/alice').update({ deletedAt: new Date(), lastChangedBy: 'admin-uid' }));
+    await assertFails(editor.doc('users/alice').update({ deletedAt: null, lastChangedBy: 'alice-uid' }));
+    await assertSucceeds(admin.doc('users/alice').update({ deletedAt: null, lastChangedBy: 'admin-uid' }));
+  });
+
+  test('users must match the schema', async () => {
+    const db = asUser('alice-uid', { role: 'editor' });
+    await assertFails(createUser(db, 'ivan', { ...bob, name: 'Ivan 2', ownerUid: 'alice-uid', lastChangedBy: 'alice-uid' }));
+    await assertFails(createUser(db, 'ivan', { ...bob, email: 'ivan', ownerUid: 'alice-uid', lastChangedBy: 'alice-uid' }));
+    await assertFails(createUser(db, 'ivan', { ...bob, age: '41', ownerUid: 'alice-uid', lastChangedBy: 'alice-uid' }));
+    await assertFails(createUser(db, 'ivan', { ...bob, isAdmin: true, ownerUid: 'alice-uid', lastChangedBy: 'alice-uid' }));
+    await assertFails(db.doc('users/alice').update({ age: 121, lastChangedBy: 'alice-uid' }));
+    await assertFails(db.doc('users/alice').update({ name: 'A', lastChangedBy: 'alice-uid' }));
+    await assertFails(db.doc('users/alice').update({ customFields: 'Sales', lastChangedBy: 'alice-uid' }));
+  });
+
+  test('custom field values are kept in customFields, defined by admins', async () => {
+    const db = asUser('alice-uid', { role: 'editor' });
+    await assertSucceeds(db.doc('users/alice').update({ customFields: { department: 'Sales' }, lastChangedBy: 'alice-uid' }));
+    await assertSucceeds(db.doc('schema/users').get());
+    await assertFails(db.doc('schema/users').set({ fields: [] }));
+    await assertSucceeds(asUser('admin-uid', { role: 'admin' }).doc('schema/users').set({ fields: [] }));
+  });
+
+  test('a user needs the reservation for its email', async () => {
+    const db = asUser('alice-uid', { role: 'editor' });
+    await assertFails(db.doc('users/bob').set({ ...bob, ownerUid: 'alice-uid' }));
+    await assertFails(createUser(db, 'bob', { ...bob, email: 'Alice@example.com', ownerUid: 'alice-uid', lastChangedBy: 'alice-uid' }));
+    await assertSucceeds(createUser(db, 'bob', { ...bob, ownerUid: 'alice-uid', lastChangedBy: 'alice-uid' }));
+    await assertFails(db.doc('users/alice').update({ email: 'alicia@example.com', lastChangedBy: 'alice-uid' }));
+  });
+
+  test('an email moves with its user and is freed when it changes', async () => {
+    const db = asUser('alice-uid', { role: 'editor' });
+    const batch = db.batch();
+    batch.update(db.doc('users/alice'), { email: 'alicia@example.com', lastChangedBy: 'alice-uid' });
+    batch.set(db.doc('emailIndex/alicia@example.com'), { userId: 'alice' });
+    batch.delete(db.doc('emailIndex/alice@example.com'));
+    await assertSucceeds(batch.commit());
+    await assertSucceeds(createUser(db, 'bob', { ...bob, email: 'alice@example.com', ownerUid: 'alice-uid', lastChangedBy: 'alice-uid' }));
+  });
+
+  test('reservations held by a user cannot be taken or removed', async () => {
+    const db = asUser('alice-uid', { role: 'editor' });
+    await assertFails(db.doc('emailIndex/alice@example.com').delete());
+    await assertFails(db.doc('emailIndex/alice@example.com').set({ userId: 'bob' }));
+    await assertFails(db.doc('emailIndex/bob@example.com').set({ userId: 'alice' }));
+    await assertFails(asUser('viewer-uid').doc('emailIndex/carol@example.com').set({ userId: 'carol' }));
+    await assertSucceeds(asUser('viewer-uid').doc('emailIndex/alice@example.com').get());
+  });
+
+  test('ownership cannot be transferred', async () => {
+    await assertFails(asUser('alice-uid', { role: 'editor' }).doc('users/alice').update({ ownerUid: 'bob-uid', lastChangedBy: 'alice-uid' }));
+    await assertFails(asUser('admin-uid', { role: 'admin' }).doc('users/alice').update({ ownerUid: 'bob-uid', lastChangedBy: 'admin-uid' }));
+  });
+
+  test('lastChangedBy must be the caller', async () => {
+    const db = asUser('alice-uid', { role: 'editor' });
+    await assertSucceeds(db.doc('users/alice').update({ age: 31, lastChangedBy: 'alice-uid' }));
+    await assertFails(db.doc('users/alice').update({ age: 32, lastChangedBy: 'bob-uid' }));
+    // Left out, the previous editor would stay recorded
+    await assertFails(asUser('admin-uid', { role: 'admin' }).doc('users/alice').update({ age: 33 }));
+    await assertFails(createUser(db, 'gina', { ...bob, ownerUid: 'alice-uid' }));
+    await assertFails(createUser(db, 'gina', { ...bob, ownerUid: 'alice-uid', lastChangedBy: 'bob-uid' }));
+  });
+
+  test('users register and remove only their own devices', async () => {
+    const device = { token: 'token-1', uid: 'alice-uid', platform: 'android', appVersion: '0.0.1' };
+    await assertSucceeds(asUser('alice-uid').doc('devices/token-1').set(device));
+    await assertFails(asUser('alice-uid').doc('devices/token-2').set(device));
+    await assertFails(asUser('alice-uid').doc('devices/token-2').set({ ...device, token: 'token-2', uid: 'bob-uid' }));
+    await assertFails(testEnv.unauthenticatedContext().firestore().doc('devices/token-3').set({ ...device, token: 'token-3' }));
+
+    await assertFails(asUser('bob-uid').doc('devices/token-1').get());
+    await assertFails(asUser('bob-uid').doc('devices/token-1').delete());
+    await assertSucceeds(asUser('alice-uid').doc('devices/token-1').get());
+  });
+
+  test('only admins\' devices subscribe to admin alerts', async () => {
+    const device = { token: 'token-1', uid: 'alice-uid' };
+    await assertSucceeds(asUser('alice-uid').doc('devices/token-1').set({ ...device, topics: ['user-changes'] }));
+    await assertFails(asUser('alice-uid').doc('devices/token-1').set({ ...device, topics: ['user-changes', 'admin-alerts'] }));
+    await assertFails(asUser('alice-uid').doc('devices/token-1').set({ ...device, topics: ['everyone'] }));
+    await assertSucceeds(asUser('alice-uid', { role: 'admin' }).doc('devices/token-1').set({ ...device, topics: ['admin-alerts'] }));
+  });
+
+  test('a token moves to the user who signs in on the device', async () => {
+    const device = { token: 'token-1', uid: 'alice-uid', platform: 'android', appVersion: '0.0.1' };
+    await assertSucceeds(asUser('alice-uid').doc('devices/token-1').set(device));
+    await assertSucceeds(asUser('bob-uid').doc('devices/token-1').set({ ...device, uid: 'bob-uid' }));
+    await assertFails(asUser('alice-uid').doc('devices/token-1').delete());
+    await assertSucceeds(asUser('bob-uid').doc('devices/token-1').delete());
+  });
+
+  test('users read and write only their own notification preferences', async () => {
+    const preferences = { channels: { push: false }, events: {}, quietHours: {} };
+    await assertSucceeds(asUser('alice-uid').doc('notificationPreferences/alice-uid').set(preferences));
+    await assertSucceeds(asUser('alice-uid').doc('notificationPreferences/alice-uid').get());
+    await assertFails(asUser('alice-uid').doc('notificationPreferences/alice-uid').set({ ...preferences, role: 'admin' }));
+    await assertFails(asUser('bob-uid').doc('notificationPreferences/alice-uid').get());
+    await assertFails(asUser('bob-uid', { role: 'admin' }).doc('notificationPreferences/alice-uid').set(preferences));
+    await assertSucceeds(asUser('alice-uid').doc('notificationPreferences/alice-uid').set({ ...preferences, digest: 'weekly' }));
+    await assertFails(asUser('alice-uid').doc('notificationPreferences/alice-uid').set({ ...preferences, digest: 'hourly' }));
+  });
+
+  test('a bulk change is written in the same batch as its users', async () => {
+    const db = asUser('alice-uid', { role: 'editor' });
+    const bulkChange = { action: 'UPDATE', names: ['Alice'], userIds: ['alice'], lastChangedBy: 'alice-uid' };
+
+    const batch = db.batch();
+    batch.update(db.doc('users/alice'), { age: 31, lastChangeId: 'bulk_b1_alice', lastChangedBy: 'alice-uid' });
+    batch.set(db.doc('bulkChanges/b1'), bulkChange);
+    await assertSucceeds(batch.commit());
+
+    await assertFails(db.doc('bulkChanges/b2').set(bulkChange));
+    await assertFails(db.doc('bulkChanges/b1').get());
+    await assertFails(asUser('viewer-uid').doc('bulkChanges/b3').set({ ...bulkChange, lastChangedBy: 'viewer-uid' }));
+  });
+
+  test('clients cannot touch notificationEvents', async () => {
+    const db = asUser('admin-uid', { role: 'admin' });
+    await assertFails(db.doc('notificationEvents/e1_push').get());
+    await assertFails(db.doc('notificationEvents/e1_push').set({ eventId: 'e1' }));
+  });
+
+  test('only admins can read the email outbox and nobody writes it', async () => {
+    await assertSucceeds(asUser('admin-uid', { role: 'admin' }).doc('emailOutbox/m1').get());
+    await assertSucceeds(asUser('admin-uid', { role: 'admin' }).doc('emailDeadLetter/m1').get());
+    await assertFails(asUser('alice-uid', { role: 'editor' }).doc('emailOutbox/m1').get());
+    await assertFails(asUser('admin-uid', { role: 'admin' }).doc('emailOutbox/m1').set({ to: 'x@example.com' }));
+    await assertFails(asUser('admin-uid', { role: 'admin' }).doc('emailRateLimits/2026-10-19T08:30').set({ count: 0 }));
+  });
+
+  test('signed-in users read the audit log and nobody writes it', async () => {
+    await assertSucceeds(asUser('alice-uid').collection('auditLog').where('userId', '==', 'alice').get());
+    await assertFails(testEnv.unauthenticatedContext().firestore().doc('auditLog/e1').get());
+    await assertFails(asUser('admin-uid', { role: 'admin' }).doc('auditLog/e1').set({ userId: 'alice' }));
+    await assertFails(asUser('admin-uid', { role: 'admin' }).doc('auditLog/e1').delete());
+  });
+});
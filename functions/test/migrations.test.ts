@@ -0,0 +1,73 @@
+import functionsTest from 'firebase-functions-test';
+import * as admin from 'firebase-admin';
+
+// Runs against the Firestore emulator. Uses its own project id so it does
+// not share data with other suites.
+const PROJECT_ID = 'demo-curdfirebasedemo-migrations';
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+describeWithEmulator('migrateUserAges', () => {
+  const testEnv = functionsTest({ projectId: PROJECT_ID });
+  let migrations: typeof import('../src/migrations');
+
+  beforeAll(() => {
+    require('../src');
+    migrations = require('../src/migrations');
+  });
+
+  beforeEach(async () => {
+    await testEnv.firestore.clearFirestoreData({ projectId: PROJECT_ID });
+    const db = admin.firestore();
+    await db.doc('users/legacy').set({ name: 'Legacy', age: '30', lastChangedBy: 'alice-uid', lastChangedOn: 'android 0.0.1' });
+    await db.doc('users/current').set({ name: 'Current', age: 41 });
+    await db.doc('users/broken').set({ name: 'Broken', age: 'thirty' });
+  });
+
+  afterAll(() => {
+    testEnv.cleanup();
+  });
+
+  test('converts string ages to numbers and reports the ones it cannot read', async () => {
+    expect(await migrations.migrateUserAges()).toEqual({ migrated: 1, invalid: ['broken'] });
+
+    const db = admin.firestore();
+    expect((await db.doc('users/legacy').get()).get('age')).toBe(30);
+    // The audit entry names the server, not the user's last editor
+    expect((await db.doc('users/legacy').get()).data()).toMatchObject({ lastChangedBy: 'server' });
+    expect((await db.doc('users/legacy').get()).get('lastChangedOn')).toBeUndefined();
+    expect((await db.doc('users/current').get()).get('age')).toBe(41);
+    expect((await db.doc('users/broken').get()).get('age')).toBe('thirty');
+  });
+
+  test('running it again changes nothing', async () => {
+    await migrations.migrateUserAges();
+    expect(await migrations.migrateUserAges()).toEqual({ migrated: 0, invalid: ['broken'] });
+  });
+});
+
+describeWithEmulator('migrateSearchKeywords', () => {
+  const testEnv = functionsTest({ projectId: PROJECT_ID });
+  let migrations: typeof import('../src/migrations');
+
+  beforeAll(() => {
+    require('../src');
+    migrations = require('../src/migrations');
+  });
+
+  beforeEach(async () => {
+    await testEnv.firestore.clearFirestoreData({ projectId: PROJECT_ID });
+    await admin.firestore().doc('users/alice').set({ name: 'Alice Smith', email: 'alice@example.com', age: 30 });
+  });
+
+  afterAll(() => {
+    testEnv.cleanup();
+  });
+
+  test('stores the keywords once', async () => {
+    expect(await migrations.migrateSearchKeywords()).toBe(1);
+    expect((await admin.firestore().doc('users/alice').get()).get('searchKeywords')).toEqual(
+      expect.arrayContaining(['a', 'alice smith', 'smi', 'alice@']),
+    );
+    expect(await migrations.migrateSearchKeywords()).toBe(0);
+  });
+});
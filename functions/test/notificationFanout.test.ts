@@ -0,0 +1,203 @@
+import functionsTest from 'firebase-functions-test';
+import * as admin from 'firebase-admin';
+import { Messaging, MulticastMessage } from 'firebase-admin/messaging';
+
+// Runs against the Firestore emulator. Uses its own project id so it does not
+// share data with other suites.
+const PROJECT_ID = 'demo-curdfirebasedemo-fanout';
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+describeWithEmulator('fanOutPushNotification', () => {
+  const testEnv = functionsTest({ projectId: PROJECT_ID });
+  let fanout: typeof import('../src/notificationFanout');
+  let sendEachForMulticast: jest.SpyInstance;
+
+  // Tokens in `failures` fail with the given error code; the rest succeed
+  const mockSend = (failures: Record<string, string> = {}) =>
+    jest
+      .spyOn(Messaging.prototype, 'sendEachForMulticast')
+      .mockImplementation(async ({ tokens }: MulticastMessage) => {
+        const responses = tokens.map((token) =>
+          failures[token]
+            ? { success: false, error: { code: failures[token] } }
+            : { success: true, messageId: `message-${token}` });
+        const failureCount = responses.filter((response) => !response.success).length;
+        return {
+          responses,
+          successCount: tokens.length - failureCount,
+          failureCount,
+        } as any;
+      });
+
+  const seedDevices = async (count: number) => {
+    const db = admin.firestore();
+    for (let start = 0; start < count; start += 500) {
+      const batch = db.batch();
+      for (let i = start; i < Math.min(start + 500, count); i++) {
+        batch.set(db.doc(`devices/token-${i}`), { token: `token-${i}`, uid: `user-${i}`, platform: 'android' });
+      }
+      await batch.commit();
+    }
+  };
+
+  beforeAll(() => {
+    fanout = require('../src/notificationFanout');
+  });
+
+  beforeEach(async () => {
+    await testEnv.firestore.clearFirestoreData({ projectId: PROJECT_ID });
+  });
+
+  afterEach(() => {
+    sendEachForMulticast.mockRestore();
+  });
+
+  afterAll(() => {
+    testEnv.cleanup();
+  });
+
+  const userData = { id: 'user-0', name: 'User 0' };
+
+  test('tokens are sent in batches of at most 500', async () => {
+    await seedDevices(1201);
+    sendEachForMulticast = mockSend();
+
+    const result = await fanout.fanOutPushNotification({ action: 'UPDATE', userData });
+
+    expect(sendEachForMulticast).toHaveBeenCalledTimes(3);
+    expect(result.batches?.map((batch) => batch.tokenCount)).toEqual([500, 500, 201]);
+    expect(result).toMatchObject({ success: true, successCount: 1201, failureCount: 0, prunedTokenCount: 0 });
+  });
+
+  test('dead tokens are removed from the registry and reported', async () => {
+    await seedDevices(3);
+    sendEachForMulticast = mockSend({
+      'token-1': 'messaging/registration-token-not-registered',
+      'token-2': 'messaging/internal-error',
+    });
+
+    const result = await fanout.fanOutPushNotification({ action: 'UPDATE', userData, senderToken: 'token-0' });
+
+    expect(result).toMatchObject({ successCount: 0, failureCount: 2, prunedTokenCount: 1 });
+    expect(result.batches?.[0].failures).toEqual([
+      { uid: 'user-1', code: 'messaging/registration-token-not-registered', pruned: true },
+      { uid: 'user-2', code: 'messaging/internal-error', pruned: false },
+    ]);
+
+    const devices = await admin.firestore().collection('devices').get();
+    expect(devices.docs.map((doc) => doc.id).sort()).toEqual(['token-0', 'token-2']);
+  });
+
+  test('every device of the sender is skipped', async () => {
+    const db = admin.firestore();
+    await db.doc('devices/phone').set({ token: 'phone', uid: 'alice' });
+    await db.doc('devices/tablet').set({ token: 'tablet', uid: 'alice' });
+    await db.doc('devices/reader').set({ token: 'reader', uid: 'bob' });
+    sendEachForMulticast = mockSend();
+
+    await fanout.fanOutPushNotification({ action: 'CREATE', userData, senderUid: 'alice' });
+
+    expect(sendEachForMulticast.mock.calls[0][0].tokens).toEqual(['reader']);
+  });
+
+  test('a topic target reaches the devices subscribed to it and respects their preferences', async () => {
+    const db = admin.firestore();
+    await db.doc('devices/admin-token').set({ token: 'admin-token', uid: 'admin', topics: ['user-changes', 'admin-alerts'] });
+    await db.doc('devices/muted-token').set({ token: 'muted-token', uid: 'muted', topics: ['user-changes', 'admin-alerts'] });
+    await db.doc('devices/editor-token').set({ token: 'editor-token', uid: 'editor', topics: ['user-changes'] });
+    await db.doc('devices/unsubscribed-token').set({ token: 'unsubscribed-token', uid: 'unsubscribed' });
+    await db.doc('notificationPreferences/muted').set({ channels: { push: false } });
+    sendEachForMulticast = mockSend();
+    const sendToTopic = jest.spyOn(Messaging.prototype, 'send');
+
+    const send = (topic: 'user-changes' | 'admin-alerts') => fanout.fanOutPushNotification({
+      action: 'CREATE',
+      userData,
+      target: { type: 'topic', topic },
+    });
+
+    const result = await send('admin-alerts');
+    await send('user-changes');
+
+    expect(sendEachForMulticast.mock.calls.map((call) => call[0].tokens)).toEqual([
+      ['admin-token'],
+      ['admin-token', 'editor-token'],
+    ]);
+    expect(result).toMatchObject({ success: true, topic: 'admin-alerts', successCount: 1, skippedByPreferences: 1 });
+    expect(sendToTopic).not.toHaveBeenCalled();
+    sendToTopic.mockRestore();
+  });
+
+  test('a segment target only reaches matching users', async () => {
+    const db = admin.firestore();
+    const accounts = [
+      { uid: 'seg-adult', email: 'adult@example.com' },
+      { uid: 'seg-teen', email: 'teen@example.com' },
+      { uid: 'seg-other', email: 'other@example.org' },
+    ];
+    for (const account of accounts) {
+      await admin.auth().deleteUser(account.uid).catch(() => undefined);
+      await admin.auth().createUser(account);
+      await db.doc(`devices/${account.uid}-token`).set({ token: `${account.uid}-token`, uid: account.uid });
+    }
+    await admin.auth().setCustomUserClaims('seg-adult', { role: 'editor' });
+    await db.doc('users/adult').set({ email: 'adult@example.com', age: '30' });
+    await db.doc('users/teen').set({ email: 'teen@example.com', age: '15' });
+    await db.doc('users/other').set({ email: 'other@example.org', age: '40' });
+    sendEachForMulticast = mockSend();
+
+    const send = (segment: object) => fanout.fanOutPushNotification({
+      action: 'CUSTOM',
+      userData: {},
+      target: { type: 'segment', segment },
+    });
+
+    await send({ minAge: 18, emailDomain: 'example.com' });
+    await send({ role: 'editor' });
+    const result = await send({ maxAge: 10 });
+
+    expect(sendEachForMulticast.mock.calls.map((call) => call[0].tokens)).toEqual([
+      ['seg-adult-token'],
+      ['seg-adult-token'],
+    ]);
+    expect(result).toEqual({ success: false, message: 'No users to notify' });
+  });
+
+  test('users who turned off push or are in quiet hours are skipped', async () => {
+    const db = admin.firestore();
+    await seedDevices(3);
+    await db.doc('notificationPreferences/user-1').set({ channels: { push: false } });
+    // Quiet hours covering the current UTC hour
+    const hour = new Date().getUTCHours();
+    const time = (h: number) => `${String(h % 24).padStart(2, '0')}:00`;
+    await db.doc('notificationPreferences/user-2').set({
+      quietHours: { enabled: true, start: time(hour), end: time(hour + 1), timeZone: 'UTC' },
+    });
+    sendEachForMulticast = mockSend();
+
+    const result = await fanout.fanOutPushNotification({ action: 'CREATE', userData });
+
+    expect(sendEachForMulticast.mock.calls[0][0].tokens).toEqual(['token-0']);
+    expect(result.skippedByPreferences).toBe(2);
+  });
+
+  test('emails follow the recipient\'s event settings', async () => {
+    const db = admin.firestore();
+    await admin.auth().deleteUser('pref-quiet').catch(() => undefined);
+    await admin.auth().createUser({ uid: 'pref-quiet', email: 'quiet@example.com' });
+    await db.doc('notificationPreferences/pref-quiet').set({ events: { DELETE: false } });
+    await db.doc('users/quiet').set({ email: 'quiet@example.com' });
+    await db.doc('users/no-account').set({ email: 'no-account@example.com' });
+    sendEachForMulticast = mockSend();
+
+    const result = await fanout.fanOutEmailNotification({
+      action: 'DELETE',
+      userData: { deletedUser: { name: 'Bob', email: 'bob@example.com', age: '40' } },
+    });
+
+    const queued = await db.collection('emailOutbox').get();
+    expect(queued.docs.map((doc) => doc.get('to'))).toEqual(['no-account@example.com']);
+    expect(result.queuedCount).toBe(1);
+    expect(result.skippedByPreferences).toBe(1);
+  });
+});
@@ -0,0 +1,375 @@
+import functionsTest from 'firebase-functions-test';
+import * as admin from 'firebase-admin';
+import { Messaging } from 'firebase-admin/messaging';
+
+// Runs against the Firestore emulator: `npm test` starts it through
+// `firebase emulators:exec`
+const PROJECT_ID = 'demo-curdfirebasedemo';
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+describeWithEmulator('onUserChange', () => {
+  const testEnv = functionsTest({ projectId: PROJECT_ID });
+  let myFunctions: typeof import('../src');
+  let sendEachForMulticast: jest.SpyInstance;
+
+  // Write to users/{userId} in the emulator and run the trigger with the
+  // resulting before/after snapshots
+  const writeUser = async (userId: string, write: (ref: admin.firestore.DocumentReference) => Promise<unknown>) => {
+    const ref = admin.firestore().doc(`users/${userId}`);
+    const before = await ref.get();
+    await write(ref);
+    const after = await ref.get();
+    const change = testEnv.makeChange(before, after);
+    await testEnv.wrap(myFunctions.onUserChange)(change, { params: { userId } });
+    return change;
+  };
+
+  beforeAll(() => {
+    myFunctions = require('../src');
+  });
+
+  beforeEach(async () => {
+    await testEnv.firestore.clearFirestoreData({ projectId: PROJECT_ID });
+    await admin.firestore().doc('users/reader').set({
+      name: 'Reader',
+      email: 'reader@example.com',
+    });
+    await admin.firestore().doc('devices/reader-token').set({ token: 'reader-token', uid: 'reader' });
+    // Alice makes the changes; her device is not notified
+    await admin.firestore().doc('devices/alice-token').set({ token: 'alice-token', uid: 'alice' });
+    testEnv.mockConfig({});
+    sendEachForMulticast = jest
+      .spyOn(Messaging.prototype, 'sendEachForMulticast')
+      .mockResolvedValue({ successCount: 1, failureCount: 0, responses: [] });
+  });
+
+  afterEach(() => {
+    sendEachForMulticast.mockRestore();
+  });
+
+  afterAll(() => {
+    testEnv.cleanup();
+  });
+
+  // Recipients of the emails fan-out wrote to the outbox
+  const queuedEmails = async () =>
+    (await admin.firestore().collection('emailOutbox').get()).docs.map((doc) => doc.get('to'));
+
+  // A user that matches the schema (functions/src/shared/userSchema.ts)
+  const alice = { name: 'Alice', email: 'alice@example.com', age: 30 };
+
+  const signedIn = { auth: { uid: 'alice', token: { email: 'alice@example.com', role: 'editor' } } };
+
+  test('a create sends one push batch to the other users', async () => {
+    await writeUser('alice', ref => ref.set({ ...alice, lastChangedBy: 'alice' }));
+
+    expect(sendEachForMulticast).toHaveBeenCalledTimes(1);
+    expect(sendEachForMulticast.mock.calls[0][0]).toMatchObject({
+      notification: { title: 'New User Added', body: 'Alice has been added to the system' },
+      data: { action: 'CREATE', userId: 'alice' },
+      tokens: ['reader-token'],
+    });
+  });
+
+  test('an update sends one push batch', async () => {
+    await admin.firestore().doc('users/alice').set({ ...alice, lastChangedBy: 'alice' });
+
+    await writeUser('alice', ref => ref.update({ name: 'Alicia' }));
+
+    expect(sendEachForMulticast).toHaveBeenCalledTimes(1);
+    expect(sendEachForMulticast.mock.calls[0][0]).toMatchObject({
+      notification: { body: 'Alicia\'s information has been updated: Name: Alice → Alicia' },
+      data: { action: 'UPDATE', userId: 'alice' },
+      tokens: ['reader-token'],
+    });
+  });
+
+  test('an update without user-visible changes sends nothing', async () => {
+    await admin.firestore().doc('users/alice').set({ ...alice, lastChangedBy: 'alice' });
+
+    await writeUser('alice', ref => ref.update({ lastChangeId: 'c2', lastChangedBy: 'bob' }));
+
+    expect(sendEachForMulticast).not.toHaveBeenCalled();
+    expect(await queuedEmails()).toEqual([]);
+  });
+
+  test('a delete sends one push batch', async () => {
+    await admin.firestore().doc('users/alice').set({ ...alice, lastChangedBy: 'alice' });
+
+    await writeUser('alice', ref => ref.delete());
+
+    expect(sendEachForMulticast).toHaveBeenCalledTimes(1);
+    expect(sendEachForMulticast.mock.calls[0][0]).toMatchObject({
+      notification: { body: 'Alice has been removed from the system' },
+      data: { action: 'DELETE', userId: 'alice' },
+    });
+  });
+
+  test('documents that do not match the schema are audited but not announced', async () => {
+    await writeUser('alice', ref => ref.set({ ...alice, age: 'thirty' }));
+    await writeUser('bob', ref => ref.set({ name: 'Bob', email: 'bob@example.com', age: 40, isAdmin: true }));
+
+    expect(sendEachForMulticast).not.toHaveBeenCalled();
+    expect(await queuedEmails()).toEqual([]);
+    expect((await admin.firestore().collection('auditLog').get()).size).toBe(2);
+  });
+
+  test('nothing is sent when no other user has a device', async () => {
+    await admin.firestore().doc('devices/reader-token').delete();
+
+    await writeUser('alice', ref => ref.set({ ...alice, lastChangedBy: 'alice' }));
+
+    expect(sendEachForMulticast).not.toHaveBeenCalled();
+  });
+
+  test('a change queues one email to the other users', async () => {
+    await writeUser('alice', ref => ref.set({ ...alice, lastChangeId: 'c1' }));
+
+    expect(await queuedEmails()).toEqual(['reader@example.com']);
+  });
+
+  test('a redelivered trigger event does not notify twice', async () => {
+    const change = await writeUser('alice', ref =>
+      ref.set({ ...alice, lastChangedBy: 'alice', lastChangeId: 'c1' }),
+    );
+
+    await testEnv.wrap(myFunctions.onUserChange)(change, { params: { userId: 'alice' } });
+
+    expect(sendEachForMulticast).toHaveBeenCalledTimes(1);
+    expect(await queuedEmails()).toHaveLength(1);
+  });
+
+  test('the callables skip user changes in server-driven mode', async () => {
+    await writeUser('alice', ref => ref.set({ ...alice, lastChangedBy: 'alice', lastChangeId: 'c1' }));
+
+    const result = await testEnv.wrap(myFunctions.sendNotificationToAllUsers)({
+      action: 'CREATE',
+      userData: { id: 'alice', name: 'Alice' },
+      changeId: 'c1',
+    }, signedIn);
+
+    expect(result).toMatchObject({ success: false });
+    expect(sendEachForMulticast).toHaveBeenCalledTimes(1);
+  });
+
+  test('in client-driven mode only the callables notify, once per change', async () => {
+    testEnv.mockConfig({ notifications: { mode: 'client' } });
+
+    await writeUser('alice', ref => ref.set({ ...alice, lastChangedBy: 'alice', lastChangeId: 'c1' }));
+    expect(sendEachForMulticast).not.toHaveBeenCalled();
+    expect(await queuedEmails()).toEqual([]);
+
+    const call = {
+      action: 'CREATE',
+      userData: { id: 'alice', name: 'Alice', email: 'alice@example.com' },
+      senderToken: 'alice-token',
+      changeId: 'c1',
+    };
+    await testEnv.wrap(myFunctions.sendNotificationToAllUsers)(call, signedIn);
+    await testEnv.wrap(myFunctions.sendNotificationToAllUsers)(call, signedIn);
+    await testEnv.wrap(myFunctions.sendEmailNotification)(call, signedIn);
+    await testEnv.wrap(myFunctions.sendEmailNotification)(call, signedIn);
+
+    expect(sendEachForMulticast).toHaveBeenCalledTimes(1);
+    expect(await queuedEmails()).toHaveLength(1);
+  });
+
+  test('editors cannot announce changes that were not made', async () => {
+    testEnv.mockConfig({ notifications: { mode: 'client' } });
+    await admin.firestore().doc('users/alice').set({ ...alice, lastChangedBy: 'alice', lastChangeId: 'c1' });
+
+    const madeUp = { action: 'UPDATE', userData: { id: 'alice', name: 'Alice was fired' }, changeId: 'made-up' };
+    await expect(testEnv.wrap(myFunctions.sendNotificationToAllUsers)(madeUp, signedIn))
+      .rejects.toMatchObject({ code: 'permission-denied' });
+    await expect(testEnv.wrap(myFunctions.sendEmailNotification)(madeUp, signedIn))
+      .rejects.toMatchObject({ code: 'permission-denied' });
+    await expect(testEnv.wrap(myFunctions.sendNotificationToAllUsers)({
+      ...madeUp,
+      changeId: 'c1',
+      target: { type: 'topic', topic: 'admin-alerts' },
+    }, signedIn)).rejects.toMatchObject({ code: 'permission-denied' });
+
+    expect(sendEachForMulticast).not.toHaveBeenCalled();
+    expect(await queuedEmails()).toEqual([]);
+  });
+
+  test('changes are logged for the digests in either delivery mode', async () => {
+    testEnv.mockConfig({ notifications: { mode: 'client' } });
+    await admin.firestore().doc('users/alice').set({ ...alice, lastChangedBy: 'alice' });
+
+    await writeUser('alice', ref => ref.update({ age: 31, lastChangeId: 'c2' }));
+
+    const log = await admin.firestore().collection('changeLog').get();
+    expect(log.docs.map((doc) => doc.id)).toEqual(['c2']);
+    expect(log.docs[0].data()).toMatchObject({
+      action: 'UPDATE',
+      userId: 'alice',
+      name: 'Alice',
+      actorUid: 'alice',
+      changes: [{ field: 'age', label: 'Age', before: '30', after: '31' }],
+    });
+  });
+
+  test('every write appends an audit entry with actor, device and snapshots', async () => {
+    const created = { ...alice, lastChangedBy: 'alice', lastChangedOn: 'android 0.0.1' };
+    await writeUser('alice', ref => ref.set(created));
+    await writeUser('alice', ref => ref.update({ lastChangeId: 'c2', lastChangedOn: 'ios 0.0.1' }));
+    await writeUser('alice', ref => ref.delete());
+
+    const log = await admin.firestore().collection('auditLog').orderBy('timestamp').get();
+    const entries = log.docs.map((doc) => doc.data());
+    expect(entries.map((entry) => entry.action)).toEqual(['CREATE', 'UPDATE', 'DELETE']);
+    expect(entries[0]).toMatchObject({ userId: 'alice', actorUid: 'alice', device: 'android 0.0.1', before: null, after: created });
+    // Audited even though nobody is notified about it
+    expect(entries[1]).toMatchObject({ device: 'ios 0.0.1', before: created, after: { ...created, lastChangeId: 'c2', lastChangedOn: 'ios 0.0.1' } });
+    expect(entries[2]).toMatchObject({ actorUid: null, device: null, after: null });
+  });
+
+  test('moving a user to the trash announces the delete, purging it later does not', async () => {
+    await admin.firestore().doc('users/alice').set({ ...alice, lastChangedBy: 'alice' });
+
+    await writeUser('alice', ref => ref.update({ deletedAt: new Date(), lastChangeId: 'c2', lastChangedBy: 'bob' }));
+    expect(sendEachForMulticast).toHaveBeenCalledTimes(1);
+    expect(sendEachForMulticast.mock.calls[0][0]).toMatchObject({
+      notification: { body: 'Alice has been removed from the system' },
+      data: { action: 'DELETE', userId: 'alice' },
+    });
+
+    await writeUser('alice', ref => ref.delete());
+    expect(sendEachForMulticast).toHaveBeenCalledTimes(1);
+
+    const log = await admin.firestore().collection('auditLog').orderBy('timestamp').get();
+    expect(log.docs.map((doc) => doc.get('action'))).toEqual(['TRASH', 'DELETE']);
+    expect(log.docs[0].data()).toMatchObject({ actorUid: 'bob' });
+  });
+
+  test('with delete_on=purge only the final delete is announced', async () => {
+    testEnv.mockConfig({ notifications: { delete_on: 'purge' } });
+    await admin.firestore().doc('users/alice').set({ ...alice, lastChangedBy: 'alice' });
+
+    await writeUser('alice', ref => ref.update({ deletedAt: new Date(), lastChangeId: 'c2' }));
+    expect(sendEachForMulticast).not.toHaveBeenCalled();
+    expect(await queuedEmails()).toEqual([]);
+
+    await writeUser('alice', ref => ref.delete());
+    expect(sendEachForMulticast).toHaveBeenCalledTimes(1);
+    expect(await queuedEmails()).toEqual(['reader@example.com']);
+  });
+
+  test('restoring a trashed user announces it again', async () => {
+    await admin.firestore().doc('users/alice').set({ ...alice, deletedAt: new Date() });
+
+    await writeUser('alice', ref => ref.update({ deletedAt: null, lastChangedBy: 'bob' }));
+
+    expect(sendEachForMulticast).toHaveBeenCalledTimes(1);
+    expect(sendEachForMulticast.mock.calls[0][0]).toMatchObject({
+      notification: { body: 'Alice has been added to the system' },
+      data: { action: 'CREATE', userId: 'alice' },
+    });
+    const log = await admin.firestore().collection('auditLog').get();
+    expect(log.docs.map((doc) => doc.get('action'))).toEqual(['RESTORE']);
+  });
+
+  test('with delete_on=purge a restore is audited but not announced', async () => {
+    testEnv.mockConfig({ notifications: { delete_on: 'purge' } });
+    await admin.firestore().doc('users/alice').set({ ...alice, deletedAt: new Date() });
+
+    await writeUser('alice', ref => ref.update({ deletedAt: null, lastChangedBy: 'bob' }));
+
+    expect(sendEachForMulticast).not.toHaveBeenCalled();
+    const log = await admin.firestore().collection('auditLog').get();
+    expect(log.docs.map((doc) => doc.get('action'))).toEqual(['RESTORE']);
+  });
+
+  test('the callables only send deletes at the configured stage', async () => {
+    testEnv.mockConfig({ notifications: { mode: 'client', delete_on: 'purge' } });
+    const call = {
+      action: 'DELETE',
+      userData: { id: 'alice', deletedUser: { name: 'Alice' } },
+      senderToken: 'alice-token',
+      changeId: 'alice_DELETE_c2',
+    };
+    const signedInAdmin = { auth: { uid: 'alice', token: { email: 'alice@example.com', role: 'admin' } } };
+
+    const trashed = await testEnv.wrap(myFunctions.sendNotificationToAllUsers)({ ...call, deleteStage: 'trash' }, signedInAdmin);
+    expect(trashed).toMatchObject({ success: false });
+    expect(sendEachForMulticast).not.toHaveBeenCalled();
+
+    await testEnv.wrap(myFunctions.sendNotificationToAllUsers)({ ...call, deleteStage: 'purge' }, signedInAdmin);
+    expect(sendEachForMulticast).toHaveBeenCalledTimes(1);
+  });
+
+  test('a redelivered trigger event is audited once', async () => {
+    const ref = admin.firestore().doc('users/alice');
+    const before = await ref.get();
+    await ref.set({ ...alice, lastChangedBy: 'alice' });
+    const change = testEnv.makeChange(before, await ref.get());
+    const context = { params: { userId: 'alice' }, eventId: 'event-1' };
+
+    await testEnv.wrap(myFunctions.onUserChange)(change, context);
+    await testEnv.wrap(myFunctions.onUserChange)(change, context);
+
+    const log = await admin.firestore().collection('auditLog').get();
+    expect(log.docs.map((doc) => doc.id)).toEqual(['event-1']);
+  });
+
+  test('users changed in a bulk action are audited but left to onBulkChange', async () => {
+    await admin.firestore().doc('users/bob').set({ name: 'Bob', email: 'bob@example.com', age: 41 });
+
+    await writeUser('bob', ref => ref.update({ deletedAt: new Date(), lastChangeId: 'bulk_b1_bob', lastChangedBy: 'alice' }));
+
+    expect(sendEachForMulticast).not.toHaveBeenCalled();
+    expect(await queuedEmails()).toEqual([]);
+    expect((await admin.firestore().collection('auditLog').get()).size).toBe(1);
+  });
+
+  test('onBulkChange sends one push and one email for the whole bulk action', async () => {
+    const db = admin.firestore();
+    const record = {
+      action: 'DELETE',
+      names: ['Bob', 'Carol', 'Dave', 'Eve', 'Mallory'],
+      userIds: ['bob', 'carol', 'dave', 'eve', 'mallory'],
+      lastChangedBy: 'alice',
+    };
+    for (const id of ['bob', 'carol', 'dave', 'eve']) {
+      const name = id.charAt(0).toUpperCase() + id.slice(1);
+      await db.doc(`users/${id}`).set({ name, email: `${id}@example.com`, age: 41, lastChangeId: `bulk_b1_${id}` });
+    }
+    // Listed, but not part of the batch
+    await db.doc('users/mallory').set({ name: 'Mallory', email: 'mallory@example.com', age: 41, lastChangeId: 'c1' });
+    await db.doc('bulkChanges/b1').set(record);
+    const snapshot = testEnv.firestore.makeDocumentSnapshot(record, 'bulkChanges/b1');
+    const context = { params: { bulkId: 'b1' } };
+
+    await testEnv.wrap(myFunctions.onBulkChange)(snapshot, context);
+    await testEnv.wrap(myFunctions.onBulkChange)(snapshot, context);
+
+    expect(sendEachForMulticast).toHaveBeenCalledTimes(1);
+    expect(sendEachForMulticast.mock.calls[0][0]).toMatchObject({
+      notification: { title: '4 users removed', body: 'Bob, Carol, Dave and 1 more have been removed' },
+      tokens: ['reader-token'],
+    });
+    expect(await queuedEmails()).toEqual(['reader@example.com']);
+  });
+
+  test('onBulkChange ignores names that no user in the batch has', async () => {
+    const db = admin.firestore();
+    const record = {
+      action: 'UPDATE',
+      names: ['Everyone', 'has', 'been', 'fired'],
+      userIds: ['bob', 'carol', 'dave', 'eve'],
+      lastChangedBy: 'alice',
+    };
+    await db.doc('users/bob').set({ name: 'Bob', email: 'bob@example.com', age: 41, lastChangeId: 'bulk_b2_bob' });
+    await db.doc('bulkChanges/b2').set(record);
+
+    await testEnv.wrap(myFunctions.onBulkChange)(
+      testEnv.firestore.makeDocumentSnapshot(record, 'bulkChanges/b2'),
+      { params: { bulkId: 'b2' } },
+    );
+
+    expect(sendEachForMulticast.mock.calls[0][0]).toMatchObject({
+      notification: { title: '1 user updated', body: 'Bob has been updated' },
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  DEFAULT_PREFERENCES,
+  NotificationPreferences,
+  isQuietTime,
+  shouldNotify,
+  validatePreferences,
+  withDefaults,
+} from '../src/shared/preferences';
+
+const withQuietHours = (quietHours: Partial<NotificationPreferences['quietHours']>): NotificationPreferences => ({
+  ...DEFAULT_PREFERENCES,
+  quietHours: { ...DEFAULT_PREFERENCES.quietHours, enabled: true, ...quietHours },
+});
+
+describe('withDefaults', () => {
+  test('fills in missing settings', () => {
+    expect(withDefaults(undefined)).toEqual(DEFAULT_PREFERENCES);
+    expect(withDefaults({ channels: { email: false } }).channels).toEqual({ push: true, email: false, system: true });
+    expect(withDefaults({ digest: 'hourly' }).digest).toBe('off');
+  });
+});
+
+describe('isQuietTime', () => {
+  // 23:30 UTC is 01:30 the next day in Berlin (summer time)
+  const lateEvening = new Date('2024-07-01T23:30:00Z');
+  const midday = new Date('2024-07-01T12:00:00Z');
+
+  test('quiet hours spanning midnight', () => {
+    const quietHours = withQuietHours({ start: '22:00', end: '07:00', timeZone: 'UTC' }).quietHours;
+    expect(isQuietTime(quietHours, lateEvening)).toBe(true);
+    expect(isQuietTime(quietHours, midday)).toBe(false);
+  });
+
+  test('times are compared in the user\'s time zone', () => {
+    const quietHours = withQuietHours({ start: '01:00', end: '02:00', timeZone: 'Europe/Berlin' }).quietHours;
+    expect(isQuietTime(quietHours, lateEvening)).toBe(true);
+    expect(isQuietTime({ ...quietHours, timeZone: 'UTC' }, lateEvening)).toBe(false);
+  });
+
+  test('disabled or invalid quiet hours never apply', () => {
+    expect(isQuietTime({ ...DEFAULT_PREFERENCES.quietHours, start: '00:00', end: '23:59' }, midday)).toBe(false);
+    expect(isQuietTime(withQuietHours({ start: '00:00', end: '23:59', timeZone: 'Mars/Base' }).quietHours, midday)).toBe(false);
+  });
+});
+
+describe('shouldNotify', () => {
+  const midday = new Date('2024-07-01T12:00:00Z');
+
+  test('channels and events can be turned off', () => {
+    const preferences = {
+      ...DEFAULT_PREFERENCES,
+      channels: { ...DEFAULT_PREFERENCES.channels, email: false },
+      events: { ...DEFAULT_PREFERENCES.events, UPDATE: false },
+    };
+    expect(shouldNotify(preferences, 'email', 'CREATE', midday)).toBe(false);
+    expect(shouldNotify(preferences, 'push', 'UPDATE', midday)).toBe(false);
+    expect(shouldNotify(preferences, 'push', 'CREATE', midday)).toBe(true);
+    // Broadcasts are not user change events
+    expect(shouldNotify(preferences, 'push', 'CUSTOM', midday)).toBe(true);
+  });
+
+  test('quiet hours hold back push and system notifications but not email', () => {
+    const preferences = withQuietHours({ start: '11:00', end: '13:00', timeZone: 'UTC' });
+    expect(shouldNotify(preferences, 'push', 'CREATE', midday)).toBe(false);
+    expect(shouldNotify(preferences, 'system', 'CREATE', midday)).toBe(false);
+    expect(shouldNotify(preferences, 'email', 'CREATE', midday)).toBe(true);
+  });
+
+  test('a digest replaces per-change emails but not broadcasts or push', () => {
+    const preferences: NotificationPreferences = { ...DEFAULT_PREFERENCES, digest: 'weekly' };
+    expect(shouldNotify(preferences, 'email', 'UPDATE', midday)).toBe(false);
+    expect(shouldNotify(preferences, 'email', 'CUSTOM', midday)).toBe(true);
+    expect(shouldNotify(preferences, 'push', 'UPDATE', midday)).toBe(true);
+  });
+});
+
+describe('validatePreferences', () => {
+  test('rejects bad times and time zones', () => {
+    expect(validatePreferences(DEFAULT_PREFERENCES)).toBeUndefined();
+    expect(validatePreferences(withQuietHours({ start: '25:00' }))).toMatch(/times/);
+    expect(validatePreferences(withQuietHours({ timeZone: 'Nowhere' }))).toMatch(/Time zone/);
+    expect(validatePreferences({ ...DEFAULT_PREFERENCES, digest: 'hourly' as any })).toMatch(/Digest/);
+  });
+});
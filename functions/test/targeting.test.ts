@@ -0,0 +1,39 @@
+import { matchesSegment, parsePushTarget } from '../src/shared/targeting';
+
+describe('parsePushTarget', () => {
+  test('accepts all, known topics and segments', () => {
+    expect(parsePushTarget({ type: 'all' })).toEqual({ type: 'all' });
+    expect(parsePushTarget({ type: 'topic', topic: 'admin-alerts' })).toEqual({ type: 'topic', topic: 'admin-alerts' });
+    expect(parsePushTarget({ type: 'segment', segment: { minAge: 18, emailDomain: 'example.com', role: 'editor' } }))
+      .toMatchObject({ type: 'segment', segment: { minAge: 18, emailDomain: 'example.com', role: 'editor' } });
+  });
+
+  test('rejects anything else', () => {
+    expect(parsePushTarget(undefined)).toBeNull();
+    expect(parsePushTarget({ type: 'topic', topic: 'everyone' })).toBeNull();
+    expect(parsePushTarget({ type: 'segment' })).toBeNull();
+    expect(parsePushTarget({ type: 'segment', segment: { maxAge: '30' } })).toBeNull();
+    expect(parsePushTarget({ type: 'segment', segment: { emailDomain: '' } })).toBeNull();
+    expect(parsePushTarget({ type: 'segment', segment: { role: 'owner' } })).toBeNull();
+  });
+});
+
+describe('matchesSegment', () => {
+  const member = { email: 'Alice@Example.com', role: 'editor' as const, age: 30 };
+
+  test('an empty segment matches everyone', () => {
+    expect(matchesSegment(member, {})).toBe(true);
+  });
+
+  test('all conditions must match', () => {
+    expect(matchesSegment(member, { emailDomain: 'example.COM', role: 'editor', minAge: 30, maxAge: 30 })).toBe(true);
+    expect(matchesSegment(member, { emailDomain: 'example.org' })).toBe(false);
+    expect(matchesSegment(member, { role: 'admin' })).toBe(false);
+    expect(matchesSegment(member, { minAge: 31 })).toBe(false);
+    expect(matchesSegment(member, { maxAge: 29 })).toBe(false);
+  });
+
+  test('users without an age are outside any age range', () => {
+    expect(matchesSegment({ ...member, age: undefined }, { minAge: 0 })).toBe(false);
+  });
+});
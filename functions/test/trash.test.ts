@@ -0,0 +1,72 @@
+import functionsTest from 'firebase-functions-test';
+import * as admin from 'firebase-admin';
+import { getTrashRetentionDays } from '../src/trash';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('getTrashRetentionDays', () => {
+  const testEnv = functionsTest();
+
+  afterAll(() => {
+    testEnv.cleanup();
+  });
+
+  test('defaults to 30 days', () => {
+    testEnv.mockConfig({});
+    expect(getTrashRetentionDays()).toBe(30);
+  });
+
+  test('reads trash.retention_days and ignores nonsense', () => {
+    testEnv.mockConfig({ trash: { retention_days: '7' } });
+    expect(getTrashRetentionDays()).toBe(7);
+    testEnv.mockConfig({ trash: { retention_days: 'soon' } });
+    expect(getTrashRetentionDays()).toBe(30);
+  });
+});
+
+// Purging needs the Firestore emulator. Uses its own project id so it does
+// not share data with other suites.
+const PROJECT_ID = 'demo-curdfirebasedemo-trash';
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+describeWithEmulator('purgeTrash', () => {
+  const testEnv = functionsTest({ projectId: PROJECT_ID });
+  let trash: typeof import('../src/trash');
+  const now = new Date('2026-10-19T03:00:00Z');
+
+  beforeAll(() => {
+    require('../src');
+    trash = require('../src/trash');
+  });
+
+  beforeEach(async () => {
+    await testEnv.firestore.clearFirestoreData({ projectId: PROJECT_ID });
+    testEnv.mockConfig({ trash: { retention_days: '7' } });
+    const db = admin.firestore();
+    await db.doc('users/active').set({ name: 'Active' });
+    await db.doc('users/recent').set({ name: 'Recent', deletedAt: new Date(now.getTime() - 6 * DAY_MS) });
+    await db.doc('users/expired').set({
+      name: 'Expired',
+      email: 'Expired@example.com',
+      deletedAt: new Date(now.getTime() - 8 * DAY_MS),
+    });
+    await db.doc('emailIndex/expired@example.com').set({ userId: 'expired' });
+  });
+
+  afterAll(() => {
+    testEnv.cleanup();
+  });
+
+  test('deletes only users trashed longer ago than the retention', async () => {
+    expect(await trash.purgeTrash(now)).toBe(1);
+
+    const users = await admin.firestore().collection('users').get();
+    expect(users.docs.map((doc) => doc.id).sort()).toEqual(['active', 'recent']);
+  });
+
+  test('releases the email reservations of purged users', async () => {
+    await trash.purgeTrash(now);
+
+    expect((await admin.firestore().doc('emailIndex/expired@example.com').get()).exists).toBe(false);
+  });
+});
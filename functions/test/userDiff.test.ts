@@ -0,0 +1,55 @@
+import { changesForUpdate, diffUser, summarizeChanges } from '../src/shared/userDiff';
+
+describe('diffUser', () => {
+  const before = { id: 'alice', name: 'Alice', email: 'alice@example.com', age: '30', lastChangeId: 'c1' };
+
+  test('lists changed fields with display values', () => {
+    expect(diffUser(before, { ...before, age: '31', email: '' })).toEqual([
+      { field: 'email', label: 'Email', before: 'alice@example.com', after: '—' },
+      { field: 'age', label: 'Age', before: '30', after: '31' },
+    ]);
+  });
+
+  test('bookkeeping fields are not user-visible changes', () => {
+    expect(diffUser(before, {
+      ...before,
+      lastChangeId: 'c2',
+      lastChangedBy: 'bob',
+      fcmToken: 'token',
+      createdAt: new Date(),
+    })).toEqual([]);
+  });
+
+  test('new fields are included with a readable label', () => {
+    expect(diffUser(before, { ...before, phoneNumber: '555-0100' })).toEqual([
+      { field: 'phoneNumber', label: 'Phone Number', before: '—', after: '555-0100' },
+    ]);
+  });
+
+  test('custom fields are compared one by one with their defined labels', () => {
+    const customFields = [{ key: 'startDate', label: 'Start date', type: 'date' as const }];
+    expect(diffUser(
+      { ...before, customFields: { startDate: '2026-01-05', team: 'A' } },
+      { ...before, customFields: { startDate: '2026-02-01', team: 'B' } },
+      customFields,
+    )).toEqual([
+      { field: 'startDate', label: 'Start date', before: '2026-01-05', after: '2026-02-01' },
+      { field: 'team', label: 'Team', before: 'A', after: 'B' },
+    ]);
+  });
+});
+
+describe('summarizeChanges', () => {
+  test('joins the changes on one line', () => {
+    const changes = diffUser({ name: 'Alice', age: '30' }, { name: 'Alicia', age: '31' });
+    expect(summarizeChanges(changes)).toBe('Name: Alice → Alicia, Age: 30 → 31');
+  });
+});
+
+describe('changesForUpdate', () => {
+  test('needs an UPDATE with the previous version', () => {
+    expect(changesForUpdate('UPDATE', { name: 'Alicia', oldData: { name: 'Alice' } })).toHaveLength(1);
+    expect(changesForUpdate('UPDATE', { name: 'Alicia' })).toBeUndefined();
+    expect(changesForUpdate('CREATE', { name: 'Alicia', oldData: { name: 'Alice' } })).toBeUndefined();
+  });
+});
@@ -0,0 +1,132 @@
+import functionsTest from 'firebase-functions-test';
+import * as admin from 'firebase-admin';
+import { formatCsvRow, parseCsv } from '../src/csv';
+import { ExportRequestError, exportRow, matchesExportFilters, parseExportRequest } from '../src/userExport';
+import { exportFileName, exportQueryString } from '../src/shared/userExport';
+
+describe('formatCsvRow', () => {
+  test('quotes fields with commas, quotes and line breaks', () => {
+    expect(formatCsvRow(['plain', 'Smith, Alice', 'Says "hi"', 'two\nlines', ''])).toBe(
+      'plain,"Smith, Alice","Says ""hi""","two\nlines",\r\n',
+    );
+  });
+
+  test('reads back with parseCsv', () => {
+    const row = ['1+1', ' padded ', '"quoted"', 'a,b\r\nc'];
+    expect(parseCsv(formatCsvRow(row))).toEqual([row]);
+  });
+
+  test('keeps spreadsheets from running fields as formulas', () => {
+    expect(formatCsvRow(['=x@y.z', '+1', '-1', '@SUM(A1)', '=HYPERLINK("x")', 'a=b'])).toBe(
+      '\'=x@y.z,\'+1,\'-1,\'@SUM(A1),"\'=HYPERLINK(""x"")",a=b\r\n',
+    );
+  });
+});
+
+describe('parseExportRequest', () => {
+  test('reads back exportQueryString', () => {
+    const filters = {
+      search: 'Ali',
+      minAge: 18,
+      maxAge: 65,
+      createdFrom: new Date('2026-01-01T00:00:00Z'),
+      createdTo: new Date('2026-06-30T23:59:59.999Z'),
+    };
+    const query = Object.fromEntries(new URLSearchParams(exportQueryString('json', filters)));
+    expect(parseExportRequest(query)).toEqual({ format: 'json', filters });
+  });
+
+  test('defaults to CSV of every user', () => {
+    expect(parseExportRequest({})).toEqual({ format: 'csv', filters: {} });
+  });
+
+  test('rejects unknown formats and unreadable filters', () => {
+    expect(() => parseExportRequest({ format: 'xml' })).toThrow(ExportRequestError);
+    expect(() => parseExportRequest({ minAge: 'ten' })).toThrow(ExportRequestError);
+    expect(() => parseExportRequest({ createdFrom: 'yesterday' })).toThrow(ExportRequestError);
+  });
+
+  test('exportFileName is dated', () => {
+    expect(exportFileName('csv', new Date('2026-10-19T12:00:00Z'))).toBe('users-2026-10-19.csv');
+  });
+});
+
+describe('exportRow and matchesExportFilters', () => {
+  const createdAt = admin.firestore.Timestamp.fromDate(new Date('2026-03-01T10:00:00Z'));
+  const alice = { name: 'Alice Smith', email: 'alice@example.com', age: '30', createdAt, searchKeywords: ['a'] };
+
+  test('keeps the export columns only, with null for missing values', () => {
+    expect(exportRow('alice', alice)).toEqual({
+      id: 'alice',
+      name: 'Alice Smith',
+      email: 'alice@example.com',
+      age: 30,
+      createdAt: '2026-03-01T10:00:00.000Z',
+    });
+    expect(exportRow('bob', { name: 'Bob' })).toEqual({ id: 'bob', name: 'Bob', email: null, age: null, createdAt: null });
+  });
+
+  test('applies the filters and leaves out trashed users', () => {
+    expect(matchesExportFilters(alice, {})).toBe(true);
+    expect(matchesExportFilters(alice, { search: 'smi', minAge: 30, maxAge: 30 })).toBe(true);
+    expect(matchesExportFilters(alice, { search: 'bob' })).toBe(false);
+    expect(matchesExportFilters(alice, { createdFrom: new Date('2026-04-01') })).toBe(false);
+    expect(matchesExportFilters({ ...alice, deletedAt: createdAt }, {})).toBe(false);
+  });
+});
+
+// Runs against the Firestore emulator. Uses its own project id so it does
+// not share data with other suites.
+const PROJECT_ID = 'demo-curdfirebasedemo-export';
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+describeWithEmulator('streamUsersExport', () => {
+  const testEnv = functionsTest({ projectId: PROJECT_ID });
+  let userExport: typeof import('../src/userExport');
+
+  const run = async (query: { [name: string]: string }) => {
+    let output = '';
+    const count = await userExport.streamUsersExport(userExport.parseExportRequest(query), (chunk) => {
+      output += chunk;
+    });
+    return { count, output };
+  };
+
+  beforeAll(() => {
+    require('../src');
+    userExport = require('../src/userExport');
+  });
+
+  beforeEach(async () => {
+    await testEnv.firestore.clearFirestoreData({ projectId: PROJECT_ID });
+    const db = admin.firestore();
+    await db.doc('users/alice').set({ name: 'Alice Smith', email: 'alice@example.com', age: 30, searchKeywords: ['ali'] });
+    await db.doc('users/bob').set({ name: 'Bob, "Bobby" Jones', email: 'bob@example.com', age: 41 });
+    await db.doc('users/gone').set({ name: 'Gone', email: 'gone@example.com', age: 50, deletedAt: new Date() });
+  });
+
+  afterAll(() => {
+    testEnv.cleanup();
+  });
+
+  test('writes CSV in document id order with a header', async () => {
+    const { count, output } = await run({});
+
+    expect(count).toBe(2);
+    expect(parseCsv(output)).toEqual([
+      ['id', 'name', 'email', 'age', 'createdAt'],
+      ['alice', 'Alice Smith', 'alice@example.com', '30', ''],
+      ['bob', 'Bob, "Bobby" Jones', 'bob@example.com', '41', ''],
+    ]);
+  });
+
+  test('writes a JSON array of the matching users', async () => {
+    const { count, output } = await run({ format: 'json', search: 'ali' });
+
+    expect(count).toBe(1);
+    expect(JSON.parse(output)).toEqual([
+      { id: 'alice', name: 'Alice Smith', email: 'alice@example.com', age: 30, createdAt: null },
+    ]);
+    expect(JSON.parse((await run({ format: 'json', minAge: '99' })).output)).toEqual([]);
+  });
+});
@@ -0,0 +1,212 @@
+import functionsTest from 'firebase-functions-test';
+import * as admin from 'firebase-admin';
+import { CsvFormatError, parseCsv } from '../src/csv';
+import { ImportFormatError, parseImportRecords, validateImportRecord } from '../src/userImport';
+import { bulkChange, describeBulkChange } from '../src/shared/bulk';
+import { detectImportFormat } from '../src/shared/userImport';
+import { parseCustomFields } from '../src/shared/userSchema';
+
+// Custom fields as defined in schema/users
+const customFields = parseCustomFields({
+  fields: [
+    { key: 'department', label: 'Department', type: 'select', options: ['Sales', 'Support'], required: true },
+    { key: 'startDate', label: 'Start date', type: 'date' },
+  ],
+});
+
+describe('parseCsv', () => {
+  test('handles quoted commas, quotes and line breaks', () => {
+    expect(parseCsv('name,note\r\n"Smith, Alice","Says ""hi""\nthere"\n')).toEqual([
+      ['name', 'note'],
+      ['Smith, Alice', 'Says "hi"\nthere'],
+    ]);
+  });
+
+  test('skips a byte order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFa,b\n\n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  test('rejects an unclosed quote', () => {
+    expect(() => parseCsv('a,"b\n1,2')).toThrow(CsvFormatError);
+  });
+});
+
+describe('parseImportRecords', () => {
+  test('reads CSV columns in any order and case, numbering rows from the header', () => {
+    expect(parseImportRecords('csv', 'Email,AGE,name\nalice@example.com,30,Alice\nbob@example.com,41\n')).toEqual([
+      { row: 2, fields: { email: 'alice@example.com', age: '30', name: 'Alice' } },
+      { row: 3, fields: {}, problem: 'Expected 3 values, found 2' },
+    ]);
+  });
+
+  test('needs exactly the name, email and age columns', () => {
+    expect(() => parseImportRecords('csv', 'name,email\nAlice,alice@example.com')).toThrow(ImportFormatError);
+    expect(() => parseImportRecords('csv', 'name,email,age,role\n')).toThrow(ImportFormatError);
+  });
+
+  test('accepts columns for the custom fields, named by their key', () => {
+    expect(parseImportRecords('csv', 'name,email,age,Department\nAlice,alice@example.com,30,Sales\n', customFields))
+      .toEqual([{ row: 2, fields: { name: 'Alice', email: 'alice@example.com', age: '30', department: 'Sales' } }]);
+    expect(() => parseImportRecords('csv', 'name,email,age,department\n')).toThrow(ImportFormatError);
+    expect(() => parseImportRecords('csv', 'name,email,age,team\n', customFields)).toThrow(ImportFormatError);
+  });
+
+  test('reads a JSON array of objects', () => {
+    expect(parseImportRecords('json', '[{"name": "Alice", "email": "alice@example.com", "age": 30}, 5]')).toEqual([
+      { row: 1, fields: { name: 'Alice', email: 'alice@example.com', age: 30 } },
+      { row: 2, fields: {}, problem: 'Each user must be an object' },
+    ]);
+    expect(() => parseImportRecords('json', '{"name": "Alice"}')).toThrow(ImportFormatError);
+    expect(() => parseImportRecords('json', '[{')).toThrow(ImportFormatError);
+  });
+
+  test('detectImportFormat tells JSON arrays from CSV', () => {
+    expect(detectImportFormat('  [{"name": "Alice"}]')).toBe('json');
+    expect(detectImportFormat('name,email,age')).toBe('csv');
+  });
+});
+
+describe('validateImportRecord', () => {
+  test('reports every invalid and unknown field of a row', () => {
+    const errors = validateImportRecord({ row: 4, fields: { name: '', email: 'nope', age: '30', role: 'admin' } });
+    expect(errors.map(({ row, field }) => ({ row, field }))).toEqual([
+      { row: 4, field: 'role' },
+      { row: 4, field: 'name' },
+      { row: 4, field: 'email' },
+    ]);
+  });
+
+  test('checks custom fields with their definitions', () => {
+    const errors = validateImportRecord(
+      { row: 3, fields: { name: 'Alice', email: 'alice@example.com', age: '30', startDate: '2026-02-30' } },
+      customFields,
+    );
+    expect(errors).toEqual([
+      { row: 3, field: 'department', message: 'Department is required' },
+      { row: 3, field: 'startDate', message: 'Start date must be a date (YYYY-MM-DD)' },
+    ]);
+  });
+
+  test('accepts a valid row', () => {
+    expect(validateImportRecord({ row: 2, fields: { name: 'Alice', email: 'alice@example.com', age: '30' } })).toEqual([]);
+  });
+});
+
+describe('describeBulkChange', () => {
+  test('names the first users and counts the rest', () => {
+    expect(describeBulkChange('CREATE', bulkChange(['Alice', 'Bob', 'Carol', 'Dave', 'Eve']))).toEqual({
+      title: '5 users added',
+      body: 'Alice, Bob, Carol and 2 more have been added',
+    });
+  });
+
+  test('lists a few users in full', () => {
+    expect(describeBulkChange('DELETE', bulkChange(['Alice', 'Bob'])).body).toBe('Alice and Bob have been removed');
+    expect(describeBulkChange('UPDATE', bulkChange(['Alice']))).toEqual({
+      title: '1 user updated',
+      body: 'Alice has been updated',
+    });
+  });
+});
+
+// Runs against the Firestore emulator. Uses its own project id so it does
+// not share data with other suites.
+const PROJECT_ID = 'demo-curdfirebasedemo-import';
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+describeWithEmulator('importUsers', () => {
+  const testEnv = functionsTest({ projectId: PROJECT_ID });
+  let userImport: typeof import('../src/userImport');
+
+  const csv = [
+    'name,email,age',
+    'Alice,alice@example.com,30',
+    'Bob,bob@example.com,41',
+    'Robert,BOB@example.com,42',
+    'Carol,carol@example.com,-1',
+    'Taken,existing@example.com,50',
+  ].join('\n');
+
+  beforeAll(() => {
+    require('../src');
+    userImport = require('../src/userImport');
+  });
+
+  beforeEach(async () => {
+    await testEnv.firestore.clearFirestoreData({ projectId: PROJECT_ID });
+    const db = admin.firestore();
+    await db.doc('users/existing').set({ name: 'Existing', email: 'Existing@example.com', age: 20 });
+    await db.doc('emailIndex/existing@example.com').set({ userId: 'existing' });
+  });
+
+  afterAll(() => {
+    testEnv.cleanup();
+  });
+
+  test('a dry run reports errors and duplicates without writing', async () => {
+    const report = await userImport.importUsers('csv', csv, { dryRun: true, uid: 'importer' });
+
+    expect(report).toMatchObject({ dryRun: true, total: 5, valid: 2, imported: 0 });
+    expect(report.errors).toEqual([{ row: 5, field: 'age', message: expect.any(String) }]);
+    expect(report.duplicates).toEqual([
+      { row: 4, email: 'BOB@example.com', duplicateOfRow: 3, duplicateOfUserId: undefined },
+      { row: 6, email: 'existing@example.com', duplicateOfRow: undefined, duplicateOfUserId: 'existing' },
+    ]);
+    expect((await admin.firestore().collection('users').get()).size).toBe(1);
+  });
+
+  test('writes the valid rows with their email reservations and notification claims', async () => {
+    const report = await userImport.importUsers('csv', csv, { dryRun: false, uid: 'importer' });
+    expect(report.imported).toBe(2);
+
+    const db = admin.firestore();
+    const imported = await db.collection('users').where('ownerUid', '==', 'importer').get();
+    expect(imported.docs.map((doc) => doc.get('name')).sort()).toEqual(['Alice', 'Bob']);
+
+    const alice = imported.docs.find((doc) => doc.get('name') === 'Alice')!;
+    expect(alice.get('age')).toBe(30);
+    expect(alice.get('searchKeywords')).toContain('ali');
+    expect((await db.doc('emailIndex/alice@example.com').get()).get('userId')).toBe(alice.id);
+    expect((await db.doc(`notificationEvents/${alice.get('lastChangeId')}_push`).get()).exists).toBe(true);
+    expect((await db.doc(`notificationEvents/${alice.get('lastChangeId')}_email`).get()).exists).toBe(true);
+  });
+
+  test('stores the custom fields of schema/users in customFields', async () => {
+    const db = admin.firestore();
+    await db.doc('schema/users').set({
+      fields: [{ key: 'department', label: 'Department', type: 'select', options: ['Sales', 'Support'] }],
+    });
+    const file = 'name,email,age,department\nAlice,alice@example.com,30,Sales\nBob,bob@example.com,41,Legal\n';
+
+    const report = await userImport.importUsers('csv', file, { dryRun: false, uid: 'importer' });
+
+    expect(report).toMatchObject({ imported: 1, errors: [{ row: 3, field: 'department' }] });
+    const alice = await db.collection('users').where('email', '==', 'alice@example.com').get();
+    expect(alice.docs[0].get('customFields')).toEqual({ department: 'Sales' });
+  });
+
+  test('takes over reservations left behind by removed users', async () => {
+    const db = admin.firestore();
+    await db.doc('emailIndex/alice@example.com').set({ userId: 'gone' });
+    await db.doc('emailIndex/bob@example.com').set({ userId: 'existing' });
+
+    const dryRun = await userImport.importUsers('csv', csv, { dryRun: true, uid: 'importer' });
+    expect(dryRun.valid).toBe(2);
+
+    const report = await userImport.importUsers('csv', csv, { dryRun: false, uid: 'importer' });
+    expect(report).toMatchObject({ imported: 2, errors: [{ row: 5, field: 'age' }] });
+
+    const alice = await db.collection('users').where('email', '==', 'alice@example.com').get();
+    const bob = await db.collection('users').where('email', '==', 'bob@example.com').get();
+    expect((await db.doc('emailIndex/alice@example.com').get()).get('userId')).toBe(alice.docs[0].id);
+    expect((await db.doc('emailIndex/bob@example.com').get()).get('userId')).toBe(bob.docs[0].id);
+  });
+
+  test('importing the same file again finds every row already taken', async () => {
+    await userImport.importUsers('csv', csv, { dryRun: false, uid: 'importer' });
+    const report = await userImport.importUsers('csv', csv, { dryRun: false, uid: 'importer' });
+
+    expect(report.imported).toBe(0);
+    expect(report.duplicates.map((duplicate) => duplicate.row)).toEqual([2, 3, 4, 6]);
+  });
+});
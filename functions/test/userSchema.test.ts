@@ -0,0 +1,104 @@
+import {
+  customFieldValues,
+  parseAge,
+  parseCustomFields,
+  unknownFields,
+  validateUser,
+} from '../src/shared/userSchema';
+
+describe('validateUser', () => {
+  const alice = { name: 'Alice Smith', email: 'alice@example.com', age: 30 };
+
+  test('accepts a valid user', () => {
+    expect(validateUser(alice)).toEqual({});
+  });
+
+  test('reports every invalid field', () => {
+    expect(validateUser({ name: 'A', email: 'alice', age: 121 })).toEqual({
+      name: 'Name must be at least 2 characters',
+      email: 'Please enter a valid email address',
+      age: 'Age must be between 1 and 120',
+    });
+  });
+
+  test('requires every field', () => {
+    expect(Object.keys(validateUser({}))).toEqual(['name', 'email', 'age']);
+    expect(validateUser({ ...alice, name: '   ' })).toEqual({ name: 'Name is required' });
+  });
+
+  test('rejects names with anything but letters and spaces', () => {
+    expect(validateUser({ ...alice, name: 'Alice2' })).toEqual({ name: 'Name can only contain letters and spaces' });
+  });
+
+  test('accepts the age as typed text and rejects fractions', () => {
+    expect(validateUser({ ...alice, age: ' 30 ' })).toEqual({});
+    expect(validateUser({ ...alice, age: '30.5' })).toEqual({ age: 'Age must be a whole number' });
+    expect(validateUser({ ...alice, age: 30.5 })).toEqual({ age: 'Age must be a whole number' });
+  });
+});
+
+describe('parseAge', () => {
+  test('reads stored numbers and typed text', () => {
+    expect(parseAge(30)).toBe(30);
+    expect(parseAge('30')).toBe(30);
+    expect(parseAge('thirty')).toBeNull();
+    expect(parseAge(undefined)).toBeNull();
+  });
+});
+
+describe('unknownFields', () => {
+  test('lists fields outside the schema', () => {
+    expect(unknownFields({ name: 'Alice', lastChangeId: 'c1', isAdmin: true })).toEqual(['isAdmin']);
+  });
+});
+
+describe('custom fields', () => {
+  const alice = { name: 'Alice Smith', email: 'alice@example.com', age: 30 };
+  const customFields = parseCustomFields({
+    fields: [
+      { key: 'phone', label: 'Phone', type: 'text', pattern: '^\\+?[0-9 ]{7,15}$', patternMessage: 'Enter a phone number' },
+      { key: 'department', label: 'Department', type: 'select', options: ['Sales', 'Support'], required: true },
+      { key: 'startDate', label: 'Start date', type: 'date' },
+      { key: 'level', label: 'Level', type: 'number', min: 1, max: 5 },
+    ],
+  });
+
+  test('parseCustomFields leaves out definitions it cannot use', () => {
+    expect(parseCustomFields({
+      fields: [
+        { key: 'phone', type: 'text' },
+        { key: 'phone', type: 'number' },
+        { key: 'email', type: 'text' },
+        { key: 'a-b', type: 'text' },
+        { key: 'color', type: 'colour' },
+        { key: 'team', type: 'select', options: [] },
+        { key: 'code', type: 'text', pattern: '(' },
+      ],
+    })).toEqual([{ key: 'phone', label: 'phone', type: 'text', required: false }]);
+    expect(parseCustomFields(undefined)).toEqual([]);
+  });
+
+  test('validateUser checks the defined fields in customFields', () => {
+    expect(validateUser({ ...alice, customFields: { department: 'Sales' } }, customFields)).toEqual({});
+    expect(validateUser({
+      ...alice,
+      customFields: { phone: 'call me', startDate: '2026-02-30', level: '9' },
+    }, customFields)).toEqual({
+      phone: 'Enter a phone number',
+      department: 'Department is required',
+      startDate: 'Start date must be a date (YYYY-MM-DD)',
+      level: 'Level must be between 1 and 5',
+    });
+    expect(validateUser({ ...alice, customFields: { department: 'Legal' } }, customFields)).toEqual({
+      department: 'Department must be one of Sales, Support',
+    });
+  });
+
+  test('customFieldValues stores typed values and keeps fields no longer defined', () => {
+    expect(customFieldValues(
+      customFields,
+      { phone: ' ', department: ' Sales ', startDate: '2026-01-05', level: '3' },
+      { phone: '555 0100', retired: 'yes' },
+    )).toEqual({ department: 'Sales', startDate: '2026-01-05', level: 3, retired: 'yes' });
+  });
+});
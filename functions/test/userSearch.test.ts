@@ -0,0 +1,33 @@
+import { matchesSearch, searchKeyword, searchKeywords } from '../src/shared/userSearch';
+
+describe('searchKeywords', () => {
+  const keywords = searchKeywords({ name: 'Alice Smith', email: 'Alice@Example.com' });
+
+  test('holds the prefixes of the name, its words and the email in lowercase', () => {
+    expect(keywords).toEqual(expect.arrayContaining(['a', 'alice', 'alice s', 'sm', 'smith', 'alice@example.com']));
+    expect(keywords).not.toContain('Alice');
+    expect(new Set(keywords).size).toBe(keywords.length);
+  });
+
+  test('stops at 20 characters', () => {
+    expect(Math.max(...keywords.map((keyword) => keyword.length))).toBe(17);
+    const long = searchKeywords({ name: 'Bob', email: 'bartholomew.roberts@example.com' });
+    expect(long).toContain('bartholomew.roberts@');
+    expect(long).not.toContain('bartholomew.roberts@e');
+  });
+});
+
+describe('matchesSearch', () => {
+  const alice = { name: 'Alice Smith', email: 'alice@example.com' };
+
+  test('matches prefixes in any case', () => {
+    expect(matchesSearch(alice, ' SMI ')).toBe(true);
+    expect(matchesSearch(alice, 'alice@ex')).toBe(true);
+    expect(matchesSearch(alice, 'mith')).toBe(false);
+    expect(matchesSearch(alice, '')).toBe(true);
+  });
+
+  test('looks long terms up by their first characters', () => {
+    expect(searchKeyword('Bartholomew.Roberts@example.com')).toBe('bartholomew.roberts@');
+  });
+});
@@ -1,3 +1,6 @@
 module.exports = {
   preset: 'react-native',
+  // Cloud Functions have their own jest setup (see functions/package.json)
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/functions/'],
+  modulePathIgnorePatterns: ['<rootDir>/functions/'],
 };
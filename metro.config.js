@@ -6,6 +6,12 @@ const { getDefaultConfig, mergeConfig } = require('@react-native/metro-config');
  *
  * @type {import('@react-native/metro-config').MetroConfig}
  */
-const config = {};
+const config = {
+  resolver: {
+    // The app imports functions/src/shared; keep the Cloud Functions'
+    // dependencies and build output out of the bundle
+    blockList: [/functions\/node_modules\/.*/, /functions\/lib\/.*/],
+  },
+};
 
 module.exports = mergeConfig(getDefaultConfig(__dirname), config);
@@ -0,0 +1,54 @@
+import {
+  AUDIT_LOG_COLLECTION,
+  AUDIT_PAGE_SIZE,
+  AuditAction,
+  AuditEntry,
+} from '../../functions/src/shared/audit';
+
+export interface AuditRecord extends AuditEntry {
+  id: string;
+}
+
+export interface AuditPageOptions {
+  // Only entries for this action
+  action?: AuditAction | null;
+  // `cursor` of the previous page
+  after?: any;
+  pageSize?: number;
+}
+
+export interface AuditPage {
+  entries: AuditRecord[];
+  // Pass as `after` to load the next page
+  cursor: any;
+  hasMore: boolean;
+}
+
+// Reads a user's audit history from the Firestore `auditLog` collection,
+// newest first. Entries are written by Cloud Functions only.
+export class AuditLogReader {
+  constructor(private db: any) {}
+
+  async page(userId: string, options: AuditPageOptions = {}): Promise<AuditPage> {
+    const pageSize = options.pageSize ?? AUDIT_PAGE_SIZE;
+
+    let query = this.db.collection(AUDIT_LOG_COLLECTION).where('userId', '==', userId);
+    if (options.action) {
+      query = query.where('action', '==', options.action);
+    }
+    query = query.orderBy('timestamp', 'desc');
+    if (options.after) {
+      query = query.startAfter(options.after);
+    }
+
+    // One extra entry tells whether there is another page
+    const snapshot = await query.limit(pageSize + 1).get();
+    const docs = snapshot.docs.slice(0, pageSize);
+
+    return {
+      entries: docs.map((doc: any) => ({ id: doc.id, ...doc.data() } as AuditRecord)),
+      cursor: docs.length > 0 ? docs[docs.length - 1] : null,
+      hasMore: snapshot.docs.length > pageSize,
+    };
+  }
+}
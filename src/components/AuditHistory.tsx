@@ -0,0 +1,278 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  SafeAreaView,
+  FlatList,
+} from 'react-native';
+import { AUDIT_ACTIONS, AuditAction, SERVER_ACTOR } from '../../functions/src/shared/audit';
+import { diffUser, summarizeChanges } from '../../functions/src/shared/userDiff';
+import { CustomFieldDefinition } from '../../functions/src/shared/userSchema';
+import { AuditLogReader, AuditRecord } from '../audit/AuditLogReader';
+import { User } from '../types';
+
+interface AuditHistoryProps {
+  user: User;
+  reader: AuditLogReader;
+  // Shown as "you" in the entries
+  currentUid?: string;
+  // Labels for the custom fields in the changes
+  customFields?: CustomFieldDefinition[];
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  CREATE: '✅ Created',
+  UPDATE: '✏️ Updated',
+  TRASH: '🗑️ Trashed',
+  RESTORE: '♻️ Restored',
+  DELETE: '❌ Deleted',
+};
+
+const formatTimestamp = (timestamp: any) => {
+  const date = timestamp?.toDate ? timestamp.toDate() : null;
+  return date ? date.toLocaleString() : 'Pending';
+};
+
+// What an entry changed: every field for creates and deletes, the
+// differences for updates
+const describeChanges = (entry: AuditRecord, customFields: CustomFieldDefinition[]) => {
+  if (entry.action === 'TRASH') return 'Moved to the trash';
+  if (entry.action === 'RESTORE') return 'Restored from the trash';
+
+  const changes = diffUser(entry.before ?? {}, entry.after ?? {}, customFields);
+  if (entry.action === 'CREATE') {
+    return changes.map((change) => `${change.label}: ${change.after}`).join(', ');
+  }
+  if (entry.action === 'DELETE') {
+    return changes.map((change) => `${change.label}: ${change.before}`).join(', ');
+  }
+  return summarizeChanges(changes) || 'No visible changes';
+};
+
+// Paginated history of one user's changes from the audit log
+function AuditHistory({ user, reader, currentUid, customFields = [], onClose }: AuditHistoryProps) {
+  const [action, setAction] = useState<AuditAction | null>(null);
+  const [entries, setEntries] = useState<AuditRecord[]>([]);
+  const [cursor, setCursor] = useState<any>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (after: any) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await reader.page(user.id, { action, after });
+      setEntries(prev => (after ? [...prev, ...page.entries] : page.entries));
+      setCursor(page.cursor);
+      setHasMore(page.hasMore);
+    } catch (loadError) {
+      console.log('Error loading audit history:', (loadError as Error).message);
+      setError('Failed to load history. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [reader, user.id, action]);
+
+  // First page, again whenever the filter changes
+  useEffect(() => {
+    load(null);
+  }, [load]);
+
+  const actorLabel = (entry: AuditRecord) => {
+    if (!entry.actorUid) return 'Unknown user';
+    if (entry.actorUid === SERVER_ACTOR) return 'Server';
+    return entry.actorUid === currentUid ? 'You' : entry.actorUid;
+  };
+
+  const renderEntry = ({ item }: { item: AuditRecord }) => (
+    <View style={styles.entry}>
+      <View style={styles.entryHeader}>
+        <Text style={styles.entryAction}>{ACTION_LABELS[item.action]}</Text>
+        <Text style={styles.entryTime}>{formatTimestamp(item.timestamp)}</Text>
+      </View>
+      <Text style={styles.entryChanges}>{describeChanges(item, customFields)}</Text>
+      <Text style={styles.entryMeta}>
+        By {actorLabel(item)}{item.device ? ` on ${item.device}` : ''}
+      </Text>
+    </View>
+  );
+
+  const filters: (AuditAction | null)[] = [null, ...AUDIT_ACTIONS];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>History</Text>
+        <Text style={styles.subtitle}>{user.name}</Text>
+      </View>
+
+      <View style={styles.filterRow}>
+        {filters.map(filter => (
+          <TouchableOpacity
+            key={filter ?? 'ALL'}
+            style={[styles.filter, action === filter && styles.selectedFilter]}
+            onPress={() => setAction(filter)}
+          >
+            <Text style={[styles.filterText, action === filter && styles.selectedFilterText]}>
+              {filter ? ACTION_LABELS[filter] : 'All'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <FlatList
+        data={entries}
+        renderItem={renderEntry}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          loading ? null : <Text style={styles.emptyText}>No changes recorded</Text>
+        }
+        ListFooterComponent={
+          loading ? (
+            <ActivityIndicator size="small" color="#007AFF" style={styles.footer} />
+          ) : hasMore ? (
+            <TouchableOpacity style={[styles.button, styles.moreButton]} onPress={() => load(cursor)}>
+              <Text style={styles.buttonText}>Load more</Text>
+            </TouchableOpacity>
+          ) : null
+        }
+      />
+
+      <TouchableOpacity style={[styles.button, styles.closeButton]} onPress={onClose}>
+        <Text style={styles.buttonText}>Close</Text>
+      </TouchableOpacity>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#007AFF',
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: 'white',
+    marginBottom: 5,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: 'white',
+    opacity: 0.8,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginHorizontal: 12,
+    marginTop: 15,
+  },
+  filter: {
+    flexBasis: '30%',
+    flexGrow: 1,
+    marginHorizontal: 3,
+    marginBottom: 6,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+  },
+  selectedFilter: {
+    backgroundColor: '#007AFF',
+  },
+  filterText: {
+    color: '#007AFF',
+    fontWeight: 'bold',
+    fontSize: 12,
+  },
+  selectedFilterText: {
+    color: 'white',
+  },
+  list: {
+    padding: 15,
+  },
+  entry: {
+    backgroundColor: 'white',
+    padding: 15,
+    marginBottom: 10,
+    borderRadius: 10,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 5,
+  },
+  entryAction: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  entryTime: {
+    fontSize: 12,
+    color: '#666',
+  },
+  entryChanges: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 5,
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#666',
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#666',
+    marginTop: 30,
+  },
+  errorText: {
+    color: '#dc3545',
+    fontSize: 12,
+    marginTop: 15,
+    marginHorizontal: 20,
+  },
+  footer: {
+    marginVertical: 15,
+  },
+  button: {
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    minHeight: 48,
+    justifyContent: 'center',
+  },
+  moreButton: {
+    backgroundColor: '#17a2b8',
+    marginVertical: 5,
+  },
+  closeButton: {
+    backgroundColor: '#6c757d',
+    margin: 15,
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 14,
+  },
+});
+
+export default AuditHistory;
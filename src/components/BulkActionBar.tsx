@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { parseAge, validateAge } from '../../functions/src/shared/userSchema';
+
+interface BulkActionBarProps {
+  count: number;
+  // Whether the caller may change or delete every selected user
+  canUpdate: boolean;
+  canDelete: boolean;
+  // A bulk action is being saved
+  busy: boolean;
+  onSetAge: (age: number) => void;
+  onDelete: () => void;
+  onCancel: () => void;
+}
+
+// Actions for the users selected in the list (long-press a user to select)
+function BulkActionBar({ count, canUpdate, canDelete, busy, onSetAge, onDelete, onCancel }: BulkActionBarProps) {
+  const [editingAge, setEditingAge] = useState(false);
+  const [age, setAge] = useState('');
+  const ageError = age.trim() ? validateAge(age) : undefined;
+
+  const applyAge = () => {
+    if (!age.trim() || ageError) return;
+    onSetAge(parseAge(age)!);
+    setEditingAge(false);
+    setAge('');
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Text style={styles.countText}>{count} selected</Text>
+        {busy ? (
+          <ActivityIndicator size="small" color="#007AFF" />
+        ) : (
+          <>
+            {canUpdate && (
+              <TouchableOpacity
+                style={[styles.button, styles.editButton, editingAge && styles.activeButton]}
+                onPress={() => setEditingAge(!editingAge)}
+              >
+                <Text style={styles.buttonText}>Set Age</Text>
+              </TouchableOpacity>
+            )}
+            {canDelete && (
+              <TouchableOpacity style={[styles.button, styles.deleteButton]} onPress={onDelete}>
+                <Text style={styles.buttonText}>Delete</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onCancel}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+
+      {editingAge && !busy && (
+        <View style={styles.row}>
+          <TextInput
+            style={[styles.input, ageError && styles.inputError]}
+            placeholder={`New age for ${count} ${count === 1 ? 'user' : 'users'}`}
+            placeholderTextColor="#999"
+            value={age}
+            onChangeText={setAge}
+            keyboardType="numeric"
+          />
+          <TouchableOpacity
+            style={[styles.button, styles.editButton, (!age.trim() || !!ageError) && styles.disabledButton]}
+            onPress={applyAge}
+            disabled={!age.trim() || !!ageError}
+          >
+            <Text style={styles.buttonText}>Apply</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      {editingAge && ageError && <Text style={styles.errorText}>{ageError}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'white',
+    padding: 10,
+    marginBottom: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  countText: {
+    flex: 1,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  button: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  editButton: {
+    backgroundColor: '#28a745',
+  },
+  activeButton: {
+    opacity: 0.7,
+  },
+  deleteButton: {
+    backgroundColor: '#dc3545',
+  },
+  cancelButton: {
+    backgroundColor: '#6c757d',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 12,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 8,
+    marginTop: 8,
+    fontSize: 14,
+  },
+  inputError: {
+    borderColor: '#dc3545',
+  },
+  errorText: {
+    color: '#dc3545',
+    fontSize: 12,
+    marginTop: 5,
+  },
+});
+
+export default BulkActionBar;
@@ -0,0 +1,120 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { CustomFieldDefinition, UserValidationErrors } from '../../functions/src/shared/userSchema';
+
+interface CustomFieldInputsProps {
+  // From Firestore `schema/users`, in the order they are shown
+  fields: CustomFieldDefinition[];
+  // Text as typed, by field key
+  values: { [key: string]: string };
+  errors: UserValidationErrors;
+  onChange: (key: string, text: string) => void;
+}
+
+const placeholderFor = (field: CustomFieldDefinition) =>
+  `${field.label}${field.type === 'date' ? ' (YYYY-MM-DD)' : ''}${field.required ? '' : ' (optional)'}`;
+
+// The user form's inputs for the custom fields: a choice of options for
+// select fields and a text input for the others
+function CustomFieldInputs({ fields, values, errors, onChange }: CustomFieldInputsProps) {
+  return (
+    <>
+      {fields.map((field) => (
+        <View key={field.key} style={styles.inputContainer}>
+          {field.type === 'select' ? (
+            <>
+              <Text style={styles.label}>{placeholderFor(field)}</Text>
+              <View style={styles.options}>
+                {field.options?.map((option) => {
+                  const selected = values[field.key] === option;
+                  return (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.option, selected && styles.selectedOption, errors[field.key] && styles.inputError]}
+                      // Tapping the chosen option again clears an optional field
+                      onPress={() => onChange(field.key, selected && !field.required ? '' : option)}
+                    >
+                      <Text style={[styles.optionText, selected && styles.selectedOptionText]}>{option}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </>
+          ) : (
+            <TextInput
+              style={[styles.input, errors[field.key] && styles.inputError]}
+              placeholder={placeholderFor(field)}
+              placeholderTextColor="#999"
+              value={values[field.key] ?? ''}
+              onChangeText={(text) => onChange(field.key, text)}
+              keyboardType={field.type === 'number' ? 'numeric' : 'default'}
+            />
+          )}
+          {errors[field.key] && <Text style={styles.errorText}>{errors[field.key]}</Text>}
+        </View>
+      ))}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  inputContainer: {
+    marginBottom: 15,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    color: '#333',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fafafa',
+  },
+  inputError: {
+    borderColor: '#dc3545',
+    backgroundColor: '#fff5f5',
+  },
+  label: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 6,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  option: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 16,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    backgroundColor: '#fafafa',
+  },
+  selectedOption: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  optionText: {
+    color: '#333',
+    fontSize: 14,
+  },
+  selectedOptionText: {
+    color: 'white',
+  },
+  errorText: {
+    color: '#dc3545',
+    fontSize: 12,
+    marginTop: 5,
+    marginLeft: 5,
+  },
+});
+
+export default CustomFieldInputs;
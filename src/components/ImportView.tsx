@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  SafeAreaView,
+  ScrollView,
+} from 'react-native';
+import { UserImporter } from '../import/UserImporter';
+import { ImportReport, MAX_IMPORT_ROWS } from '../../functions/src/shared/userImport';
+
+interface ImportViewProps {
+  importer: UserImporter;
+  onClose: () => void;
+}
+
+const PLACEHOLDER = 'name,email,age\nAlice Smith,alice@example.com,34\n\nor\n\n[{"name": "Alice Smith", "email": "alice@example.com", "age": 34}]';
+
+// Every problem in the report, by row
+const reportLines = (report: ImportReport): string[] => [
+  ...report.errors.map(error => `Row ${error.row}${error.field ? ` (${error.field})` : ''}: ${error.message}`),
+  ...report.duplicates.map(duplicate => `Row ${duplicate.row}: ${duplicate.email} ` + (duplicate.duplicateOfRow !== undefined
+    ? `is already in row ${duplicate.duplicateOfRow}`
+    : 'is already used by another user')),
+];
+
+// Paste a CSV or JSON file, check it, then import the valid rows
+function ImportView({ importer, onClose }: ImportViewProps) {
+  const [content, setContent] = useState('');
+  // The dry run for the current content
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const edit = (text: string) => {
+    setContent(text);
+    setReport(null);
+  };
+
+  const run = async (dryRun: boolean) => {
+    setWorking(true);
+    setError(null);
+    try {
+      setReport(dryRun ? await importer.check(content) : await importer.commit(content));
+    } catch (runError) {
+      console.log('Error importing users:', (runError as Error).message);
+      setError((runError as Error).message || 'Failed to import users. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const lines = report ? reportLines(report) : [];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Import Users</Text>
+        <Text style={styles.subtitle}>
+          CSV with a name,email,age header (plus any custom fields) or a JSON array; up to {MAX_IMPORT_ROWS} users
+        </Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <TextInput
+          style={styles.input}
+          placeholder={PLACEHOLDER}
+          placeholderTextColor="#999"
+          value={content}
+          onChangeText={edit}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        {report && (
+          <View style={styles.report}>
+            <Text style={styles.reportTitle}>
+              {report.dryRun
+                ? `${report.valid} of ${report.total} users can be imported`
+                : `${report.imported} of ${report.total} users imported`}
+            </Text>
+            {lines.map((line, index) => (
+              <Text key={index} style={styles.reportLine}>{line}</Text>
+            ))}
+          </View>
+        )}
+
+        {working ? (
+          <ActivityIndicator size="large" color="#007AFF" style={styles.loading} />
+        ) : report?.dryRun && report.valid > 0 ? (
+          <TouchableOpacity style={[styles.button, styles.importButton]} onPress={() => run(false)}>
+            <Text style={styles.buttonText}>Import {report.valid} {report.valid === 1 ? 'user' : 'users'}</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[styles.button, styles.checkButton, !content.trim() && styles.disabledButton]}
+            onPress={() => run(true)}
+            disabled={!content.trim()}
+          >
+            <Text style={styles.buttonText}>Check</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+
+      <TouchableOpacity style={[styles.button, styles.closeButton]} onPress={onClose}>
+        <Text style={styles.buttonText}>Close</Text>
+      </TouchableOpacity>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#007AFF',
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: 'white',
+    marginBottom: 5,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'white',
+    opacity: 0.8,
+    textAlign: 'center',
+  },
+  content: {
+    padding: 15,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    backgroundColor: 'white',
+    minHeight: 160,
+    textAlignVertical: 'top',
+  },
+  loading: {
+    marginTop: 15,
+  },
+  report: {
+    backgroundColor: 'white',
+    padding: 15,
+    marginTop: 15,
+    borderRadius: 10,
+  },
+  reportTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 5,
+  },
+  reportLine: {
+    fontSize: 12,
+    color: '#dc3545',
+    marginTop: 3,
+  },
+  button: {
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    minHeight: 48,
+    justifyContent: 'center',
+    marginTop: 15,
+  },
+  checkButton: {
+    backgroundColor: '#007AFF',
+  },
+  importButton: {
+    backgroundColor: '#28a745',
+  },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  closeButton: {
+    backgroundColor: '#6c757d',
+    margin: 15,
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 14,
+  },
+  errorText: {
+    color: '#dc3545',
+    fontSize: 12,
+    marginTop: 15,
+  },
+});
+
+export default ImportView;
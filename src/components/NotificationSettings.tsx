@@ -0,0 +1,352 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  SafeAreaView,
+  ScrollView,
+  Switch,
+} from 'react-native';
+import {
+  DIGEST_FREQUENCIES,
+  DigestFrequency,
+  NotificationPreferences,
+  PREFERENCE_CHANNELS,
+  PREFERENCE_EVENTS,
+  PreferenceChannel,
+  PreferenceEvent,
+  validatePreferences,
+} from '../../functions/src/shared/preferences';
+
+interface NotificationSettingsProps {
+  preferences: NotificationPreferences;
+  onSave: (preferences: NotificationPreferences) => Promise<void>;
+  onClose: () => void;
+}
+
+const CHANNEL_LABELS: Record<PreferenceChannel, string> = {
+  push: '📱 Push notifications',
+  email: '📧 Email notifications',
+  system: '🔔 On-device notifications',
+};
+
+const EVENT_LABELS: Record<PreferenceEvent, string> = {
+  CREATE: 'User added',
+  UPDATE: 'User updated',
+  DELETE: 'User deleted',
+};
+
+const DIGEST_LABELS: Record<DigestFrequency, string> = {
+  off: 'Every change',
+  daily: 'Daily',
+  weekly: 'Weekly',
+};
+
+const deviceTimeZone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+// Settings view for which notifications the signed-in user receives
+function NotificationSettings({ preferences, onSave, onClose }: NotificationSettingsProps) {
+  const [draft, setDraft] = useState<NotificationPreferences>(() => ({
+    ...preferences,
+    // Suggest the device's zone until quiet hours have been set up
+    quietHours: preferences.quietHours.enabled
+      ? preferences.quietHours
+      : { ...preferences.quietHours, timeZone: deviceTimeZone() },
+  }));
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const setChannel = (channel: PreferenceChannel, enabled: boolean) =>
+    setDraft(prev => ({ ...prev, channels: { ...prev.channels, [channel]: enabled } }));
+
+  const setEvent = (event: PreferenceEvent, enabled: boolean) =>
+    setDraft(prev => ({ ...prev, events: { ...prev.events, [event]: enabled } }));
+
+  const setDigest = (digest: DigestFrequency) =>
+    setDraft(prev => ({ ...prev, digest }));
+
+  const setQuietHours = (changes: Partial<NotificationPreferences['quietHours']>) => {
+    setDraft(prev => ({ ...prev, quietHours: { ...prev.quietHours, ...changes } }));
+    setError(null);
+  };
+
+  const save = async () => {
+    const validationError = validatePreferences(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (saveError) {
+      console.log('Error saving notification preferences:', (saveError as Error).message);
+      setError('Failed to save settings. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Notification Settings</Text>
+        <Text style={styles.subtitle}>Choose what you are notified about</Text>
+      </View>
+
+      <ScrollView>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Channels</Text>
+          {PREFERENCE_CHANNELS.map(channel => (
+            <View key={channel} style={styles.row}>
+              <Text style={styles.rowLabel}>{CHANNEL_LABELS[channel]}</Text>
+              <Switch value={draft.channels[channel]} onValueChange={(value) => setChannel(channel, value)} />
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Events</Text>
+          {PREFERENCE_EVENTS.map(event => (
+            <View key={event} style={styles.row}>
+              <Text style={styles.rowLabel}>{EVENT_LABELS[event]}</Text>
+              <Switch value={draft.events[event]} onValueChange={(value) => setEvent(event, value)} />
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Email Digest</Text>
+          <Text style={styles.hint}>Get one summary email (08:00 UTC, weekly on Mondays) instead of an email per change.</Text>
+          <View style={styles.optionRow}>
+            {DIGEST_FREQUENCIES.map(frequency => (
+              <TouchableOpacity
+                key={frequency}
+                style={[styles.option, draft.digest === frequency && styles.selectedOption]}
+                onPress={() => setDigest(frequency)}
+              >
+                <Text style={[styles.optionText, draft.digest === frequency && styles.selectedOptionText]}>
+                  {DIGEST_LABELS[frequency]}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.row}>
+            <Text style={styles.sectionTitle}>Quiet Hours</Text>
+            <Switch
+              value={draft.quietHours.enabled}
+              onValueChange={(enabled) => setQuietHours({ enabled })}
+            />
+          </View>
+          <Text style={styles.hint}>Push and on-device notifications are held back; emails are still sent.</Text>
+          {draft.quietHours.enabled && (
+            <>
+              <View style={styles.timeRow}>
+                <TextInput
+                  style={[styles.input, styles.timeInput]}
+                  placeholder="22:00"
+                  placeholderTextColor="#999"
+                  value={draft.quietHours.start}
+                  onChangeText={(start) => setQuietHours({ start })}
+                  keyboardType="numbers-and-punctuation"
+                  maxLength={5}
+                />
+                <Text style={styles.rowLabel}>to</Text>
+                <TextInput
+                  style={[styles.input, styles.timeInput]}
+                  placeholder="07:00"
+                  placeholderTextColor="#999"
+                  value={draft.quietHours.end}
+                  onChangeText={(end) => setQuietHours({ end })}
+                  keyboardType="numbers-and-punctuation"
+                  maxLength={5}
+                />
+              </View>
+              <TextInput
+                style={styles.input}
+                placeholder="Time zone, e.g. Europe/Berlin"
+                placeholderTextColor="#999"
+                value={draft.quietHours.timeZone}
+                onChangeText={(timeZone) => setQuietHours({ timeZone: timeZone.trim() })}
+                autoCapitalize="none"
+              />
+            </>
+          )}
+        </View>
+
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <View style={styles.formButtons}>
+          <TouchableOpacity
+            style={[styles.button, styles.saveButton, saving && styles.disabledButton]}
+            onPress={save}
+            disabled={saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text style={styles.buttonText}>Save</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.button, styles.cancelButton]}
+            onPress={onClose}
+            disabled={saving}
+          >
+            <Text style={styles.buttonText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#007AFF',
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: 'white',
+    marginBottom: 5,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: 'white',
+    opacity: 0.8,
+  },
+  section: {
+    backgroundColor: 'white',
+    marginHorizontal: 15,
+    marginTop: 15,
+    padding: 15,
+    borderRadius: 10,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 5,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  rowLabel: {
+    fontSize: 16,
+    color: '#333',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 10,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  option: {
+    flex: 1,
+    marginHorizontal: 3,
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+  },
+  selectedOption: {
+    backgroundColor: '#007AFF',
+  },
+  optionText: {
+    color: '#007AFF',
+    fontWeight: 'bold',
+    fontSize: 14,
+  },
+  selectedOptionText: {
+    color: 'white',
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    color: '#333',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fafafa',
+    marginBottom: 15,
+  },
+  timeInput: {
+    flex: 1,
+    marginHorizontal: 5,
+    textAlign: 'center',
+  },
+  errorText: {
+    color: '#dc3545',
+    fontSize: 12,
+    marginTop: 15,
+    marginHorizontal: 20,
+  },
+  formButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    margin: 15,
+  },
+  button: {
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    flex: 1,
+    marginHorizontal: 5,
+    minHeight: 48,
+    justifyContent: 'center',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  saveButton: {
+    backgroundColor: '#28a745',
+  },
+  cancelButton: {
+    backgroundColor: '#6c757d',
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 14,
+  },
+});
+
+export default NotificationSettings;
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  SafeAreaView,
+} from 'react-native';
+
+interface SignInScreenProps {
+  onSignIn: (email: string, password: string) => Promise<void>;
+  onCreateAccount: (email: string, password: string) => Promise<void>;
+}
+
+// Turn Firebase Auth error codes into messages for the form
+const getAuthErrorMessage = (error: any): string => {
+  switch (error?.code) {
+    case 'auth/invalid-email':
+      return 'Please enter a valid email address';
+    case 'auth/invalid-credential':
+    case 'auth/user-not-found':
+    case 'auth/wrong-password':
+      return 'Incorrect email or password';
+    case 'auth/email-already-in-use':
+      return 'An account already exists for this email';
+    case 'auth/weak-password':
+      return 'Password must be at least 6 characters';
+    case 'auth/network-request-failed':
+      return 'Network error. Please check your connection.';
+    default:
+      return 'Sign in failed. Please try again.';
+  }
+};
+
+// Email/password sign-in shown before the users list when Firebase Auth is available
+function SignInScreen({ onSignIn, onCreateAccount }: SignInScreenProps) {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const submit = async (action: (email: string, password: string) => Promise<void>) => {
+    if (!email.trim() || !password) {
+      setError('Email and password are required');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await action(email.trim(), password);
+    } catch (authError) {
+      console.log('Authentication failed:', (authError as Error).message);
+      setError(getAuthErrorMessage(authError));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Enhanced CRUD Demo</Text>
+        <Text style={styles.subtitle}>Sign in to manage users</Text>
+      </View>
+
+      <View style={styles.form}>
+        <TextInput
+          style={[styles.input, error && styles.inputError]}
+          placeholder="Email address"
+          placeholderTextColor="#999"
+          value={email}
+          onChangeText={(text) => {
+            setEmail(text);
+            setError(null);
+          }}
+          keyboardType="email-address"
+          autoCapitalize="none"
+        />
+        <TextInput
+          style={[styles.input, error && styles.inputError]}
+          placeholder="Password"
+          placeholderTextColor="#999"
+          value={password}
+          onChangeText={(text) => {
+            setPassword(text);
+            setError(null);
+          }}
+          secureTextEntry
+        />
+        {error && <Text style={styles.errorText}>{error}</Text>}
+
+        <View style={styles.formButtons}>
+          <TouchableOpacity
+            style={[styles.button, styles.signInButton, submitting && styles.disabledButton]}
+            onPress={() => submit(onSignIn)}
+            disabled={submitting}
+          >
+            {submitting ? (
+              <ActivityIndicator size="small" color="white" />
+            ) : (
+              <Text style={styles.buttonText}>Sign In</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.button, styles.createButton, submitting && styles.disabledButton]}
+            onPress={() => submit(onCreateAccount)}
+            disabled={submitting}
+          >
+            <Text style={styles.buttonText}>Create Account</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#007AFF',
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: 'white',
+    marginBottom: 5,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: 'white',
+    opacity: 0.8,
+  },
+  form: {
+    backgroundColor: 'white',
+    margin: 15,
+    padding: 20,
+    borderRadius: 10,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    color: '#333',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fafafa',
+    marginBottom: 15,
+  },
+  inputError: {
+    borderColor: '#dc3545',
+    backgroundColor: '#fff5f5',
+  },
+  errorText: {
+    color: '#dc3545',
+    fontSize: 12,
+    marginBottom: 15,
+    marginLeft: 5,
+  },
+  formButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  button: {
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    flex: 1,
+    marginHorizontal: 5,
+    minHeight: 48,
+    justifyContent: 'center',
+  },
+  disabledButton: {
+    opacity: 0.6,
+  },
+  signInButton: {
+    backgroundColor: '#28a745',
+  },
+  createButton: {
+    backgroundColor: '#6c757d',
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 14,
+  },
+});
+
+export default SignInScreen;
@@ -0,0 +1,218 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  SafeAreaView,
+  FlatList,
+  Alert,
+} from 'react-native';
+import { UserRepository } from '../repositories/UserRepository';
+import { User } from '../types';
+
+interface TrashViewProps {
+  repository: UserRepository;
+  onRestore: (user: User) => Promise<void>;
+  onPurge: (user: User) => Promise<void>;
+  onClose: () => void;
+}
+
+// Firestore Timestamp (remote) or Date (in memory and on this device)
+const formatDeletedAt = (deletedAt: any) => {
+  const date = deletedAt?.toDate ? deletedAt.toDate() : deletedAt;
+  return date instanceof Date ? date.toLocaleString() : 'Pending';
+};
+
+// Deleted users, newest first, until they are restored or deleted for good
+function TrashView({ repository, onRestore, onPurge, onClose }: TrashViewProps) {
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setUsers(await repository.listTrash());
+    } catch (loadError) {
+      console.log('Error loading trash:', (loadError as Error).message);
+      setError('Failed to load the trash. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [repository]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const restore = async (user: User) => {
+    await onRestore(user);
+    await load();
+  };
+
+  const confirmPurge = (user: User) => {
+    Alert.alert(
+      'Delete Forever',
+      `${user.name} will be permanently deleted. This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete Forever',
+          style: 'destructive',
+          onPress: async () => {
+            await onPurge(user);
+            await load();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderUser = ({ item }: { item: User }) => (
+    <View style={styles.userCard}>
+      <View style={styles.userInfo}>
+        <Text style={styles.userName}>{item.name}</Text>
+        <Text style={styles.userEmail}>{item.email}</Text>
+        <Text style={styles.deletedAt}>Deleted {formatDeletedAt(item.deletedAt)}</Text>
+      </View>
+      <View style={styles.userActions}>
+        <TouchableOpacity style={[styles.button, styles.restoreButton]} onPress={() => restore(item)}>
+          <Text style={styles.buttonText}>Restore</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.button, styles.purgeButton]} onPress={() => confirmPurge(item)}>
+          <Text style={styles.buttonText}>Delete Forever</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Trash</Text>
+        <Text style={styles.subtitle}>Deleted users can be restored until they are purged</Text>
+      </View>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#007AFF" style={styles.loading} />
+      ) : (
+        <FlatList
+          data={users}
+          renderItem={renderUser}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={styles.list}
+          ListEmptyComponent={<Text style={styles.emptyText}>The trash is empty</Text>}
+        />
+      )}
+
+      <TouchableOpacity style={[styles.button, styles.closeButton]} onPress={onClose}>
+        <Text style={styles.buttonText}>Close</Text>
+      </TouchableOpacity>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#007AFF',
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: 'white',
+    marginBottom: 5,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: 'white',
+    opacity: 0.8,
+    textAlign: 'center',
+  },
+  list: {
+    padding: 15,
+  },
+  loading: {
+    marginTop: 30,
+  },
+  userCard: {
+    backgroundColor: 'white',
+    padding: 15,
+    marginBottom: 10,
+    borderRadius: 10,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+  },
+  userInfo: {
+    flex: 1,
+  },
+  userName: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 5,
+  },
+  userEmail: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 3,
+  },
+  deletedAt: {
+    fontSize: 12,
+    color: '#999',
+  },
+  userActions: {
+    gap: 8,
+  },
+  button: {
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    minHeight: 48,
+    justifyContent: 'center',
+  },
+  restoreButton: {
+    backgroundColor: '#28a745',
+  },
+  purgeButton: {
+    backgroundColor: '#dc3545',
+  },
+  closeButton: {
+    backgroundColor: '#6c757d',
+    margin: 15,
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 14,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#666',
+    marginTop: 30,
+  },
+  errorText: {
+    color: '#dc3545',
+    fontSize: 12,
+    marginTop: 15,
+    marginHorizontal: 20,
+  },
+});
+
+export default TrashView;
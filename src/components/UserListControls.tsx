@@ -0,0 +1,246 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { parseAge } from '../../functions/src/shared/userSchema';
+import { UserQuery, UserSortField } from '../repositories/UserQuery';
+
+interface UserListControlsProps {
+  query: UserQuery;
+  onChange: React.Dispatch<React.SetStateAction<UserQuery>>;
+}
+
+const SORT_LABELS: Record<UserSortField, string> = {
+  name: 'Name',
+  age: 'Age',
+  createdAt: 'Created',
+};
+
+// Typing only updates the query (and so the subscription) once it pauses
+const INPUT_DELAY_MS = 300;
+
+// YYYY-MM-DD as a local date; the start of the day, or its end for `endOfDay`
+const parseDate = (text: string, endOfDay = false): Date | null | undefined => {
+  if (!text.trim()) return undefined;
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text.trim());
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+  const date = endOfDay ? new Date(year, month, day, 23, 59, 59, 999) : new Date(year, month, day);
+  return date.getMonth() === month ? date : null;
+};
+
+const parseAgeFilter = (text: string): number | null | undefined =>
+  text.trim() ? parseAge(text) : undefined;
+
+// The filter fields as typed; null marks a field that cannot be read
+const parseFilters = (minAge: string, maxAge: string, createdFrom: string, createdTo: string) => ({
+  minAge: parseAgeFilter(minAge),
+  maxAge: parseAgeFilter(maxAge),
+  createdFrom: parseDate(createdFrom),
+  createdTo: parseDate(createdTo, true),
+});
+
+// Search bar, filters and sort options above the users list
+function UserListControls({ query, onChange }: UserListControlsProps) {
+  const [search, setSearch] = useState(query.search ?? '');
+  const [minAge, setMinAge] = useState('');
+  const [maxAge, setMaxAge] = useState('');
+  const [createdFrom, setCreatedFrom] = useState('');
+  const [createdTo, setCreatedTo] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+
+  const filters = parseFilters(minAge, maxAge, createdFrom, createdTo);
+  const invalidAge = filters.minAge === null || filters.maxAge === null;
+  const invalidDate = filters.createdFrom === null || filters.createdTo === null;
+
+  // Invalid fields are left out of the query until they are fixed
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const parsed = parseFilters(minAge, maxAge, createdFrom, createdTo);
+      onChange(prev => {
+        const next: UserQuery = {
+          ...prev,
+          search: search.trim() || undefined,
+          minAge: parsed.minAge ?? undefined,
+          maxAge: parsed.maxAge ?? undefined,
+          createdFrom: parsed.createdFrom ?? undefined,
+          createdTo: parsed.createdTo ?? undefined,
+        };
+        // Keep the same object when nothing changed so the list does not
+        // subscribe again
+        return JSON.stringify(next) === JSON.stringify(prev) ? prev : next;
+      });
+    }, INPUT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [search, minAge, maxAge, createdFrom, createdTo, onChange]);
+
+  // Tapping the current sort field reverses its direction
+  const sortBy = (field: UserSortField) => {
+    onChange(prev => ({
+      ...prev,
+      sortBy: field,
+      direction: prev.sortBy === field && prev.direction === 'asc' ? 'desc' : 'asc',
+    }));
+  };
+
+  // Keeps the sort order
+  const clear = () => {
+    setSearch('');
+    setMinAge('');
+    setMaxAge('');
+    setCreatedFrom('');
+    setCreatedTo('');
+  };
+
+  const activeFilters = [minAge, maxAge, createdFrom, createdTo].filter(text => text.trim()).length;
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={styles.input}
+        placeholder="🔍 Search by name or email"
+        placeholderTextColor="#999"
+        value={search}
+        onChangeText={setSearch}
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+
+      <View style={styles.row}>
+        {(Object.keys(SORT_LABELS) as UserSortField[]).map(field => (
+          <TouchableOpacity
+            key={field}
+            style={[styles.chip, query.sortBy === field && styles.selectedChip]}
+            onPress={() => sortBy(field)}
+          >
+            <Text style={[styles.chipText, query.sortBy === field && styles.selectedChipText]}>
+              {SORT_LABELS[field]}{query.sortBy === field ? (query.direction === 'asc' ? ' ↑' : ' ↓') : ''}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity
+          style={[styles.chip, showFilters && styles.selectedChip]}
+          onPress={() => setShowFilters(!showFilters)}
+        >
+          <Text style={[styles.chipText, showFilters && styles.selectedChipText]}>
+            Filters{activeFilters > 0 ? ` (${activeFilters})` : ''}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {showFilters && (
+        <View>
+          <View style={styles.row}>
+            <TextInput
+              style={[styles.input, styles.halfInput, filters.minAge === null && styles.inputError]}
+              placeholder="Min age"
+              placeholderTextColor="#999"
+              value={minAge}
+              onChangeText={setMinAge}
+              keyboardType="numeric"
+            />
+            <TextInput
+              style={[styles.input, styles.halfInput, filters.maxAge === null && styles.inputError]}
+              placeholder="Max age"
+              placeholderTextColor="#999"
+              value={maxAge}
+              onChangeText={setMaxAge}
+              keyboardType="numeric"
+            />
+          </View>
+          {invalidAge && <Text style={styles.errorText}>Ages must be whole numbers</Text>}
+
+          <View style={styles.row}>
+            <TextInput
+              style={[styles.input, styles.halfInput, filters.createdFrom === null && styles.inputError]}
+              placeholder="Created from (YYYY-MM-DD)"
+              placeholderTextColor="#999"
+              value={createdFrom}
+              onChangeText={setCreatedFrom}
+            />
+            <TextInput
+              style={[styles.input, styles.halfInput, filters.createdTo === null && styles.inputError]}
+              placeholder="Created to (YYYY-MM-DD)"
+              placeholderTextColor="#999"
+              value={createdTo}
+              onChangeText={setCreatedTo}
+            />
+          </View>
+          {invalidDate && <Text style={styles.errorText}>Dates must look like 2026-10-19</Text>}
+
+          <TouchableOpacity style={styles.clearButton} onPress={clear}>
+            <Text style={styles.clearButtonText}>Clear search and filters</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 10,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    backgroundColor: 'white',
+  },
+  halfInput: {
+    flex: 1,
+    marginHorizontal: 3,
+  },
+  inputError: {
+    borderColor: '#dc3545',
+  },
+  errorText: {
+    color: '#dc3545',
+    fontSize: 12,
+    marginTop: 5,
+    marginHorizontal: 3,
+  },
+  chip: {
+    flexGrow: 1,
+    marginHorizontal: 3,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    alignItems: 'center',
+  },
+  selectedChip: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    color: '#007AFF',
+    fontWeight: 'bold',
+    fontSize: 12,
+  },
+  selectedChipText: {
+    color: 'white',
+  },
+  clearButton: {
+    marginTop: 8,
+    alignItems: 'center',
+    padding: 8,
+  },
+  clearButtonText: {
+    color: '#007AFF',
+    fontWeight: 'bold',
+    fontSize: 12,
+  },
+});
+
+export default UserListControls;
@@ -0,0 +1,26 @@
+import { Platform } from 'react-native';
+
+// Point the app at the local Firebase emulators (`firebase emulators:start`)
+// in development builds
+export const USE_FIREBASE_EMULATORS = false;
+
+// The Android emulator reaches the host machine through 10.0.2.2
+export const EMULATOR_HOST = Platform.OS === 'android' ? '10.0.2.2' : 'localhost';
+
+export const EMULATOR_PORTS = {
+  auth: 9099,
+  firestore: 8080,
+  functions: 5001,
+};
+
+// Region the Cloud Functions are deployed to (the firebase-functions default)
+export const FUNCTIONS_REGION = 'us-central1';
+
+// URL of an HTTPS (not callable) Cloud Function
+export const functionUrl = (projectId: string, name: string): string =>
+  __DEV__ && USE_FIREBASE_EMULATORS
+    ? `http://${EMULATOR_HOST}:${EMULATOR_PORTS.functions}/${projectId}/${FUNCTIONS_REGION}/${name}`
+    : `https://${FUNCTIONS_REGION}-${projectId}.cloudfunctions.net/${name}`;
+
+// Reported with the device's push token (see src/devices/DeviceRegistry.ts)
+export const APP_VERSION: string = require('../package.json').version;
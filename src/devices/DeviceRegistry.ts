@@ -0,0 +1,65 @@
+import { DEVICES_COLLECTION, DeviceRecord } from '../../functions/src/shared/devices';
+import { NotificationTopic } from '../../functions/src/shared/targeting';
+
+export interface DeviceInfo {
+  platform: string;
+  appVersion: string;
+}
+
+export interface DeviceRegistryOptions {
+  // Injected for the same reason as in FirestoreUserRepository
+  serverTimestamp?: () => any;
+}
+
+// Registers this device's FCM token in the Firestore `devices` collection so
+// Cloud Functions can reach every device of every signed-in user
+export class DeviceRegistry {
+  private serverTimestamp: () => any;
+
+  constructor(private db: any, options: DeviceRegistryOptions = {}) {
+    this.serverTimestamp = options.serverTimestamp ?? (() => new Date());
+  }
+
+  private doc(token: string) {
+    return this.db.collection(DEVICES_COLLECTION).doc(token);
+  }
+
+  // Record the token for the signed-in user and refresh its last-seen time.
+  // A token previously registered by another user on this device moves over,
+  // with the new user's topics.
+  async register(token: string, uid: string, info: DeviceInfo, topics: NotificationTopic[] = []): Promise<void> {
+    const record: DeviceRecord = {
+      token,
+      uid,
+      platform: info.platform,
+      appVersion: info.appVersion,
+      lastSeen: this.serverTimestamp(),
+      topics,
+    };
+    await this.doc(token).set(record);
+  }
+
+  // Record the topics the device is subscribed to
+  async setTopics(token: string, uid: string, topics: NotificationTopic[]): Promise<void> {
+    await this.doc(token).set({ token, uid, topics }, { merge: true });
+  }
+
+  // Replace a token FCM has rotated
+  async refresh(
+    oldToken: string | undefined,
+    newToken: string,
+    uid: string,
+    info: DeviceInfo,
+    topics: NotificationTopic[] = [],
+  ): Promise<void> {
+    await this.register(newToken, uid, info, topics);
+    if (oldToken && oldToken !== newToken) {
+      await this.unregister(oldToken);
+    }
+  }
+
+  // Stop sending to this device, e.g. on sign-out
+  async unregister(token: string): Promise<void> {
+    await this.doc(token).delete();
+  }
+}
@@ -0,0 +1,71 @@
+import {
+  ExportFilters,
+  ExportFormat,
+  exportFileName,
+  exportQueryString,
+} from '../../functions/src/shared/userExport';
+import { UserQuery } from '../repositories/UserQuery';
+
+// The list's filters; exports keep their own, stable order
+export const exportFilters = (query: UserQuery): ExportFilters => ({
+  search: query.search,
+  minAge: query.minAge,
+  maxAge: query.maxAge,
+  createdFrom: query.createdFrom,
+  createdTo: query.createdTo,
+});
+
+// The parts of react-native-fs exports are written with; injected so the
+// exporter does not depend on native modules
+export interface ExportFileSystem {
+  // Exports are written to `exports/` in here, e.g. RNFS.CachesDirectoryPath
+  cacheDirectory: string;
+  exists(path: string): Promise<boolean>;
+  mkdir(path: string): Promise<void>;
+  unlink(path: string): Promise<void>;
+  readFile(path: string): Promise<string>;
+  // Streams the response body to `toFile`
+  downloadFile(options: { fromUrl: string; toFile: string; headers: { [name: string]: string } }): Promise<{ statusCode: number }>;
+}
+
+// Downloads users from the exportUsers HTTPS function at `url`, signed in
+// with the current user's Firebase ID token
+export class UserExporter {
+  constructor(
+    private url: string,
+    private getIdToken: () => Promise<string | undefined>,
+  ) {}
+
+  private async authorization(): Promise<{ Authorization: string }> {
+    const token = await this.getIdToken();
+    if (!token) {
+      throw new Error('You must be signed in to export users');
+    }
+    return { Authorization: `Bearer ${token}` };
+  }
+
+  private exportUrl(format: ExportFormat, query: UserQuery) {
+    return `${this.url}?${exportQueryString(format, exportFilters(query))}`;
+  }
+
+  // Download the file into the cache directory and return its path. The body
+  // goes straight to disk, so a large export never has to fit in memory or
+  // in a share intent. Earlier exports are removed first.
+  async exportToFile(format: ExportFormat, query: UserQuery, fileSystem: ExportFileSystem): Promise<string> {
+    const headers = await this.authorization();
+    const directory = `${fileSystem.cacheDirectory}/exports`;
+    if (await fileSystem.exists(directory)) {
+      await fileSystem.unlink(directory);
+    }
+    await fileSystem.mkdir(directory);
+
+    const path = `${directory}/${exportFileName(format)}`;
+    const { statusCode } = await fileSystem.downloadFile({ fromUrl: this.exportUrl(format, query), toFile: path, headers });
+    if (statusCode < 200 || statusCode >= 300) {
+      const body = await fileSystem.readFile(path).catch(() => '');
+      await fileSystem.unlink(path).catch(() => undefined);
+      throw new Error(body || `Export failed with status ${statusCode}`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,27 @@
+import {
+  ImportFormat,
+  ImportReport,
+  detectImportFormat,
+} from '../../functions/src/shared/userImport';
+
+// Sends CSV or JSON files to the importUsers callable, which validates them
+// and writes the users. Only available with Cloud Functions.
+export class UserImporter {
+  constructor(private functions: any) {}
+
+  // Errors and duplicates by row; nothing is written
+  check(content: string, format: ImportFormat = detectImportFormat(content)): Promise<ImportReport> {
+    return this.run(content, format, true);
+  }
+
+  // Writes the valid rows and sends one notification for all of them
+  commit(content: string, format: ImportFormat = detectImportFormat(content)): Promise<ImportReport> {
+    return this.run(content, format, false);
+  }
+
+  private async run(content: string, format: ImportFormat, dryRun: boolean): Promise<ImportReport> {
+    const importUsers = this.functions.httpsCallable('importUsers');
+    const result = await importUsers({ content, format, dryRun });
+    return result.data as ImportReport;
+  }
+}
@@ -0,0 +1,65 @@
+import { KeyValueStorage } from '../storage/KeyValueStorage';
+import {
+  NotificationPreferences,
+  PREFERENCES_COLLECTION,
+  withDefaults,
+} from '../../functions/src/shared/preferences';
+
+const PREFERENCES_KEY = '@curdfirebasedemo/notificationPreferences';
+
+export interface NotificationPreferencesStoreOptions {
+  // Injected for the same reason as in FirestoreUserRepository
+  serverTimestamp?: () => any;
+}
+
+// Notification preferences of the signed-in user. Saved to
+// `notificationPreferences/{uid}` so Cloud Functions can honor them, and
+// cached on the device for offline use. The cache is kept per uid, so one
+// account never sees another's preferences on a shared device; signed out
+// (local mode) uses a cache of its own.
+export class NotificationPreferencesStore {
+  private serverTimestamp: () => any;
+
+  constructor(
+    private storage: KeyValueStorage,
+    private db: any = null,
+    options: NotificationPreferencesStoreOptions = {},
+  ) {
+    this.serverTimestamp = options.serverTimestamp ?? (() => new Date());
+  }
+
+  private doc(uid: string) {
+    return this.db.collection(PREFERENCES_COLLECTION).doc(uid);
+  }
+
+  private cacheKey(uid?: string) {
+    return uid ? `${PREFERENCES_KEY}/${uid}` : PREFERENCES_KEY;
+  }
+
+  private async loadLocal(uid?: string): Promise<NotificationPreferences> {
+    const stored = await this.storage.getItem(this.cacheKey(uid));
+    return withDefaults(stored ? JSON.parse(stored) : undefined);
+  }
+
+  // Firestore when signed in, falling back to the cached copy
+  async load(uid?: string): Promise<NotificationPreferences> {
+    if (this.db && uid) {
+      try {
+        const doc = await this.doc(uid).get();
+        const preferences = withDefaults(doc.exists() ? doc.data() : undefined);
+        await this.storage.setItem(this.cacheKey(uid), JSON.stringify(preferences));
+        return preferences;
+      } catch (error) {
+        console.log('Error loading notification preferences - using cached copy:', (error as Error).message);
+      }
+    }
+    return this.loadLocal(uid);
+  }
+
+  async save(preferences: NotificationPreferences, uid?: string): Promise<void> {
+    await this.storage.setItem(this.cacheKey(uid), JSON.stringify(preferences));
+    if (this.db && uid) {
+      await this.doc(uid).set({ ...preferences, updatedAt: this.serverTimestamp() });
+    }
+  }
+}
@@ -0,0 +1,294 @@
+import { User, UserInput } from '../types';
+import { EMAIL_INDEX_COLLECTION, normalizeEmail } from '../../functions/src/shared/userSchema';
+import { searchKeyword, searchKeywords } from '../../functions/src/shared/userSearch';
+import { BULK_CHANGES_COLLECTION, BulkChangeRecord, bulkLastChangeId } from '../../functions/src/shared/bulk';
+import {
+  BulkUserUpdate,
+  EmailInUseError,
+  UserRepository,
+  UsersListener,
+  UsersErrorListener,
+  Unsubscribe,
+  USERS_PAGE_SIZE,
+  UsersPage,
+  UsersPageOptions,
+} from './UserRepository';
+import { DEFAULT_USER_QUERY, UserQuery, applyUserQuery } from './UserQuery';
+
+const USERS_COLLECTION = 'users';
+
+const toUser = (doc: any): User => ({ id: doc.id, ...doc.data() } as User);
+
+// Users created before soft delete have no `deletedAt` at all, which a query
+// cannot match, so trashed users are filtered out here
+const activeUsers = (snapshot: any): User[] => {
+  const userList: User[] = [];
+  snapshot.forEach((doc: any) => {
+    const user = toUser(doc);
+    if (!user.deletedAt) {
+      userList.push(user);
+    }
+  });
+  return userList;
+};
+
+export interface FirestoreUserRepositoryOptions {
+  // Injected so this class does not depend on the React Native Firebase
+  // modules itself (see App.tsx for the real ones)
+  serverTimestamp?: () => any;
+  // uid of the signed-in user, stored as `ownerUid` on new users and as
+  // `lastChangedBy` on every create/update
+  currentUid?: () => string | undefined;
+  // Device making the changes, stored as `lastChangedOn` for the audit log
+  currentDevice?: () => string | undefined;
+}
+
+// Users stored in the Firestore `users` collection
+export class FirestoreUserRepository implements UserRepository {
+  readonly isRemote = true;
+
+  private serverTimestamp: () => any;
+  private currentUid: () => string | undefined;
+  private currentDevice: () => string | undefined;
+
+  constructor(private db: any, options: FirestoreUserRepositoryOptions = {}) {
+    this.serverTimestamp = options.serverTimestamp ?? (() => new Date());
+    this.currentUid = options.currentUid ?? (() => undefined);
+    this.currentDevice = options.currentDevice ?? (() => undefined);
+  }
+
+  private collection() {
+    return this.db.collection(USERS_COLLECTION);
+  }
+
+  // The Firestore query for a UserQuery. Trashed users, and search terms
+  // longer than the stored keywords, are filtered out afterwards.
+  private usersQuery(query: UserQuery) {
+    return this.filteredQuery(query).orderBy(query.sortBy, query.direction);
+  }
+
+  private filteredQuery(query: UserQuery) {
+    let ref = this.collection();
+    if (query.search?.trim()) {
+      ref = ref.where('searchKeywords', 'array-contains', searchKeyword(query.search));
+    }
+    if (query.minAge !== undefined) ref = ref.where('age', '>=', query.minAge);
+    if (query.maxAge !== undefined) ref = ref.where('age', '<=', query.maxAge);
+    if (query.createdFrom) ref = ref.where('createdAt', '>=', query.createdFrom);
+    if (query.createdTo) ref = ref.where('createdAt', '<=', query.createdTo);
+    return ref;
+  }
+
+  private emailReservation(email: string) {
+    return this.db.collection(EMAIL_INDEX_COLLECTION).doc(normalizeEmail(email));
+  }
+
+  // Reserve `email` for user `id` within a transaction, after checking no
+  // other user holds it. A reservation whose holder is gone or has another
+  // email by now is taken over. Only reads, so writes can follow.
+  private async reserveEmail(transaction: any, email: string, id: string) {
+    const reservationRef = this.emailReservation(email);
+    const reservation = await transaction.get(reservationRef);
+    const holderId = reservation.exists() ? reservation.data().userId : null;
+    if (holderId && holderId !== id) {
+      const holder = await transaction.get(this.collection().doc(holderId));
+      if (holder.exists() && normalizeEmail(holder.data().email ?? '') === normalizeEmail(email)) {
+        throw new EmailInUseError(email);
+      }
+    }
+    return holderId === id ? null : reservationRef;
+  }
+
+  private changedBy(): { lastChangedBy?: string; lastChangedOn?: string } {
+    const uid = this.currentUid();
+    const device = this.currentDevice();
+    return {
+      ...(uid ? { lastChangedBy: uid } : {}),
+      ...(device ? { lastChangedOn: device } : {}),
+    };
+  }
+
+  async create(data: UserInput): Promise<User> {
+    const ownerUid = this.currentUid() ?? data.ownerUid;
+    const changedBy = this.changedBy();
+    const docRef = this.collection().doc();
+    await this.db.runTransaction(async (transaction: any) => {
+      const reservationRef = await this.reserveEmail(transaction, data.email, docRef.id);
+      if (reservationRef) {
+        transaction.set(reservationRef, { userId: docRef.id });
+      }
+      transaction.set(docRef, {
+        ...data,
+        searchKeywords: searchKeywords(data),
+        ...(ownerUid ? { ownerUid } : {}),
+        ...changedBy,
+        createdAt: this.serverTimestamp(),
+      });
+    });
+    // The server timestamp is resolved by the snapshot listener; use the local
+    // clock until then
+    return { id: docRef.id, ...data, ownerUid, ...changedBy, createdAt: new Date() };
+  }
+
+  async get(id: string): Promise<User | null> {
+    const doc = await this.collection().doc(id).get();
+    return doc.exists() ? toUser(doc) : null;
+  }
+
+  async list(query: UserQuery = DEFAULT_USER_QUERY): Promise<User[]> {
+    const snapshot = await this.usersQuery(query).get();
+    return applyUserQuery(activeUsers(snapshot), query);
+  }
+
+  async page(options: UsersPageOptions = {}): Promise<UsersPage> {
+    const query = options.query ?? DEFAULT_USER_QUERY;
+    const pageSize = options.pageSize ?? USERS_PAGE_SIZE;
+    let ref = this.usersQuery(query);
+    if (options.after) {
+      ref = ref.startAfter(options.after);
+    }
+
+    // One extra document tells whether there is another page
+    const snapshot = await ref.limit(pageSize + 1).get();
+    const docs = snapshot.docs.slice(0, pageSize);
+
+    return {
+      users: applyUserQuery(activeUsers(docs), query),
+      cursor: docs.length > 0 ? docs[docs.length - 1] : options.after ?? null,
+      hasMore: snapshot.docs.length > pageSize,
+    };
+  }
+
+  // Aggregate counts, so no user is downloaded. Counts every user matching
+  // the stored keywords when the search term is longer than they are.
+  async count(query: UserQuery = DEFAULT_USER_QUERY): Promise<number> {
+    const matching = this.filteredQuery(query);
+    const [all, trashed] = await Promise.all([
+      matching.count().get(),
+      matching.where('deletedAt', '!=', null).count().get(),
+    ]);
+    return all.data().count - trashed.data().count;
+  }
+
+  async update(id: string, data: Partial<UserInput>): Promise<void> {
+    const docRef = this.collection().doc(id);
+    if (data.name === undefined && data.email === undefined) {
+      await docRef.update({ ...data, ...this.changedBy() });
+      return;
+    }
+
+    // The search keywords follow the name and email, and a new email moves
+    // the reservation from the old one
+    await this.db.runTransaction(async (transaction: any) => {
+      const current = await transaction.get(docRef);
+      if (!current.exists()) {
+        throw new Error(`User ${id} not found`);
+      }
+      const previousEmail: string = current.data().email ?? '';
+      const emailChanged = data.email !== undefined && normalizeEmail(previousEmail) !== normalizeEmail(data.email);
+      const reservationRef = emailChanged ? await this.reserveEmail(transaction, data.email!, id) : null;
+      const previousRef = emailChanged && previousEmail ? this.emailReservation(previousEmail) : null;
+      const previous = previousRef ? await transaction.get(previousRef) : null;
+
+      if (reservationRef) {
+        transaction.set(reservationRef, { userId: id });
+      }
+      if (previous?.exists() && previous.data().userId === id) {
+        transaction.delete(previousRef);
+      }
+      transaction.update(docRef, {
+        ...data,
+        searchKeywords: searchKeywords({ ...current.data(), ...data }),
+        ...this.changedBy(),
+      });
+    });
+  }
+
+  async delete(id: string, lastChangeId?: string): Promise<void> {
+    await this.collection().doc(id).update({
+      deletedAt: this.serverTimestamp(),
+      ...(lastChangeId ? { lastChangeId } : {}),
+      ...this.changedBy(),
+    });
+  }
+
+  async updateMany(users: User[], data: BulkUserUpdate, bulkId: string): Promise<void> {
+    await this.writeBulkChange('UPDATE', users, bulkId, { ...data });
+  }
+
+  async deleteMany(users: User[], bulkId: string): Promise<void> {
+    await this.writeBulkChange('DELETE', users, bulkId, { deletedAt: this.serverTimestamp() });
+  }
+
+  // One batch with every user and the bulkChanges document that announces
+  // them together
+  private async writeBulkChange(
+    action: BulkChangeRecord['action'],
+    users: User[],
+    bulkId: string,
+    fields: Partial<User>,
+  ) {
+    const changedBy = this.changedBy();
+    const batch = this.db.batch();
+    users.forEach(user => {
+      batch.update(this.collection().doc(user.id), {
+        ...fields,
+        lastChangeId: bulkLastChangeId(bulkId, user.id),
+        ...changedBy,
+      });
+    });
+    batch.set(this.db.collection(BULK_CHANGES_COLLECTION).doc(bulkId), {
+      action,
+      names: users.map(user => user.name),
+      userIds: users.map(user => user.id),
+      lastChangedBy: changedBy.lastChangedBy,
+      createdAt: this.serverTimestamp(),
+    });
+    await batch.commit();
+  }
+
+  async listTrash(): Promise<User[]> {
+    const snapshot = await this.collection().where('deletedAt', '!=', null).orderBy('deletedAt', 'desc').get();
+    const userList: User[] = [];
+    snapshot.forEach((doc: any) => {
+      userList.push(toUser(doc));
+    });
+    return userList;
+  }
+
+  async restore(id: string): Promise<void> {
+    await this.collection().doc(id).update({ deletedAt: null, ...this.changedBy() });
+  }
+
+  // Trashed users keep their email reserved until they are purged
+  async purge(id: string): Promise<void> {
+    const docRef = this.collection().doc(id);
+    await this.db.runTransaction(async (transaction: any) => {
+      const current = await transaction.get(docRef);
+      if (!current.exists()) return;
+      const email: string | undefined = current.data().email;
+      const reservationRef = email ? this.emailReservation(email) : null;
+      const reservation = reservationRef ? await transaction.get(reservationRef) : null;
+
+      if (reservation?.exists() && reservation.data().userId === id) {
+        transaction.delete(reservationRef);
+      }
+      transaction.delete(docRef);
+    });
+  }
+
+  subscribe(
+    onChange: UsersListener,
+    onError?: UsersErrorListener,
+    query: UserQuery = DEFAULT_USER_QUERY,
+    endAt?: any,
+  ): Unsubscribe {
+    const ref = this.usersQuery(query);
+    return (endAt ? ref.endAt(endAt) : ref)
+      .onSnapshot((snapshot: any) => {
+        onChange(applyUserQuery(activeUsers(snapshot), query));
+      }, (error: Error) => {
+        onError?.(error);
+      });
+  }
+}
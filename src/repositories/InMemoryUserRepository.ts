@@ -0,0 +1,133 @@
+import { User, UserInput } from '../types';
+import { generateUniqueId } from '../utils';
+import {
+  BulkUserUpdate,
+  UserRepository,
+  UsersListener,
+  UsersErrorListener,
+  Unsubscribe,
+  UsersPage,
+  UsersPageOptions,
+  assertEmailAvailable,
+  pageOfUsers,
+  windowOfUsers,
+} from './UserRepository';
+import { DEFAULT_USER_QUERY, UserQuery, applyUserQuery } from './UserQuery';
+
+// Users kept in memory only; nothing survives an app restart (tests)
+export class InMemoryUserRepository implements UserRepository {
+  readonly isRemote = false;
+
+  private users: User[];
+  // Each listener with the query and window end it subscribed with
+  private listeners = new Map<UsersListener, { query: UserQuery; endAt?: User }>();
+
+  constructor(initialUsers: User[] = []) {
+    this.users = [...initialUsers];
+  }
+
+  async create(data: UserInput): Promise<User> {
+    assertEmailAvailable(this.users, data.email);
+    const user: User = { id: generateUniqueId(), ...data, createdAt: new Date() };
+    this.users = [user, ...this.users];
+    this.emit();
+    return user;
+  }
+
+  async get(id: string): Promise<User | null> {
+    return this.users.find(user => user.id === id) ?? null;
+  }
+
+  async list(query: UserQuery = DEFAULT_USER_QUERY): Promise<User[]> {
+    return applyUserQuery(this.activeUsers(), query);
+  }
+
+  async page(options?: UsersPageOptions): Promise<UsersPage> {
+    return pageOfUsers(this.activeUsers(), options);
+  }
+
+  async count(query: UserQuery = DEFAULT_USER_QUERY): Promise<number> {
+    return applyUserQuery(this.activeUsers(), query).length;
+  }
+
+  async update(id: string, data: Partial<UserInput>): Promise<void> {
+    if (!this.users.some(user => user.id === id)) {
+      throw new Error(`User ${id} not found`);
+    }
+    if (data.email !== undefined) {
+      assertEmailAvailable(this.users, data.email, id);
+    }
+    this.users = this.users.map(user => (user.id === id ? { ...user, ...data } : user));
+    this.emit();
+  }
+
+  async delete(id: string, lastChangeId?: string): Promise<void> {
+    this.users = this.users.map(user => (user.id === id
+      ? { ...user, deletedAt: new Date(), ...(lastChangeId ? { lastChangeId } : {}) }
+      : user));
+    this.emit();
+  }
+
+  async updateMany(users: User[], data: BulkUserUpdate, bulkId: string): Promise<void> {
+    const ids = this.existingIds(users);
+    this.users = this.users.map(user => (ids.has(user.id)
+      ? { ...user, ...data, lastChangeId: `${bulkId}_${user.id}` }
+      : user));
+    this.emit();
+  }
+
+  async deleteMany(users: User[], bulkId: string): Promise<void> {
+    const ids = this.existingIds(users);
+    this.users = this.users.map(user => (ids.has(user.id) && !user.deletedAt
+      ? { ...user, deletedAt: new Date(), lastChangeId: `${bulkId}_${user.id}` }
+      : user));
+    this.emit();
+  }
+
+  async listTrash(): Promise<User[]> {
+    return this.users
+      .filter(user => user.deletedAt)
+      .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  async restore(id: string): Promise<void> {
+    this.users = this.users.map(user => (user.id === id ? { ...user, deletedAt: null } : user));
+    this.emit();
+  }
+
+  async purge(id: string): Promise<void> {
+    this.users = this.users.filter(user => user.id !== id);
+    this.emit();
+  }
+
+  subscribe(
+    onChange: UsersListener,
+    _onError?: UsersErrorListener,
+    query: UserQuery = DEFAULT_USER_QUERY,
+    endAt?: User,
+  ): Unsubscribe {
+    this.listeners.set(onChange, { query, endAt });
+    onChange(windowOfUsers(this.activeUsers(), query, endAt));
+    return () => {
+      this.listeners.delete(onChange);
+    };
+  }
+
+  // Bulk actions change all of the users or none
+  private existingIds(users: User[]): Set<string> {
+    const missing = users.find(({ id }) => !this.users.some(user => user.id === id));
+    if (missing) {
+      throw new Error(`User ${missing.id} not found`);
+    }
+    return new Set(users.map(user => user.id));
+  }
+
+  private activeUsers() {
+    return this.users.filter(user => !user.deletedAt);
+  }
+
+  private emit() {
+    const snapshot = this.activeUsers();
+    this.listeners.forEach(({ query, endAt }, listener) => listener(windowOfUsers(snapshot, query, endAt)));
+  }
+}
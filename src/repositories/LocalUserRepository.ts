@@ -0,0 +1,284 @@
+import { User, UserInput } from '../types';
+import { generateUniqueId } from '../utils';
+import { KeyValueStorage } from '../storage/KeyValueStorage';
+import {
+  BulkUserUpdate,
+  UserRepository,
+  UsersListener,
+  UsersErrorListener,
+  Unsubscribe,
+  UsersPage,
+  UsersPageOptions,
+  assertEmailAvailable,
+  pageOfUsers,
+  windowOfUsers,
+} from './UserRepository';
+import { DEFAULT_USER_QUERY, UserQuery, applyUserQuery } from './UserQuery';
+
+const USERS_KEY = '@curdfirebasedemo/users';
+const PENDING_CHANGES_KEY = '@curdfirebasedemo/pendingChanges';
+
+// A change made while offline, waiting to be replayed into Firestore.
+// `base` is the server copy the change was made against and is used to
+// detect conflicting edits from other devices.
+export type PendingChange =
+  | { id: string; type: 'CREATE'; userId: string; data: UserInput; queuedAt: number }
+  | { id: string; type: 'UPDATE'; userId: string; data: Partial<UserInput>; base: User; queuedAt: number }
+  | { id: string; type: 'DELETE'; userId: string; base: User; lastChangeId?: string; queuedAt: number }
+  | { id: string; type: 'RESTORE'; userId: string; queuedAt: number }
+  | { id: string; type: 'PURGE'; userId: string; base: User; queuedAt: number };
+
+// Firestore Timestamps and Dates both come back from JSON as plain values
+const reviveDate = (value: any): Date | undefined => {
+  if (!value) return undefined;
+  if (typeof value.toDate === 'function') return value.toDate();
+  if (typeof value.seconds === 'number') return new Date(value.seconds * 1000);
+  return new Date(value);
+};
+
+// Users persisted on the device for offline mode. Every create, update and
+// delete is also queued so it can be replayed the next time the app starts
+// with Firestore.
+export class LocalUserRepository implements UserRepository {
+  readonly isRemote = false;
+
+  private users: User[] = [];
+  private pendingChanges: PendingChange[] = [];
+  // Each listener with the query and window end it subscribed with
+  private listeners = new Map<UsersListener, { query: UserQuery; endAt?: User }>();
+  private loading: Promise<void> | null = null;
+
+  constructor(private storage: KeyValueStorage) {}
+
+  async create(data: UserInput): Promise<User> {
+    await this.load();
+    assertEmailAvailable(this.users, data.email);
+    const user: User = { id: generateUniqueId(), ...data, createdAt: new Date() };
+    this.users = [user, ...this.users];
+    this.queue({ id: generateUniqueId(), type: 'CREATE', userId: user.id, data, queuedAt: Date.now() });
+    await this.save();
+    return user;
+  }
+
+  async get(id: string): Promise<User | null> {
+    await this.load();
+    return this.users.find(user => user.id === id) ?? null;
+  }
+
+  async list(query: UserQuery = DEFAULT_USER_QUERY): Promise<User[]> {
+    await this.load();
+    return applyUserQuery(this.activeUsers(), query);
+  }
+
+  async page(options?: UsersPageOptions): Promise<UsersPage> {
+    await this.load();
+    return pageOfUsers(this.activeUsers(), options);
+  }
+
+  async count(query: UserQuery = DEFAULT_USER_QUERY): Promise<number> {
+    await this.load();
+    return applyUserQuery(this.activeUsers(), query).length;
+  }
+
+  async update(id: string, data: Partial<UserInput>): Promise<void> {
+    await this.load();
+    this.updateUser(this.existing(id), data);
+    await this.save();
+  }
+
+  async delete(id: string, lastChangeId?: string): Promise<void> {
+    await this.load();
+    const existing = this.users.find(user => user.id === id);
+    if (!existing) return;
+    this.deleteUser(existing, lastChangeId);
+    await this.save();
+  }
+
+  // Each user is queued, and so replayed and announced, on its own
+  async updateMany(users: User[], data: BulkUserUpdate, bulkId: string): Promise<void> {
+    await this.load();
+    const existing = users.map(user => this.existing(user.id));
+    existing.forEach(user => this.updateUser(user, { ...data, lastChangeId: `${bulkId}_${user.id}` }));
+    await this.save();
+  }
+
+  async deleteMany(users: User[], bulkId: string): Promise<void> {
+    await this.load();
+    const existing = users.map(user => this.existing(user.id));
+    existing.forEach(user => this.deleteUser(user, `${bulkId}_${user.id}`));
+    await this.save();
+  }
+
+  async listTrash(): Promise<User[]> {
+    await this.load();
+    return this.users
+      .filter(user => user.deletedAt)
+      .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  async restore(id: string): Promise<void> {
+    await this.load();
+    if (!this.users.some(user => user.id === id && user.deletedAt)) return;
+    this.users = this.users.map(user => (user.id === id ? { ...user, deletedAt: null } : user));
+    this.queue({ id: generateUniqueId(), type: 'RESTORE', userId: id, queuedAt: Date.now() });
+    await this.save();
+  }
+
+  async purge(id: string): Promise<void> {
+    await this.load();
+    const existing = this.users.find(user => user.id === id);
+    if (!existing) return;
+    this.users = this.users.filter(user => user.id !== id);
+    this.queue({ id: generateUniqueId(), type: 'PURGE', userId: id, base: existing, queuedAt: Date.now() });
+    await this.save();
+  }
+
+  subscribe(
+    onChange: UsersListener,
+    _onError?: UsersErrorListener,
+    query: UserQuery = DEFAULT_USER_QUERY,
+    endAt?: User,
+  ): Unsubscribe {
+    const subscription = { query, endAt };
+    this.listeners.set(onChange, subscription);
+    this.load().then(() => {
+      if (this.listeners.get(onChange) === subscription) {
+        onChange(windowOfUsers(this.activeUsers(), query, endAt));
+      }
+    });
+    return () => {
+      this.listeners.delete(onChange);
+    };
+  }
+
+  async getPendingChanges(): Promise<PendingChange[]> {
+    await this.load();
+    return [...this.pendingChanges];
+  }
+
+  // Drop changes that have been replayed (or discarded after a conflict)
+  async removePendingChanges(ids: string[]): Promise<void> {
+    await this.load();
+    this.pendingChanges = this.pendingChanges.filter(change => !ids.includes(change.id));
+    await this.save();
+  }
+
+  // Cache the server copy of the users list without queueing anything, so
+  // the app starts from the latest known data the next time it is offline
+  async replaceAll(users: User[]): Promise<void> {
+    await this.load();
+    this.users = [...users];
+    await this.save();
+  }
+
+  // Like replaceAll for part of the list (e.g. the pages loaded so far):
+  // updates the cached copies of these users and adds new ones, keeping the
+  // rest as they were
+  async mergeAll(users: User[]): Promise<void> {
+    await this.load();
+    const latest = new Map(users.map(user => [user.id, user]));
+    const cachedIds = new Set(this.users.map(user => user.id));
+    this.users = [
+      ...this.users.map(user => latest.get(user.id) ?? user),
+      ...users.filter(user => !cachedIds.has(user.id)),
+    ];
+    await this.save();
+  }
+
+  private existing(id: string): User {
+    const existing = this.users.find(user => user.id === id);
+    if (!existing) {
+      throw new Error(`User ${id} not found`);
+    }
+    return existing;
+  }
+
+  private updateUser(existing: User, data: Partial<UserInput>) {
+    if (data.email !== undefined) {
+      assertEmailAvailable(this.users, data.email, existing.id);
+    }
+    this.users = this.users.map(user => (user.id === existing.id ? { ...user, ...data } : user));
+    this.queue({ id: generateUniqueId(), type: 'UPDATE', userId: existing.id, data, base: existing, queuedAt: Date.now() });
+  }
+
+  private deleteUser(existing: User, lastChangeId?: string) {
+    if (existing.deletedAt) return;
+    const id = existing.id;
+
+    // A user that never reached the server has nothing to restore there
+    if (this.pendingChanges.some(change => change.userId === id && change.type === 'CREATE')) {
+      this.users = this.users.filter(user => user.id !== id);
+    } else {
+      this.users = this.users.map(user => (user.id === id
+        ? { ...user, deletedAt: new Date(), ...(lastChangeId ? { lastChangeId } : {}) }
+        : user));
+    }
+    this.queue({ id: generateUniqueId(), type: 'DELETE', userId: id, base: existing, lastChangeId, queuedAt: Date.now() });
+  }
+
+  // Later changes to the same user are folded into the last queued one where
+  // they combine, so the queue never refers to an id that only exists on this
+  // device; anything else is queued after it
+  private queue(change: PendingChange) {
+    let index = -1;
+    this.pendingChanges.forEach((pending, i) => {
+      if (pending.userId === change.userId) index = i;
+    });
+    const pending = index === -1 ? null : this.pendingChanges[index];
+    let merged: PendingChange | null | undefined;
+
+    if (pending?.type === 'CREATE') {
+      if (change.type === 'UPDATE') merged = { ...pending, data: { ...pending.data, ...change.data } };
+      if (change.type === 'DELETE' || change.type === 'PURGE') merged = null;
+    } else if (pending?.type === 'UPDATE' && change.type === 'UPDATE') {
+      merged = { ...pending, data: { ...pending.data, ...change.data } };
+    } else if (pending?.type === 'DELETE') {
+      if (change.type === 'RESTORE') merged = null;
+      if (change.type === 'PURGE') merged = { ...change, base: pending.base };
+    }
+
+    if (merged === undefined) {
+      this.pendingChanges = [...this.pendingChanges, change];
+    } else {
+      this.pendingChanges = merged
+        ? this.pendingChanges.map((item, i) => (i === index ? merged! : item))
+        : this.pendingChanges.filter((_, i) => i !== index);
+    }
+  }
+
+  private activeUsers() {
+    return this.users.filter(user => !user.deletedAt);
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const [storedUsers, storedChanges] = await Promise.all([
+            this.storage.getItem(USERS_KEY),
+            this.storage.getItem(PENDING_CHANGES_KEY),
+          ]);
+          const users: User[] = storedUsers ? JSON.parse(storedUsers) : [];
+          this.users = users.map(user => ({
+            ...user,
+            createdAt: reviveDate(user.createdAt),
+            deletedAt: reviveDate(user.deletedAt) ?? null,
+          }));
+          this.pendingChanges = storedChanges ? JSON.parse(storedChanges) : [];
+        } catch (error) {
+          console.error('Error loading local users:', error);
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  private async save() {
+    const snapshot = this.activeUsers();
+    this.listeners.forEach(({ query, endAt }, listener) => listener(windowOfUsers(snapshot, query, endAt)));
+    await Promise.all([
+      this.storage.setItem(USERS_KEY, JSON.stringify(this.users)),
+      this.storage.setItem(PENDING_CHANGES_KEY, JSON.stringify(this.pendingChanges)),
+    ]);
+  }
+}
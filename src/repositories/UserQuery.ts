@@ -0,0 +1,71 @@
+import { User } from '../types';
+import { matchesSearch } from '../../functions/src/shared/userSearch';
+
+export type UserSortField = 'name' | 'age' | 'createdAt';
+export type SortDirection = 'asc' | 'desc';
+
+// What the users list shows. FirestoreUserRepository turns it into a query;
+// the other repositories apply it with applyUserQuery.
+export interface UserQuery {
+  // Prefix of the name, of a word of the name or of the email; any case
+  search?: string;
+  // Age range, inclusive
+  minAge?: number;
+  maxAge?: number;
+  // Created date range, inclusive
+  createdFrom?: Date;
+  createdTo?: Date;
+  sortBy: UserSortField;
+  direction: SortDirection;
+}
+
+export const DEFAULT_USER_QUERY: UserQuery = { sortBy: 'createdAt', direction: 'desc' };
+
+// True when the query can leave users out (as opposed to only sorting them)
+export const hasFilters = (query: UserQuery) =>
+  !!query.search?.trim() ||
+  query.minAge !== undefined ||
+  query.maxAge !== undefined ||
+  query.createdFrom !== undefined ||
+  query.createdTo !== undefined;
+
+// Firestore Timestamps, Dates and JSON dates; a create whose server
+// timestamp is still pending counts as now
+export const createdAtMillis = (createdAt: any): number => {
+  if (!createdAt) return Date.now();
+  if (typeof createdAt.toMillis === 'function') return createdAt.toMillis();
+  return new Date(createdAt).getTime();
+};
+
+export const matchesUserQuery = (user: User, query: UserQuery): boolean => {
+  if (query.search && !matchesSearch(user, query.search)) return false;
+  if (query.minAge !== undefined && !(user.age >= query.minAge)) return false;
+  if (query.maxAge !== undefined && !(user.age <= query.maxAge)) return false;
+  const created = createdAtMillis(user.createdAt);
+  if (query.createdFrom && created < query.createdFrom.getTime()) return false;
+  if (query.createdTo && created > query.createdTo.getTime()) return false;
+  return true;
+};
+
+// Values compare like Firestore's orderBy (strings by character code), so a
+// list looks the same whichever repository produced it
+const sortValue = (user: User, field: UserSortField) =>
+  field === 'createdAt' ? createdAtMillis(user.createdAt) : user[field];
+
+export const compareUsers = (a: User, b: User, query: UserQuery): number => {
+  const first = sortValue(a, query.sortBy);
+  const second = sortValue(b, query.sortBy);
+  const order = first < second ? -1 : first > second ? 1 : 0;
+  return query.direction === 'asc' ? order : -order;
+};
+
+// The users that match the query, in its order
+export const applyUserQuery = (users: User[], query: UserQuery): User[] =>
+  users.filter(user => matchesUserQuery(user, query)).sort((a, b) => compareUsers(a, b, query));
+
+// How many users of a list in the query's order come up to and including
+// `cursor`, a user taken from an earlier version of the list
+export const positionAfter = (users: User[], cursor: User, query: UserQuery): number => {
+  const index = users.findIndex(user => user.id === cursor.id);
+  return index !== -1 ? index + 1 : users.filter(user => compareUsers(user, cursor, query) <= 0).length;
+};
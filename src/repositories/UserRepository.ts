@@ -0,0 +1,100 @@
+import { User, UserInput } from '../types';
+import { normalizeEmail } from '../../functions/src/shared/userSchema';
+import { DEFAULT_USER_QUERY, UserQuery, applyUserQuery, positionAfter } from './UserQuery';
+
+export type UsersListener = (users: User[]) => void;
+export type UsersErrorListener = (error: Error) => void;
+export type Unsubscribe = () => void;
+
+export const USERS_PAGE_SIZE = 25;
+
+export interface UsersPageOptions {
+  query?: UserQuery;
+  // `cursor` of the previous page
+  after?: any;
+  pageSize?: number;
+}
+
+// Fields the list's bulk edit sets on many users at once; names and emails
+// belong to one user each
+export type BulkUserUpdate = Pick<UserInput, 'age'>;
+
+export interface UsersPage {
+  users: User[];
+  // Pass as `after` to load the next page, or as `endAt` to subscribe()
+  cursor: any;
+  hasMore: boolean;
+}
+
+// Storage backend for the users list. list(), page() and subscribe() return
+// the users matching the query, in its order; without one, every user ordered
+// by createdAt, newest first (DEFAULT_USER_QUERY). Deleting moves a user to
+// the trash (sets `deletedAt`); trashed users are left out of list(), page(),
+// count() and subscribe() until they are restored or purged.
+export interface UserRepository {
+  // True when changes are shared with other devices (e.g. Firestore)
+  readonly isRemote: boolean;
+
+  create(data: UserInput): Promise<User>;
+  get(id: string): Promise<User | null>;
+  list(query?: UserQuery): Promise<User[]>;
+  // One page of the list, USERS_PAGE_SIZE users by default. A page can hold
+  // fewer users than its size while there are more to come.
+  page(options?: UsersPageOptions): Promise<UsersPage>;
+  // How many users match the query
+  count(query?: UserQuery): Promise<number>;
+  update(id: string, data: Partial<UserInput>): Promise<void>;
+  // `lastChangeId` identifies the delete for notification de-duplication
+  delete(id: string, lastChangeId?: string): Promise<void>;
+  // Bulk actions: all of the users are changed or none. `bulkId` identifies
+  // the change for notifications (see functions/src/shared/bulk.ts).
+  updateMany(users: User[], data: BulkUserUpdate, bulkId: string): Promise<void>;
+  deleteMany(users: User[], bulkId: string): Promise<void>;
+  // Trashed users, most recently deleted first
+  listTrash(): Promise<User[]>;
+  restore(id: string): Promise<void>;
+  // Remove a user for good
+  purge(id: string): Promise<void>;
+  // Live updates of the list up to and including `endAt` (a page's cursor),
+  // or of the whole list without one
+  subscribe(onChange: UsersListener, onError?: UsersErrorListener, query?: UserQuery, endAt?: any): Unsubscribe;
+}
+
+// Thrown by create() and update() when another user already has the email
+export class EmailInUseError extends Error {
+  constructor(readonly email: string) {
+    super(`${email} is already used by another user`);
+    this.name = 'EmailInUseError';
+    // Keeps instanceof working when classes are compiled to ES5
+    Object.setPrototypeOf(this, EmailInUseError.prototype);
+  }
+}
+
+// For repositories that hold every user: throws EmailInUseError when a user
+// other than `exceptId` has the email. Trashed users keep theirs until purged.
+export const assertEmailAvailable = (users: User[], email: string, exceptId?: string) => {
+  const normalized = normalizeEmail(email);
+  if (users.some(user => user.id !== exceptId && normalizeEmail(user.email ?? '') === normalized)) {
+    throw new EmailInUseError(email);
+  }
+};
+
+// For repositories that hold every user: a page of the active users
+export const pageOfUsers = (users: User[], options: UsersPageOptions = {}): UsersPage => {
+  const query = options.query ?? DEFAULT_USER_QUERY;
+  const pageSize = options.pageSize ?? USERS_PAGE_SIZE;
+  const list = applyUserQuery(users, query);
+  const start = options.after ? positionAfter(list, options.after, query) : 0;
+  const page = list.slice(start, start + pageSize);
+  return {
+    users: page,
+    cursor: page.length > 0 ? page[page.length - 1] : options.after ?? null,
+    hasMore: list.length > start + pageSize,
+  };
+};
+
+// For repositories that hold every user: the active users subscribe() reports
+export const windowOfUsers = (users: User[], query: UserQuery, endAt?: User): User[] => {
+  const list = applyUserQuery(users, query);
+  return endAt ? list.slice(0, positionAfter(list, endAt, query)) : list;
+};
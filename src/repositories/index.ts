@@ -0,0 +1,6 @@
+export * from './UserRepository';
+export * from './UserQuery';
+export { FirestoreUserRepository } from './FirestoreUserRepository';
+export { InMemoryUserRepository } from './InMemoryUserRepository';
+export { LocalUserRepository } from './LocalUserRepository';
+export type { PendingChange } from './LocalUserRepository';
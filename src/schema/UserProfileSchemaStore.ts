@@ -0,0 +1,35 @@
+import { KeyValueStorage } from '../storage/KeyValueStorage';
+import {
+  CustomFieldDefinition,
+  SCHEMA_COLLECTION,
+  USER_PROFILE_SCHEMA_ID,
+  parseCustomFields,
+} from '../../functions/src/shared/userSchema';
+
+const SCHEMA_KEY = '@curdfirebasedemo/userProfileSchema';
+
+// The custom user fields defined in Firestore `schema/users`, cached on the
+// device so the form and user cards keep them offline and in local mode
+export class UserProfileSchemaStore {
+  constructor(private storage: KeyValueStorage, private db: any = null) {}
+
+  private async loadLocal(): Promise<CustomFieldDefinition[]> {
+    const stored = await this.storage.getItem(SCHEMA_KEY);
+    return parseCustomFields(stored ? JSON.parse(stored) : undefined);
+  }
+
+  // Firestore when available, falling back to the cached copy
+  async load(): Promise<CustomFieldDefinition[]> {
+    if (this.db) {
+      try {
+        const doc = await this.db.collection(SCHEMA_COLLECTION).doc(USER_PROFILE_SCHEMA_ID).get();
+        const fields = parseCustomFields(doc.exists() ? doc.data() : undefined);
+        await this.storage.setItem(SCHEMA_KEY, JSON.stringify({ fields }));
+        return fields;
+      } catch (error) {
+        console.log('Error loading the user profile schema - using cached copy:', (error as Error).message);
+      }
+    }
+    return this.loadLocal();
+  }
+}
@@ -0,0 +1,7 @@
+// The subset of the AsyncStorage API used by the app, so storage can be
+// swapped for an in-memory map in tests
+export interface KeyValueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
@@ -0,0 +1,134 @@
+import { User } from '../types';
+import { EmailInUseError, UserRepository } from '../repositories/UserRepository';
+import { LocalUserRepository, PendingChange } from '../repositories/LocalUserRepository';
+import { CustomFieldValues, parseAge } from '../../functions/src/shared/userSchema';
+
+export interface SyncConflict {
+  change: PendingChange;
+  // 'modified': another device edited the user since it was cached
+  // 'deleted': the user no longer exists on the server, or is in its trash
+  // 'email-in-use': another user has taken the email in the meantime
+  // 'rejected': the server refused the change (e.g. the signed-in user may not
+  // make it, or it breaks the schema); retrying would fail the same way
+  reason: 'modified' | 'deleted' | 'email-in-use' | 'rejected';
+  serverUser: User | null;
+}
+
+export interface SyncResult {
+  applied: PendingChange[];
+  conflicts: SyncConflict[];
+  // Changes left in the queue because the server could not be reached
+  remaining: number;
+}
+
+const USER_FIELDS: (keyof User)[] = ['name', 'email'];
+
+const hasSameCustomFields = (a: CustomFieldValues = {}, b: CustomFieldValues = {}) =>
+  [...new Set([...Object.keys(a), ...Object.keys(b)])].every(key => a[key] === b[key]);
+
+// Older records store the age as typed ("30"), so ages are compared as numbers
+const hasSameFields = (a: User, b: User) =>
+  USER_FIELDS.every(field => a[field] === b[field])
+  && parseAge(a.age) === parseAge(b.age)
+  && hasSameCustomFields(a.customFields, b.customFields);
+
+// Firestore error codes (with or without the `firestore/` prefix) for changes
+// the server will never accept. Other errors (unavailable, network) are
+// transient and the change is retried on the next sync.
+const PERMANENT_ERROR_CODES = ['permission-denied', 'invalid-argument', 'failed-precondition'];
+
+const isPermanentError = (error: unknown) => {
+  const code = (error as { code?: unknown })?.code;
+  return typeof code === 'string' && PERMANENT_ERROR_CODES.includes(code.replace(/^firestore\//, ''));
+};
+
+// Work out whether a queued change can still be applied on top of the
+// current server copy
+const findConflict = (change: PendingChange, serverUser: User | null): SyncConflict | null => {
+  if (change.type === 'CREATE' || change.type === 'RESTORE') return null;
+
+  // Purging a user someone else has restored or edited in the meantime would
+  // lose it; a purge folded into an offline delete starts from a live copy
+  if (change.type === 'PURGE') {
+    if (!serverUser || serverUser.deletedAt) return null;
+    return !change.base.deletedAt && hasSameFields(change.base, serverUser)
+      ? null
+      : { change, reason: 'modified', serverUser };
+  }
+
+  if (!serverUser || serverUser.deletedAt) {
+    // Deleting a user someone else already removed is not a conflict
+    return change.type === 'DELETE' ? null : { change, reason: 'deleted', serverUser };
+  }
+
+  return hasSameFields(change.base, serverUser) ? null : { change, reason: 'modified', serverUser };
+};
+
+// Apply one queued change to the remote repository, unless it conflicts
+const applyChange = async (change: PendingChange, remote: UserRepository): Promise<SyncConflict | null> => {
+  if (change.type === 'CREATE') {
+    await remote.create(change.data);
+    return null;
+  }
+
+  const serverUser = await remote.get(change.userId);
+  const conflict = findConflict(change, serverUser);
+  if (conflict) {
+    return conflict;
+  }
+
+  if (change.type === 'UPDATE') {
+    await remote.update(change.userId, change.data);
+  } else if (change.type === 'RESTORE') {
+    if (serverUser?.deletedAt) await remote.restore(change.userId);
+  } else if (change.type === 'PURGE') {
+    if (serverUser) await remote.purge(change.userId);
+  } else if (serverUser && !serverUser.deletedAt) {
+    await remote.delete(change.userId, change.lastChangeId);
+  }
+  return null;
+};
+
+// Replay changes queued in local mode into the remote repository, oldest
+// first. Conflicting changes and changes the server rejects are discarded so
+// the server copy wins; they are reported back so the app can tell the user.
+// A transient error stops the sync and leaves the rest queued.
+export const syncPendingChanges = async (
+  local: LocalUserRepository,
+  remote: UserRepository,
+): Promise<SyncResult> => {
+  const pendingChanges = await local.getPendingChanges();
+  const applied: PendingChange[] = [];
+  const conflicts: SyncConflict[] = [];
+  const done: string[] = [];
+
+  try {
+    for (const change of pendingChanges) {
+      let conflict: SyncConflict | null;
+      try {
+        conflict = await applyChange(change, remote);
+      } catch (error) {
+        if (error instanceof EmailInUseError) {
+          conflict = { change, reason: 'email-in-use', serverUser: null };
+        } else if (isPermanentError(error)) {
+          conflict = { change, reason: 'rejected', serverUser: null };
+        } else {
+          throw error;
+        }
+      }
+
+      if (conflict) {
+        conflicts.push(conflict);
+      } else {
+        applied.push(change);
+      }
+      done.push(change.id);
+    }
+  } catch (error) {
+    console.log('Sync interrupted - remaining changes stay queued:', (error as Error).message);
+  } finally {
+    await local.removePendingChanges(done);
+  }
+
+  return { applied, conflicts, remaining: pendingChanges.length - done.length };
+};
@@ -0,0 +1,26 @@
+import { CustomFieldValues, UserFields } from '../functions/src/shared/userSchema';
+
+// name, email and age, with their constraints, come from the schema shared
+// with Cloud Functions
+export interface User extends UserFields {
+  id: string;
+  createdAt?: any;
+  // Firebase Auth uid of the user who created the record
+  ownerUid?: string;
+  // Written with every create/update; identifies the change for notification
+  // de-duplication (see functions/src/notificationEvents.ts)
+  lastChangeId?: string;
+  // Firebase Auth uid of the user who made the last create/update; their
+  // devices are not notified about it
+  lastChangedBy?: string;
+  // Device the last create/update was made on, for the audit log
+  // (functions/src/shared/audit.ts)
+  lastChangedOn?: string;
+  // Set while the user is in the trash; null or missing otherwise
+  deletedAt?: any;
+  // Values of the custom fields defined in Firestore `schema/users`
+  customFields?: CustomFieldValues;
+}
+
+// Fields supplied by the form when creating or editing a user
+export type UserInput = Omit<User, 'id' | 'createdAt'>;
@@ -0,0 +1,4 @@
+// Utility function to generate unique IDs
+export const generateUniqueId = (): string => {
+  return `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+};